@@ -0,0 +1,299 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash, randomUUID } from 'crypto';
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, rmSync, statSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { unwrap } from './models.js';
+
+// =============================================================================
+// AUDIT LOG
+// =============================================================================
+// One JSON line per tool call: when, which session and token, the tool and
+// its sanitised arguments, every Stellify API request it made, the entities
+// it created, modified or deleted, how long it took and how it ended.
+//
+// API requests are collected with AsyncLocalStorage, so concurrent tool calls
+// on a shared server never mix up their requests. The file is rotated by
+// size: audit.jsonl → audit.jsonl.1 → ... up to the configured count.
+
+export interface AuditRequest {
+  method: string;
+  url: string;
+  status: number | null; // null when no response arrived
+  duration_ms: number;
+  dry_run?: boolean;
+  created?: string; // UUID in the response of a create request
+  error?: string;
+}
+
+export type AuditOutcome = 'ok' | 'error' | 'refused' | 'invalid' | 'dry_run';
+
+export interface AuditEntry {
+  at: string;
+  session: string;
+  owner: string; // Hash of the API token
+  tool: string;
+  arguments: any;
+  requests: AuditRequest[];
+  created: string[];
+  modified: string[];
+  deleted: string[];
+  duration_ms: number;
+  outcome: AuditOutcome;
+  error?: string;
+}
+
+export interface AuditOptions {
+  file: string | null; // null keeps recent entries in memory only
+  maxBytes: number; // Rotate once the file reaches this size
+  maxFiles: number; // Rotated files to keep
+}
+
+export interface AuditQuery {
+  limit?: number;
+  tool?: string;
+  outcome?: AuditOutcome;
+  uuid?: string; // Entries that created, modified or deleted this entity
+  since?: string; // ISO timestamp
+  session?: 'current' | 'all';
+}
+
+export const DEFAULT_AUDIT_FILE = path.join(os.homedir(), '.stellify-mcp', 'audit.jsonl');
+
+export const DEFAULT_AUDIT_OPTIONS: AuditOptions = {
+  file: DEFAULT_AUDIT_FILE,
+  maxBytes: 10 * 1024 * 1024,
+  maxFiles: 5,
+};
+
+// Entries kept in memory when the log has no file
+const MEMORY_ENTRIES = 1000;
+
+// Argument keys whose values are never written to the log
+export const SECRET_KEYS = /token|secret|password|authorization|api[_-]?key|credential/i;
+const MAX_STRING_LENGTH = 2000;
+
+const requestLog = new AsyncLocalStorage<AuditRequest[]>();
+
+type TimedConfig = InternalAxiosRequestConfig & { auditStartedAt?: number };
+
+/**
+ * Read audit options from STELLIFY_AUDIT_FILE (a path, or "off"),
+ * STELLIFY_AUDIT_MAX_BYTES and STELLIFY_AUDIT_MAX_FILES.
+ */
+export function auditOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): AuditOptions {
+  const options = { ...DEFAULT_AUDIT_OPTIONS };
+  const file = env.STELLIFY_AUDIT_FILE?.trim();
+  if (file === 'off') {
+    options.file = null;
+  } else if (file) {
+    options.file = file.startsWith('~/') ? path.join(os.homedir(), file.slice(2)) : file;
+  }
+  for (const [key, variable] of [['maxBytes', 'STELLIFY_AUDIT_MAX_BYTES'], ['maxFiles', 'STELLIFY_AUDIT_MAX_FILES']] as const) {
+    const raw = env[variable];
+    if (raw === undefined || raw.trim() === '') continue;
+    const value = Number(raw);
+    if (Number.isInteger(value) && value > 0) {
+      options[key] = value;
+    } else {
+      console.error(`Ignoring ${variable}=${raw}: expected a positive integer`);
+    }
+  }
+  return options;
+}
+
+/**
+ * Record every request made on this axios instance into the audit entry of
+ * the tool call it belongs to, if any.
+ */
+export function installRequestLog(instance: AxiosInstance) {
+  instance.interceptors.request.use((config: TimedConfig) => {
+    config.auditStartedAt = Date.now();
+    return config;
+  });
+
+  const log = (config: TimedConfig | undefined, response: AxiosResponse | undefined, error?: AxiosError) => {
+    const requests = requestLog.getStore();
+    if (!requests || !config) return;
+    const method = (config.method || 'get').toUpperCase();
+    const request: AuditRequest = {
+      method,
+      url: config.url || '',
+      status: response?.status ?? null,
+      duration_ms: Date.now() - (config.auditStartedAt ?? Date.now()),
+    };
+    if (response?.data?.dry_run === true) request.dry_run = true;
+    const created = method === 'POST' ? unwrap(response?.data)?.uuid : undefined;
+    if (typeof created === 'string') request.created = created;
+    if (error) request.error = error.message;
+    requests.push(request);
+  };
+
+  instance.interceptors.response.use(
+    (response) => {
+      log(response.config, response);
+      return response;
+    },
+    (error: AxiosError) => {
+      log(error.config, error.response, error);
+      throw error;
+    }
+  );
+}
+
+// Secrets redacted, long strings (code, HTML) shortened
+function sanitise(value: any, key = ''): any {
+  if (key && SECRET_KEYS.test(key)) return '[redacted]';
+  if (typeof value === 'string' && value.length > MAX_STRING_LENGTH) {
+    return `${value.slice(0, MAX_STRING_LENGTH)}... (${value.length} characters)`;
+  }
+  if (Array.isArray(value)) return value.map((entry) => sanitise(entry));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([name, entry]) => [name, sanitise(entry, name)]));
+  }
+  return value;
+}
+
+// Entities touched by the requests, from create responses and update/delete URLs
+function touched(requests: AuditRequest[]) {
+  const created = new Set<string>();
+  const modified = new Set<string>();
+  const deleted = new Set<string>();
+  for (const request of requests) {
+    if (request.dry_run || request.status === null || request.status >= 400) continue;
+    if (request.created) created.add(request.created);
+    const match = request.url.match(/^\/([a-z]+)\/([^/?]+)(?:\?|$)/);
+    if (!match || match[1] === 'code') continue;
+    if (request.method === 'PUT' || request.method === 'PATCH') modified.add(match[2]);
+    if (request.method === 'DELETE') deleted.add(match[2]);
+  }
+  return { created: [...created], modified: [...modified], deleted: [...deleted] };
+}
+
+function outcomeOf(error: any): AuditOutcome {
+  if (error?.name === 'ToolPolicyError') return 'refused';
+  if (error?.name === 'ToolInputError') return 'invalid';
+  return 'error';
+}
+
+/**
+ * The audit log shared by every session; each session records and queries
+ * through forSession().
+ */
+export class AuditLog {
+  private memory: AuditEntry[] = [];
+
+  constructor(private options: AuditOptions) {}
+
+  forSession(credential: string): SessionAudit {
+    return new SessionAudit(this, createHash('sha256').update(credential).digest('hex').slice(0, 16));
+  }
+
+  append(entry: AuditEntry) {
+    if (!this.options.file) {
+      this.memory.push(entry);
+      if (this.memory.length > MEMORY_ENTRIES) this.memory.shift();
+      return;
+    }
+    try {
+      mkdirSync(path.dirname(this.options.file), { recursive: true });
+      this.rotate(this.options.file);
+      appendFileSync(this.options.file, JSON.stringify(entry) + '\n');
+    } catch (error: any) {
+      console.error(`Could not write the audit log ${this.options.file}: ${error.message}`);
+    }
+  }
+
+  // Entries newest first, reading rotated files only as far as needed
+  *entries(): Generator<AuditEntry> {
+    if (!this.options.file) {
+      yield* [...this.memory].reverse();
+      return;
+    }
+    for (let index = 0; index <= this.options.maxFiles; index++) {
+      const file = index === 0 ? this.options.file : `${this.options.file}.${index}`;
+      if (!existsSync(file)) continue;
+      const lines = readFileSync(file, 'utf8').split('\n').reverse();
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          yield JSON.parse(line);
+        } catch {
+          // A partly written line; skip it
+        }
+      }
+    }
+  }
+
+  private rotate(file: string) {
+    if (!existsSync(file) || statSync(file).size < this.options.maxBytes) return;
+    rmSync(`${file}.${this.options.maxFiles}`, { force: true });
+    for (let index = this.options.maxFiles - 1; index >= 1; index--) {
+      if (existsSync(`${file}.${index}`)) renameSync(`${file}.${index}`, `${file}.${index + 1}`);
+    }
+    renameSync(file, `${file}.1`);
+  }
+}
+
+/**
+ * One MCP session's view of the audit log: records its tool calls and
+ * queries the entries of its API token.
+ */
+export class SessionAudit {
+  readonly session = randomUUID();
+
+  constructor(private log: AuditLog, private owner: string) {}
+
+  /**
+   * Run a tool call and append its entry, whether it succeeds, returns an
+   * error result or throws.
+   */
+  async record<T extends { isError?: boolean }>(tool: string, args: any, dryRun: boolean, run: () => Promise<T>): Promise<T> {
+    const requests: AuditRequest[] = [];
+    const startedAt = Date.now();
+    const finish = (outcome: AuditOutcome, error?: string) => {
+      this.log.append({
+        at: new Date(startedAt).toISOString(),
+        session: this.session,
+        owner: this.owner,
+        tool,
+        arguments: sanitise(args),
+        requests,
+        ...touched(requests),
+        duration_ms: Date.now() - startedAt,
+        outcome,
+        ...(error && { error }),
+      });
+    };
+
+    try {
+      const result = await requestLog.run(requests, run);
+      finish(result?.isError ? 'error' : dryRun ? 'dry_run' : 'ok');
+      return result;
+    } catch (error: any) {
+      finish(outcomeOf(error), error.message);
+      throw error;
+    }
+  }
+
+  query(filter: AuditQuery = {}): AuditEntry[] {
+    const limit = filter.limit ?? 20;
+    const since = filter.since === undefined ? undefined : new Date(filter.since);
+    if (since && Number.isNaN(since.getTime())) {
+      throw new Error(`"since" must be an ISO 8601 time, got "${filter.since}"`);
+    }
+    const matches: AuditEntry[] = [];
+    for (const entry of this.log.entries()) {
+      if (since && entry.at < since.toISOString()) break;
+      if (entry.owner !== this.owner) continue;
+      if (filter.session !== 'all' && entry.session !== this.session) continue;
+      if (filter.tool && entry.tool !== filter.tool) continue;
+      if (filter.outcome && entry.outcome !== filter.outcome) continue;
+      if (filter.uuid && ![...entry.created, ...entry.modified, ...entry.deleted].includes(filter.uuid)) continue;
+      matches.push(entry);
+      if (matches.length >= limit) break;
+    }
+    return matches;
+  }
+}
@@ -0,0 +1,230 @@
+import type { StellifyClient } from './stellify-client.js';
+
+// =============================================================================
+// BATCH OPERATIONS
+// =============================================================================
+// Runs an ordered list of tool calls as one unit. Later steps can refer to
+// earlier results with placeholders ("$0.uuid", "$1.methods.increment"); only
+// a string that is exactly one placeholder is replaced, so code such as
+// `return "$1.50";` or preg_replace's '$1' passes through untouched. If a
+// step fails, every entity created by the earlier steps is deleted again in
+// reverse order, so a half-finished workflow leaves no orphans behind.
+
+export interface BatchOperation {
+  tool: string;
+  arguments?: Record<string, any>;
+}
+
+export interface BatchOptions {
+  rollback?: boolean; // Undo created entities when a step fails (default: true)
+}
+
+export type CreatedKind = 'file' | 'method' | 'statement' | 'route' | 'element' | 'directory';
+
+export interface CreatedEntity {
+  kind: CreatedKind;
+  uuid: string;
+}
+
+export interface BatchStep {
+  index: number;
+  tool: string;
+  status: 'ok' | 'failed' | 'skipped';
+  arguments?: Record<string, any>;
+  result?: any;
+  error?: string;
+  created: CreatedEntity[];
+}
+
+export interface BatchReport {
+  success: boolean;
+  steps: BatchStep[];
+  rolled_back: Array<CreatedEntity & { status: 'deleted' | 'failed'; error?: string }>;
+  not_reverted: Array<{ index: number; tool: string }>; // Completed updates that deleting cannot undo
+}
+
+// Runs one tool and returns its MCP result ({ content, isError })
+export type ToolExecutor = (name: string, args: Record<string, any>) => Promise<any>;
+
+// Tools that only read; they need no undo
+const READ_ONLY_TOOL = /^(get_|search_|list_|analyze_|render_)/;
+
+const WHOLE_PLACEHOLDER = /^\$(\d+)((?:\.[A-Za-z0-9_-]+)*)$/;
+
+function uuidOf(value: any): string | null {
+  if (typeof value === 'string') return value;
+  if (!value || typeof value !== 'object') return null;
+  if (typeof value.uuid === 'string') return value.uuid;
+  return value.data && typeof value.data.uuid === 'string' ? value.data.uuid : null;
+}
+
+// The UUID a step "produced": its own uuid, or the uuid of the entity it returned
+function primaryUuid(result: any): string | null {
+  if (!result || typeof result !== 'object') return null;
+  if (typeof result.uuid === 'string') return result.uuid;
+  if (typeof result.file === 'string') return result.file;
+  for (const key of ['file', 'method', 'statement', 'route', 'element', 'directory', 'data']) {
+    const uuid = uuidOf(result[key]);
+    if (uuid) return uuid;
+  }
+  return null;
+}
+
+function lookup(results: any[], index: number, path: string): any {
+  if (index >= results.length) {
+    throw new Error(`Placeholder $${index}${path} refers to a step that has not run yet`);
+  }
+  const keys = path.split('.').filter(Boolean);
+  let value = results[index];
+  for (const key of keys) {
+    value = value === null || value === undefined ? undefined : value[key];
+  }
+  if (value === undefined && keys.length === 1 && keys[0] === 'uuid') {
+    value = primaryUuid(results[index]);
+  }
+  if (value === undefined || value === null) {
+    throw new Error(`Placeholder $${index}${path} did not resolve to a value`);
+  }
+  return value;
+}
+
+// Replace every string in the arguments that is exactly one placeholder with
+// the referenced value, keeping its type (e.g. an array of UUIDs). Other
+// strings are left alone, even if they contain "$1".
+export function resolvePlaceholders(value: any, results: any[]): any {
+  if (typeof value === 'string') {
+    const whole = value.match(WHOLE_PLACEHOLDER);
+    return whole ? lookup(results, Number(whole[1]), whole[2]) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => resolvePlaceholders(entry, results));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, resolvePlaceholders(entry, results)]));
+  }
+  return value;
+}
+
+// What a successful tool call created, so it can be deleted on rollback
+function createdBy(tool: string, args: Record<string, any>, result: any): CreatedEntity[] {
+  const single = (kind: CreatedKind, value: any): CreatedEntity[] => {
+    const uuid = uuidOf(value);
+    return uuid ? [{ kind, uuid }] : [];
+  };
+
+  switch (tool) {
+    case 'create_file': return single('file', result.file);
+    case 'create_method': return single('method', result.method);
+    case 'create_statement': return single('statement', result.statement);
+    case 'create_route': return single('route', result.route);
+    case 'create_element': return single('element', result.element);
+    case 'create_directory': return result.existing ? [] : single('directory', result.directory);
+    case 'html_to_elements':
+      if (args.test) return [];
+      return Object.keys(result.elements || {}).map((uuid) => ({ kind: 'element' as const, uuid }));
+    case 'create_vue_component':
+      return [
+        ...result.elements.map((uuid: string) => ({ kind: 'element' as const, uuid })),
+        ...Object.values(result.methods).map((uuid) => ({ kind: 'method' as const, uuid: uuid as string })),
+        ...result.statements.map((statement: any) => ({ kind: 'statement' as const, uuid: statement.uuid })),
+        ...single('file', result.file),
+      ];
+    case 'clone_library_file':
+      return [
+        ...result.template.map((uuid: string) => ({ kind: 'element' as const, uuid })),
+        ...Object.values(result.methods).map((uuid) => ({ kind: 'method' as const, uuid: uuid as string })),
+        ...result.statements.map((uuid: string) => ({ kind: 'statement' as const, uuid })),
+        ...single('file', result.file),
+      ];
+    case 'create_resources':
+      return ['migration', 'service', 'controller', 'model'].flatMap((key) => single('file', result.data?.[key]));
+    default:
+      return [];
+  }
+}
+
+function parseResult(result: any): any {
+  const text = result?.content?.[0]?.text;
+  if (typeof text !== 'string') return result;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { text };
+  }
+}
+
+async function remove(client: StellifyClient, entity: CreatedEntity) {
+  switch (entity.kind) {
+    case 'file': return client.deleteFile(entity.uuid);
+    case 'method': return client.deleteMethod(entity.uuid);
+    case 'statement': return client.deleteStatement(entity.uuid);
+    case 'route': return client.deleteRoute(entity.uuid);
+    case 'element': return client.deleteElement(entity.uuid);
+    case 'directory': return client.deleteDirectory(entity.uuid);
+  }
+}
+
+/**
+ * Run operations in order. On the first failure the remaining steps are
+ * skipped and, unless rollback is disabled, created entities are deleted.
+ */
+export async function runBatch(
+  client: StellifyClient,
+  execute: ToolExecutor,
+  operations: BatchOperation[],
+  options: BatchOptions = {}
+): Promise<BatchReport> {
+  const report: BatchReport = { success: true, steps: [], rolled_back: [], not_reverted: [] };
+  const results: any[] = [];
+
+  for (let index = 0; index < operations.length; index++) {
+    const { tool, arguments: rawArgs = {} } = operations[index];
+    const step: BatchStep = { index, tool, status: 'ok', created: [] };
+    report.steps.push(step);
+
+    if (!report.success) {
+      step.status = 'skipped';
+      continue;
+    }
+    if (tool === 'batch') {
+      step.status = 'failed';
+      step.error = 'Batches cannot be nested';
+      report.success = false;
+      continue;
+    }
+
+    try {
+      step.arguments = resolvePlaceholders(rawArgs, results);
+      const raw = await execute(tool, step.arguments!);
+      const result = parseResult(raw);
+      step.result = result;
+      if (raw?.isError || result?.success === false) {
+        throw new Error(result?.error || result?.message || `${tool} failed`);
+      }
+      step.created = createdBy(tool, step.arguments!, result);
+      results.push(result);
+    } catch (error: any) {
+      step.status = 'failed';
+      step.error = error.message;
+      report.success = false;
+    }
+  }
+
+  if (!report.success && options.rollback !== false) {
+    report.not_reverted = report.steps
+      .filter((step) => step.status === 'ok' && step.created.length === 0 && !READ_ONLY_TOOL.test(step.tool))
+      .map((step) => ({ index: step.index, tool: step.tool }));
+
+    const created = report.steps.flatMap((step) => step.created).reverse();
+    for (const entity of created) {
+      try {
+        await remove(client, entity);
+        report.rolled_back.push({ ...entity, status: 'deleted' });
+      } catch (error: any) {
+        report.rolled_back.push({ ...entity, status: 'failed', error: error.response?.data?.message || error.message });
+      }
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,229 @@
+import type { StellifyClient } from './stellify-client.js';
+import { indexProject } from './references.js';
+
+// =============================================================================
+// BRANCH DIFF
+// =============================================================================
+// Compares two branches of the active project using the structured JSON
+// rather than rendered text: each branch is walked (directories → files →
+// methods → statements) and the snapshots are matched by UUID, falling back
+// to names, so the summary says which files, methods and statements were
+// added, removed or changed.
+
+// Identity and bookkeeping fields; they differ between branch copies and say nothing about the code
+const VOLATILE_FIELDS = new Set(['uuid', 'id', 'created_at', 'updated_at', 'deleted_at', 'branch', 'version']);
+
+interface StatementSnapshot {
+  uuid: string;
+  content: string; // Canonical JSON of the statement
+}
+
+interface MethodSnapshot {
+  uuid: string;
+  name: string;
+  signature: string; // Canonical JSON of the method without its statements
+  statements: StatementSnapshot[];
+}
+
+interface FileSnapshot {
+  uuid: string;
+  path: string; // Directory name / file name, for matching and display
+  fields: Record<string, string>; // Canonical JSON of each top-level field
+  methods: MethodSnapshot[];
+  statements: StatementSnapshot[];
+}
+
+export interface EntityChanges {
+  added: string[];
+  removed: string[];
+  modified: string[];
+}
+
+export interface FileDiff {
+  uuid: string;
+  path: string;
+  fields: string[]; // Top-level file fields that differ (template, includes, ...)
+  methods: EntityChanges;
+  statements: EntityChanges; // File-level statements (imports, variables)
+  method_statements: Record<string, EntityChanges>; // Method name → statement changes in its body
+}
+
+export interface BranchDiff {
+  base: string;
+  head: string;
+  files: {
+    added: Array<{ uuid: string; path: string }>;
+    removed: Array<{ uuid: string; path: string }>;
+    modified: FileDiff[];
+    unchanged: number;
+  };
+  errors: Array<{ uuid: string; error: string }>;
+}
+
+function uuidOf(entry: any): string | null {
+  if (typeof entry === 'string') return entry;
+  return entry && typeof entry.uuid === 'string' ? entry.uuid : null;
+}
+
+// JSON with sorted keys and volatile fields removed, so equal content compares equal
+function canonical(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).filter((key) => !VOLATILE_FIELDS.has(key)).sort();
+    return `{${keys.map((key) => `${JSON.stringify(key)}:${canonical(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+async function snapshotStatements(client: StellifyClient, uuids: any[]): Promise<StatementSnapshot[]> {
+  const statements: StatementSnapshot[] = [];
+  for (const entry of uuids) {
+    const uuid = uuidOf(entry);
+    if (!uuid) continue;
+    statements.push({ uuid, content: canonical(await client.getStatement(uuid)) });
+  }
+  return statements;
+}
+
+async function snapshotBranch(client: StellifyClient, errors: BranchDiff['errors']): Promise<FileSnapshot[]> {
+  const index = await indexProject(client);
+  const directoryNames = new Map(index.directories.map((directory) => [directory.uuid, directory.entity.name || directory.uuid]));
+  const files: FileSnapshot[] = [];
+
+  for (const { uuid, entity, directory } of index.files) {
+    try {
+      const methods: MethodSnapshot[] = [];
+      for (const entry of entity.data || []) {
+        const methodUuid = uuidOf(entry);
+        if (!methodUuid) continue;
+        const method = await client.getMethod(methodUuid);
+        const { data, ...signature } = method;
+        methods.push({
+          uuid: methodUuid,
+          name: method.name || methodUuid,
+          signature: canonical(signature),
+          statements: await snapshotStatements(client, Array.isArray(data) ? data : []),
+        });
+      }
+
+      const fields: Record<string, string> = {};
+      for (const [key, value] of Object.entries(entity)) {
+        if (!VOLATILE_FIELDS.has(key) && key !== 'data' && key !== 'statements') fields[key] = canonical(value);
+      }
+
+      const extension = entity.extension ? `.${entity.extension}` : '';
+      files.push({
+        uuid,
+        path: `${directoryNames.get(directory)}/${entity.name || uuid}${extension}`,
+        fields,
+        methods,
+        statements: await snapshotStatements(client, entity.statements || []),
+      });
+    } catch (error: any) {
+      errors.push({ uuid, error: error.response?.data?.message || error.message });
+    }
+  }
+  return files;
+}
+
+// Pair up entries by UUID first, then by a secondary key for copies with new UUIDs
+function match<T extends { uuid: string }>(base: T[], head: T[], key: (entry: T) => string) {
+  const pairs: Array<[T, T]> = [];
+  const unmatchedHead = new Map(head.map((entry) => [entry.uuid, entry]));
+  const unmatchedBase: T[] = [];
+
+  for (const entry of base) {
+    const same = unmatchedHead.get(entry.uuid);
+    if (same) {
+      pairs.push([entry, same]);
+      unmatchedHead.delete(entry.uuid);
+    } else {
+      unmatchedBase.push(entry);
+    }
+  }
+
+  const removed: T[] = [];
+  for (const entry of unmatchedBase) {
+    const same = [...unmatchedHead.values()].find((candidate) => key(candidate) === key(entry));
+    if (same) {
+      pairs.push([entry, same]);
+      unmatchedHead.delete(same.uuid);
+    } else {
+      removed.push(entry);
+    }
+  }
+  return { pairs, removed, added: [...unmatchedHead.values()] };
+}
+
+function compareStatements(base: StatementSnapshot[], head: StatementSnapshot[]): EntityChanges {
+  const { pairs, removed, added } = match(base, head, (statement) => statement.content);
+  return {
+    added: added.map((statement) => statement.uuid),
+    removed: removed.map((statement) => statement.uuid),
+    modified: pairs.filter(([a, b]) => a.content !== b.content).map(([, b]) => b.uuid),
+  };
+}
+
+const isEmpty = (changes: EntityChanges) =>
+  changes.added.length === 0 && changes.removed.length === 0 && changes.modified.length === 0;
+
+function compareFiles(base: FileSnapshot, head: FileSnapshot): FileDiff {
+  const keys = new Set([...Object.keys(base.fields), ...Object.keys(head.fields)]);
+  const { pairs, removed, added } = match(base.methods, head.methods, (method) => method.name);
+  const methodStatements: Record<string, EntityChanges> = {};
+  const modified: string[] = [];
+
+  for (const [a, b] of pairs) {
+    const statements = compareStatements(a.statements, b.statements);
+    if (!isEmpty(statements)) methodStatements[b.name] = statements;
+    if (a.signature !== b.signature || !isEmpty(statements)) modified.push(b.name);
+  }
+
+  return {
+    uuid: head.uuid,
+    path: head.path,
+    fields: [...keys].filter((key) => base.fields[key] !== head.fields[key]),
+    methods: {
+      added: added.map((method) => method.name),
+      removed: removed.map((method) => method.name),
+      modified,
+    },
+    statements: compareStatements(base.statements, head.statements),
+    method_statements: methodStatements,
+  };
+}
+
+/**
+ * Summarise what changed from `base` to `head`. The client is only used to
+ * fork per-branch clients; its own branch selection is left untouched.
+ */
+export async function diffBranches(client: StellifyClient, base: string, head: string): Promise<BranchDiff> {
+  const diff: BranchDiff = {
+    base,
+    head,
+    files: { added: [], removed: [], modified: [], unchanged: 0 },
+    errors: [],
+  };
+
+  const onBranch = (branch: string) => {
+    const branchClient = client.forSession();
+    branchClient.useBranch(branch);
+    return branchClient;
+  };
+  const baseFiles = await snapshotBranch(onBranch(base), diff.errors);
+  const headFiles = await snapshotBranch(onBranch(head), diff.errors);
+
+  const { pairs, removed, added } = match(baseFiles, headFiles, (file) => file.path);
+  diff.files.added = added.map(({ uuid, path }) => ({ uuid, path }));
+  diff.files.removed = removed.map(({ uuid, path }) => ({ uuid, path }));
+  for (const [a, b] of pairs) {
+    const fileDiff = compareFiles(a, b);
+    const changed = fileDiff.fields.length > 0 || !isEmpty(fileDiff.methods) || !isEmpty(fileDiff.statements);
+    if (changed) {
+      diff.files.modified.push(fileDiff);
+    } else {
+      diff.files.unchanged++;
+    }
+  }
+  return diff;
+}
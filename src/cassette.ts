@@ -0,0 +1,233 @@
+import { appendFileSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import axios, { AxiosError, AxiosHeaders } from 'axios';
+import type { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { SECRET_KEYS } from './audit.js';
+
+// =============================================================================
+// RECORD / REPLAY
+// =============================================================================
+// A cassette is a JSON lines file with one entry per HTTP exchange: the
+// request as it left the client (after retries, project and branch headers)
+// and the response or network error that came back. Recording wraps the
+// instance's adapter, so dry-run writes, which never reach it, are not
+// recorded. Tokens, cookies and secret-looking fields are redacted.
+//
+// Replaying answers each request with the first unplayed entry for the same
+// method, URL, query parameters and project / branch headers, so concurrent
+// requests may interleave differently than they were recorded. A request with
+// no entry left fails instead of reaching the network.
+
+export interface CassetteEntry {
+  at: string;
+  request: {
+    method: string;
+    url: string;
+    params?: any;
+    headers: Record<string, string>;
+    body?: any;
+  };
+  response?: {
+    status: number;
+    headers: Record<string, string>;
+    body: any;
+  };
+  error?: { code?: string; message: string }; // Network errors and timeouts, which have no response
+  duration_ms: number;
+}
+
+export type CassetteMode = 'record' | 'replay';
+
+export class CassetteMismatchError extends Error {
+  constructor(request: string, file: string) {
+    super(`No recorded response left for ${request} in cassette ${file}`);
+    this.name = 'CassetteMismatchError';
+  }
+}
+
+const REDACTED = '[redacted]';
+
+// Headers that pick the entry along with the method, URL and parameters
+const SCOPE_HEADERS = ['x-stellify-project', 'x-stellify-branch'];
+
+function parseBody(data: unknown): any {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+function plain(value: unknown): any {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+function headersOf(headers: unknown): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(AxiosHeaders.from(headers as any).toJSON()).map(([name, value]) => [name.toLowerCase(), String(value)])
+  );
+}
+
+function keyOf(method: string, url: string, params: unknown, headers: Record<string, string>): string {
+  return JSON.stringify([method.toUpperCase(), url, plain(params) ?? null, ...SCOPE_HEADERS.map((name) => headers[name] ?? null)]);
+}
+
+export class Cassette {
+  private unplayed = new Map<string, CassetteEntry[]>();
+
+  private constructor(readonly mode: CassetteMode, readonly file: string, entries: CassetteEntry[] = []) {
+    for (const entry of entries) {
+      const key = keyOf(entry.request.method, entry.request.url, entry.request.params, entry.request.headers);
+      this.unplayed.set(key, [...(this.unplayed.get(key) || []), entry]);
+    }
+  }
+
+  /** Start a new cassette, replacing the file if it exists. */
+  static record(file: string): Cassette {
+    mkdirSync(path.dirname(file), { recursive: true });
+    writeFileSync(file, '');
+    return new Cassette('record', file);
+  }
+
+  /** Load a recorded cassette; throws if the file cannot be read or parsed. */
+  static replay(file: string): Cassette {
+    const entries = readFileSync(file, 'utf8')
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line, index) => {
+        try {
+          return JSON.parse(line) as CassetteEntry;
+        } catch {
+          throw new Error(`Cassette ${file} line ${index + 1} is not valid JSON`);
+        }
+      });
+    return new Cassette('replay', file, entries);
+  }
+
+  append(entry: CassetteEntry) {
+    try {
+      appendFileSync(this.file, JSON.stringify(entry) + '\n');
+    } catch (error: any) {
+      console.error(`Could not write the cassette ${this.file}: ${error.message}`);
+    }
+  }
+
+  // The next entry recorded for this request, which is then used up
+  take(method: string, url: string, params: unknown, headers: Record<string, string>): CassetteEntry | undefined {
+    return this.unplayed.get(keyOf(method, url, params, headers))?.shift();
+  }
+
+  // Entries not replayed yet
+  get remaining(): number {
+    return [...this.unplayed.values()].reduce((total, entries) => total + entries.length, 0);
+  }
+}
+
+/**
+ * A cassette from STELLIFY_RECORD or STELLIFY_REPLAY (a path), or null when
+ * neither is set. Throws if both are set or the replay file is unreadable.
+ */
+export function cassetteFromEnv(env: NodeJS.ProcessEnv = process.env): Cassette | null {
+  const record = env.STELLIFY_RECORD?.trim();
+  const replay = env.STELLIFY_REPLAY?.trim();
+  if (record && replay) {
+    throw new Error('Set STELLIFY_RECORD or STELLIFY_REPLAY, not both');
+  }
+  if (replay) return Cassette.replay(replay);
+  if (record) return Cassette.record(record);
+  return null;
+}
+
+// Shorter tokens are placeholders (memory://, replay) that would redact ordinary words
+const MIN_SECRET_LENGTH = 16;
+
+// The token anywhere in a string, and every secret-looking field, redacted
+function redact(value: any, secret: string, key = ''): any {
+  if (key && (SECRET_KEYS.test(key) || /cookie/i.test(key))) return REDACTED;
+  if (typeof value === 'string') return secret.length >= MIN_SECRET_LENGTH ? value.split(secret).join(REDACTED) : value;
+  if (Array.isArray(value)) return value.map((entry) => redact(entry, secret));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([name, entry]) => [name, redact(entry, secret, name)]));
+  }
+  return value;
+}
+
+function record(instance: AxiosInstance, cassette: Cassette, secret: string) {
+  const adapter = axios.getAdapter(instance.defaults.adapter);
+  instance.defaults.adapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const startedAt = Date.now();
+    const request = {
+      method: (config.method || 'get').toUpperCase(),
+      url: config.url || '',
+      params: plain(config.params),
+      headers: headersOf(config.headers),
+      body: parseBody(config.data),
+    };
+    const save = (response?: AxiosResponse, error?: AxiosError) => {
+      cassette.append(redact({
+        at: new Date(startedAt).toISOString(),
+        request,
+        ...(response && { response: { status: response.status, headers: headersOf(response.headers), body: parseBody(response.data) } }),
+        ...(!response && error && { error: { code: error.code, message: error.message } }),
+        duration_ms: Date.now() - startedAt,
+      }, secret));
+    };
+
+    try {
+      const response = await adapter(config);
+      save(response);
+      return response;
+    } catch (error: any) {
+      save(error?.response, error);
+      throw error;
+    }
+  };
+}
+
+function replay(instance: AxiosInstance, cassette: Cassette) {
+  instance.defaults.adapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const method = (config.method || 'get').toUpperCase();
+    const url = config.url || '';
+    const entry = cassette.take(method, url, config.params, headersOf(config.headers));
+    if (!entry) {
+      throw new CassetteMismatchError(`${method} ${url}`, cassette.file);
+    }
+    if (!entry.response) {
+      throw new AxiosError(entry.error?.message || 'Network Error', entry.error?.code, config, {});
+    }
+
+    const response: AxiosResponse = {
+      data: entry.response.body,
+      status: entry.response.status,
+      statusText: entry.response.status < 400 ? 'OK' : 'Error',
+      headers: AxiosHeaders.from(entry.response.headers),
+      config,
+      request: {},
+    };
+    const validate = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+    if (!validate(response.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status < 500 ? AxiosError.ERR_BAD_REQUEST : AxiosError.ERR_BAD_RESPONSE,
+        config,
+        {},
+        response
+      );
+    }
+    return response;
+  };
+}
+
+/**
+ * Record every HTTP exchange on this axios instance into the cassette, or
+ * answer every request from it. `secret` (the API token) is redacted
+ * wherever it appears.
+ */
+export function installCassette(instance: AxiosInstance, cassette: Cassette, secret: string) {
+  if (cassette.mode === 'record') {
+    record(instance, cassette, secret);
+  } else {
+    replay(instance, cassette);
+  }
+}
@@ -0,0 +1,129 @@
+import type { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+// =============================================================================
+// DRY RUN
+// =============================================================================
+// In a dry run every write request (POST, PUT, PATCH, DELETE) is recorded
+// instead of sent, and answered with a placeholder response: the request body
+// (for entity endpoints) plus a placeholder UUID, so tools that chain writes (create_vue_component,
+// batch, create_file → save_file) still run to the end. Reads go through, so
+// a plan is checked against the real project; reads of a placeholder return
+// the entity as the plan would create it.
+
+export interface PlannedRequest {
+  method: string;
+  url: string;
+  params?: any;
+  body?: any;
+  effect: string; // What the request would do, in words
+}
+
+// Prefix of the UUIDs handed out for entities a dry run would create
+export const PLACEHOLDER_PREFIX = 'dry-run-';
+
+const WRITE_METHODS = new Set(['post', 'put', 'patch', 'delete']);
+
+const PLACEHOLDER_PATTERN = new RegExp(`${PLACEHOLDER_PREFIX}\\d+`);
+
+// Endpoints that run an action instead of storing the body as an entity; their bodies are not echoed
+const ACTION_ENDPOINTS = /^\/(code|html|elements|resources|capabilities)(\/|$)/;
+
+// What each write endpoint does; the first matching pattern wins
+const EFFECTS: Array<[string, RegExp, (match: RegExpMatchArray, body: any) => string]> = [
+  ['post', /^\/code$/, (_, body) => body.statement
+    ? `Parse code into statement ${body.statement}`
+    : `Parse code into statements appended to method ${body.method}`],
+  ['put', /^\/code\/([^/]+)\/([^/]+)$/, (match) => `Run method ${match[2]} of file ${match[1]}`],
+  ['post', /^\/html\/elements$/, () => 'Create elements from HTML'],
+  ['post', /^\/elements\/command$/, (_, body) => `Broadcast "${body.action}" to connected editors`],
+  ['post', /^\/resources$/, (_, body) => `Scaffold resources for "${body.name}"`],
+  ['post', /^\/capabilities\/request$/, (_, body) => `Log a capability request for "${body.capability}"`],
+  ['post', /^\/branch$/, (_, body) => `Create branch "${body.name}"${body.from ? ` from "${body.from}"` : ''}`],
+  ['put', /^\/file\/([^/]+)$/, (match) => `Replace file ${match[1]}`],
+  ['post', /^\/([a-z]+)$/, (match, body) => `Create ${match[1]}${body.name ? ` "${body.name}"` : body.type ? ` (${body.type})` : ''}`],
+  ['put', /^\/([a-z]+)\/([^/]+)$/, (match) => `Update ${match[1]} ${match[2]}`],
+  ['delete', /^\/([a-z]+)\/([^/]+)$/, (match) => `Delete ${match[1]} ${match[2]}`],
+];
+
+function parseBody(data: unknown): any {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+function describe(method: string, url: string, body: any): string {
+  for (const [verb, pattern, effect] of EFFECTS) {
+    const match = verb === method ? url.match(pattern) : null;
+    if (match) return effect(match, body && typeof body === 'object' ? body : {});
+  }
+  return `${method.toUpperCase()} ${url}`;
+}
+
+/**
+ * The writes a dry run would have sent, in order.
+ */
+export class DryRunPlan {
+  readonly requests: PlannedRequest[] = [];
+  readonly created = new Map<string, any>(); // Placeholder UUID → entity as it would be created
+  private placeholders = 0;
+
+  nextPlaceholder(): string {
+    return `${PLACEHOLDER_PREFIX}${++this.placeholders}`;
+  }
+
+  get effects(): string[] {
+    return this.requests.map((request) => request.effect);
+  }
+}
+
+/**
+ * Answer write requests on this axios instance from the plan instead of the
+ * API. The adapter runs after every request interceptor, so the recorded
+ * request has the same URL, headers and body the real one would have.
+ */
+export function installDryRun(instance: AxiosInstance, plan: DryRunPlan) {
+  instance.interceptors.request.use((config) => {
+    const method = (config.method || 'get').toLowerCase();
+    const placeholder = (config.url || '').match(PLACEHOLDER_PATTERN)?.[0];
+    if (!WRITE_METHODS.has(method) && placeholder) {
+      config.adapter = async (request: InternalAxiosRequestConfig): Promise<AxiosResponse> => ({
+        data: { success: true, dry_run: true, data: plan.created.get(placeholder) || { uuid: placeholder } },
+        status: 200,
+        statusText: 'OK (dry run)',
+        headers: {},
+        config: request,
+        request: {},
+      });
+      return config;
+    }
+    if (!WRITE_METHODS.has(method)) {
+      return config;
+    }
+    config.adapter = async (request: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+      const url = request.url || '';
+      const body = parseBody(request.data);
+      plan.requests.push({
+        method: method.toUpperCase(),
+        url,
+        ...(request.params && { params: request.params }),
+        ...(body !== undefined && { body }),
+        effect: describe(method, url, body),
+      });
+      const echoed = body && typeof body === 'object' && !Array.isArray(body) && !ACTION_ENDPOINTS.test(url) ? body : {};
+      const entity = { ...echoed, uuid: echoed.uuid || plan.nextPlaceholder() };
+      if (method !== 'delete' && String(entity.uuid).startsWith(PLACEHOLDER_PREFIX)) {
+        plan.created.set(entity.uuid, entity);
+      }
+      // Code parsed into a method answers with the statements it added; a dry run adds none
+      const parsed = method === 'post' && url === '/code' && !body?.statement ? [] : entity;
+      const data = method === 'delete'
+        ? { success: true, dry_run: true, deleted_count: 0 }
+        : { success: true, dry_run: true, data: parsed };
+      return { data, status: 200, statusText: 'OK (dry run)', headers: {}, config: request, request: {} };
+    };
+    return config;
+  });
+}
@@ -0,0 +1,208 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import type { StellifyClient } from './stellify-client.js';
+import type { Directory } from './models.js';
+
+// =============================================================================
+// PROJECT EXPORTER
+// =============================================================================
+// Walks getProject() → getDirectory() → getFile() and writes every file as
+// source text into a Laravel/Vue directory layout. A manifest mapping file
+// UUIDs to paths and content hashes lets re-exports skip unchanged files.
+
+export const MANIFEST_FILENAME = '.stellify-manifest.json';
+
+export interface ExportManifest {
+  project: string | null;
+  exported_at: string;
+  files: Record<string, { path: string; hash: string }>;
+}
+
+export interface ExportOptions {
+  outputDir: string;
+  force?: boolean; // Rewrite every file even if its hash is unchanged
+}
+
+export interface ExportReport {
+  output_dir: string;
+  manifest: string;
+  written: string[];
+  unchanged: string[];
+  stale: string[]; // Paths from the previous manifest that no longer map to a file
+  unrendered: Array<{ path: string; count: number }>;
+  errors: Array<{ uuid: string; error: string }>;
+}
+
+// Default locations for PHP files without a namespace
+const PHP_TYPE_DIRECTORIES: Record<string, string> = {
+  controller: 'app/Http/Controllers',
+  model: 'app/Models',
+  middleware: 'app/Http/Middleware',
+  class: 'app',
+};
+
+function uuidOf(entry: any): string | null {
+  if (typeof entry === 'string') return entry;
+  return entry && typeof entry.uuid === 'string' ? entry.uuid : null;
+}
+
+function hash(source: string): string {
+  return createHash('sha256').update(source).digest('hex');
+}
+
+/**
+ * Map a file to its path in a Laravel project. PHP paths come from the
+ * namespace (App\Http\Controllers → app/Http/Controllers); JS/Vue files go
+ * under resources/js, following the Stellify directory chain.
+ */
+export function exportPath(
+  file: { type: string | null; namespace?: string | null; extension?: string | null },
+  filename: string,
+  directoryChain: string[]
+): string {
+  const isJs = file.type === 'js' || file.extension === 'vue' || file.extension === 'js' || file.extension === 'ts';
+
+  if (isJs) {
+    const chain = directoryChain[0] === 'js' ? directoryChain.slice(1) : directoryChain;
+    return path.posix.join('resources/js', ...chain, filename);
+  }
+
+  const namespace = (file.namespace || '').replace(/^\\+|\\+$/g, '');
+  if (namespace) {
+    const [root, ...rest] = namespace.split('\\');
+    const base = root === 'App' ? 'app' : root;
+    return path.posix.join(base, ...rest, filename);
+  }
+
+  return path.posix.join((file.type && PHP_TYPE_DIRECTORIES[file.type]) || 'app', filename);
+}
+
+// The file's absolute target, refused if names from the API ("..", "/") would take it out of the export directory
+function targetPath(outputDir: string, relative: string): string {
+  const target = path.resolve(outputDir, relative);
+  const inside = path.relative(outputDir, target);
+  if (!inside || inside === '..' || inside.startsWith(`..${path.sep}`) || path.isAbsolute(inside) || inside === MANIFEST_FILENAME) {
+    throw new Error(`Refusing to write ${relative}: it is not a file inside ${outputDir}`);
+  }
+  return target;
+}
+
+async function readManifest(file: string): Promise<ExportManifest | null> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+async function readIfExists(file: string): Promise<string | null> {
+  try {
+    return await readFile(file, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Export the active project to a local directory tree.
+ */
+export async function exportProject(client: StellifyClient, options: ExportOptions): Promise<ExportReport> {
+  const outputDir = path.resolve(options.outputDir);
+  const manifestPath = path.join(outputDir, MANIFEST_FILENAME);
+  const previous = await readManifest(manifestPath);
+
+  const report: ExportReport = {
+    output_dir: outputDir,
+    manifest: manifestPath,
+    written: [],
+    unchanged: [],
+    stale: [],
+    unrendered: [],
+    errors: [],
+  };
+
+  const { project, directories } = await client.getProject();
+  const manifest: ExportManifest = {
+    project: project.uuid,
+    exported_at: new Date().toISOString(),
+    files: {},
+  };
+
+  const visitedDirectories = new Set<string>();
+  const visitedFiles = new Set<string>();
+
+  const exportFile = async (uuid: string, chain: string[]) => {
+    if (visitedFiles.has(uuid)) return;
+    visitedFiles.add(uuid);
+
+    try {
+      const rendered = await client.renderFile(uuid);
+      const relative = exportPath(rendered, rendered.filename, chain);
+      const target = targetPath(outputDir, relative);
+      const digest = hash(rendered.source);
+
+      manifest.files[uuid] = { path: relative, hash: digest };
+      if (rendered.unrendered.length > 0) {
+        report.unrendered.push({ path: relative, count: rendered.unrendered.length });
+      }
+
+      const known = previous?.files[uuid];
+      if (!options.force && known && known.path === relative && known.hash === digest) {
+        const onDisk = await readIfExists(target);
+        if (onDisk !== null && hash(onDisk) === digest) {
+          report.unchanged.push(relative);
+          return;
+        }
+      }
+
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, rendered.source, 'utf8');
+      report.written.push(relative);
+    } catch (error: any) {
+      report.errors.push({ uuid, error: error.message });
+    }
+  };
+
+  const exportDirectory = async (uuid: string, chain: string[]) => {
+    if (visitedDirectories.has(uuid)) return;
+    visitedDirectories.add(uuid);
+
+    let directory: Directory;
+    try {
+      directory = await client.getDirectory(uuid);
+    } catch (error: any) {
+      report.errors.push({ uuid, error: error.message });
+      return;
+    }
+
+    const here = [...chain, directory.name || uuid];
+    const files: any[] = [...(directory.files || []), ...(Array.isArray(directory.data) ? directory.data : [])];
+    const subdirectories: any[] = directory.directories || directory.subdirectories || [];
+
+    for (const entry of files) {
+      const fileUuid = uuidOf(entry);
+      if (fileUuid) await exportFile(fileUuid, here);
+    }
+    for (const entry of subdirectories) {
+      const directoryUuid = uuidOf(entry);
+      if (directoryUuid) await exportDirectory(directoryUuid, here);
+    }
+  };
+
+  for (const entry of directories || []) {
+    await exportDirectory(entry.uuid, []);
+  }
+
+  if (previous) {
+    const current = new Set(Object.values(manifest.files).map((entry) => entry.path));
+    report.stale = Object.values(previous.files)
+      .map((entry) => entry.path)
+      .filter((entryPath) => !current.has(entryPath));
+  }
+
+  await mkdir(outputDir, { recursive: true });
+  await writeFile(manifestPath, JSON.stringify(manifest, null, 2) + '\n', 'utf8');
+
+  return report;
+}
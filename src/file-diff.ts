@@ -0,0 +1,145 @@
+import { unwrap } from './models.js';
+import type { StellifyClient } from './stellify-client.js';
+
+// =============================================================================
+// FILE & METHOD DIFF
+// =============================================================================
+// Compares two versions of a file or method: what is stored now against a
+// proposed payload, or a snapshot taken earlier against what is stored now.
+// The reference arrays (method, statement, element and include UUIDs) are
+// compared as ordered lists, so the report says which entries were added,
+// removed or moved; other fields are compared by value.
+//
+// save_file is a full replacement, so a reference array left out of a file
+// payload is cleared. save_method only updates the fields it is given.
+
+export type DiffKind = 'file' | 'method';
+
+// UUID arrays per kind; for files `data` holds methods, for methods it holds statements
+const REFERENCE_FIELDS: Record<DiffKind, string[]> = {
+  file: ['data', 'statements', 'template', 'includes'],
+  method: ['data', 'parameters'],
+};
+
+const FULL_REPLACEMENT: Record<DiffKind, boolean> = { file: true, method: false };
+
+// Bookkeeping fields the API sets itself
+const IGNORED_FIELDS = new Set(['id', 'uuid', 'created_at', 'updated_at', 'deleted_at']);
+
+export interface ListChanges {
+  added: string[];
+  removed: string[];
+  reordered: string[]; // Kept entries whose position relative to the others changed
+}
+
+export interface EntityDiff {
+  kind: DiffKind;
+  uuid: string;
+  compared: 'proposed' | 'snapshot'; // current → proposed, or snapshot → current
+  references: Record<string, ListChanges>; // Only fields with changes
+  fields: Array<{ field: string; before: unknown; after: unknown }>;
+  dropped: Array<{ field: string; uuid: string }>; // References present before and missing after
+  changed: boolean;
+}
+
+function uuidList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((entry) => (typeof entry === 'string' ? entry : entry && typeof entry.uuid === 'string' ? entry.uuid : null))
+    .filter((entry): entry is string => entry !== null);
+}
+
+// Entries of `after` outside its longest common subsequence with `before` have moved
+function moved(before: string[], after: string[]): string[] {
+  const lengths = before.map(() => new Array<number>(after.length + 1).fill(0));
+  lengths.push(new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const kept = new Set<string>();
+  for (let i = 0, j = 0; i < before.length && j < after.length;) {
+    if (before[i] === after[j]) {
+      kept.add(after[j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return after.filter((entry) => !kept.has(entry));
+}
+
+function compareLists(before: string[], after: string[]): ListChanges {
+  const beforeSet = new Set(before);
+  const afterSet = new Set(after);
+  const common = (list: string[], other: Set<string>) => list.filter((entry) => other.has(entry));
+  return {
+    added: after.filter((entry) => !beforeSet.has(entry)),
+    removed: before.filter((entry) => !afterSet.has(entry)),
+    reordered: moved(common(before, afterSet), common(after, beforeSet)),
+  };
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Compare two versions of a file or method payload. `after` is read with the
+ * save semantics of the kind: for files a missing reference array counts as
+ * empty, for methods it counts as unchanged.
+ */
+export function diffVersions(kind: DiffKind, before: any, after: any, compared: EntityDiff['compared'] = 'proposed'): EntityDiff {
+  const referenceFields = REFERENCE_FIELDS[kind];
+  const diff: EntityDiff = {
+    kind,
+    uuid: after?.uuid || before?.uuid,
+    compared,
+    references: {},
+    fields: [],
+    dropped: [],
+    changed: false,
+  };
+
+  for (const field of referenceFields) {
+    if (!(field in after) && !FULL_REPLACEMENT[kind]) continue;
+    const changes = compareLists(uuidList(before[field]), uuidList(after[field]));
+    if (changes.added.length || changes.removed.length || changes.reordered.length) {
+      diff.references[field] = changes;
+      diff.dropped.push(...changes.removed.map((uuid) => ({ field, uuid })));
+    }
+  }
+
+  for (const field of Object.keys(after)) {
+    if (IGNORED_FIELDS.has(field) || referenceFields.includes(field)) continue;
+    if (!sameValue(before[field], after[field])) {
+      diff.fields.push({ field, before: before[field], after: after[field] });
+    }
+  }
+
+  diff.changed = diff.fields.length > 0 || Object.keys(diff.references).length > 0;
+  return diff;
+}
+
+/**
+ * Diff the stored file or method against a proposed payload, or a snapshot
+ * (an earlier get_file / get_method result) against what is stored now.
+ */
+export async function diffEntity(
+  client: StellifyClient,
+  kind: DiffKind,
+  uuid: string,
+  versions: { proposed?: any; snapshot?: any }
+): Promise<EntityDiff> {
+  if (!versions.proposed === !versions.snapshot) {
+    throw new Error('Pass exactly one of "proposed" or "snapshot"');
+  }
+  const current = kind === 'file' ? await client.getFile(uuid) : await client.getMethod(uuid);
+  return versions.proposed
+    ? diffVersions(kind, current, { uuid, ...versions.proposed }, 'proposed')
+    : diffVersions(kind, unwrap(versions.snapshot), current, 'snapshot');
+}
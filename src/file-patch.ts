@@ -0,0 +1,196 @@
+import { createHash } from 'crypto';
+import { unwrap } from './models.js';
+import type { StellifyClient } from './stellify-client.js';
+import type { FromSchema, patchOperationSchema } from './schemas.js';
+
+// =============================================================================
+// FILE PATCHES
+// =============================================================================
+// save_file replaces the whole file, which costs a get_file round trip and
+// loses updates when two agents edit the same file. A patch is a list of
+// operations (add a method, move a statement, ...) applied to the file as it
+// is stored when the patch runs.
+//
+// Concurrent edits are detected with an optimistic version: the API's ETag,
+// sent back as If-Match, or else a hash of the file that is re-checked just
+// before saving. On a conflict the patch is re-applied to the fresh file,
+// unless the caller pinned `expected_version` (then it fails).
+
+export type PatchOperation = FromSchema<typeof patchOperationSchema>;
+
+export interface PatchOptions {
+  expected_version?: string; // Version from get_file; fail instead of re-applying if the file changed since
+  retries?: number; // Re-applications after a conflict (default 2)
+}
+
+export interface PatchReport {
+  uuid: string;
+  applied: number;
+  attempts: number;
+  version: string; // Version the operations were applied to
+  file: any; // save_file result
+}
+
+export class FileConflictError extends Error {
+  constructor(public uuid: string, public expected: string, public actual: string) {
+    super(`File ${uuid} was changed by someone else (expected version ${expected}, found ${actual}); fetch it again and re-apply your changes`);
+    this.name = 'FileConflictError';
+  }
+}
+
+// Reference arrays patched by the operations; set_field cannot touch them
+const REFERENCE_FIELDS = new Set(['data', 'statements', 'includes', 'template']);
+
+function uuidList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((entry) => (typeof entry === 'string' ? entry : entry && typeof entry.uuid === 'string' ? entry.uuid : null))
+    .filter((entry): entry is string => entry !== null);
+}
+
+/**
+ * The file's version token: its ETag if the API sent one, otherwise a hash
+ * of its content.
+ */
+export function fileVersion(file: any, etag: string | null): string {
+  if (etag) return etag;
+  return createHash('sha256').update(JSON.stringify(unwrap(file))).digest('hex').slice(0, 16);
+}
+
+function insertAt(list: string[], uuid: string, position: number | undefined, label: string) {
+  const index = position ?? list.length;
+  if (index < 0 || index > list.length) {
+    throw new Error(`position ${index} is out of range for ${label} (0-${list.length})`);
+  }
+  list.splice(index, 0, uuid);
+}
+
+function removeFrom(list: string[], uuid: string, label: string) {
+  const index = list.indexOf(uuid);
+  if (index === -1) {
+    throw new Error(`${uuid} is not in ${label}`);
+  }
+  list.splice(index, 1);
+}
+
+function required(operation: PatchOperation, key: 'method' | 'statement' | 'include' | 'template' | 'field') {
+  const value = operation[key];
+  if (value === undefined) {
+    throw new Error(`"${key}" is required`);
+  }
+  return value;
+}
+
+/**
+ * Apply the operations to a copy of the file and return the save_file
+ * payload. Throws, naming the operation, if one does not apply.
+ */
+export function applyPatch(file: any, operations: PatchOperation[]): any {
+  const patched = { ...unwrap(file) };
+  const methods = uuidList(patched.data);
+  const statements = uuidList(patched.statements);
+  const includes = uuidList(patched.includes);
+  let template = uuidList(patched.template);
+
+  operations.forEach((operation, index) => {
+    try {
+      switch (operation.op) {
+        case 'add_method': {
+          const method = required(operation, 'method') as string;
+          if (methods.includes(method)) throw new Error(`${method} is already in data`);
+          insertAt(methods, method, operation.position, 'data');
+          break;
+        }
+        case 'remove_method':
+          removeFrom(methods, required(operation, 'method') as string, 'data');
+          break;
+        case 'insert_statement_at': {
+          const statement = required(operation, 'statement') as string;
+          if (statements.includes(statement)) throw new Error(`${statement} is already in statements; use move_statement`);
+          insertAt(statements, statement, operation.position, 'statements');
+          break;
+        }
+        case 'remove_statement':
+          removeFrom(statements, required(operation, 'statement') as string, 'statements');
+          break;
+        case 'move_statement': {
+          const statement = required(operation, 'statement') as string;
+          removeFrom(statements, statement, 'statements');
+          insertAt(statements, statement, operation.position, 'statements');
+          break;
+        }
+        case 'add_include': {
+          const include = required(operation, 'include') as string;
+          if (!includes.includes(include)) includes.push(include);
+          break;
+        }
+        case 'remove_include':
+          removeFrom(includes, required(operation, 'include') as string, 'includes');
+          break;
+        case 'set_template':
+          template = [...(required(operation, 'template') as string[])];
+          break;
+        case 'set_field': {
+          const field = required(operation, 'field') as string;
+          if (REFERENCE_FIELDS.has(field) || field === 'uuid') {
+            throw new Error(`"${field}" cannot be set directly; use the operations for it`);
+          }
+          patched[field] = operation.value;
+          break;
+        }
+      }
+    } catch (error: any) {
+      throw new Error(`Operation ${index} (${operation.op}): ${error.message}`);
+    }
+  });
+
+  // Arrays the file never had stay absent unless an operation filled them
+  const lists: Record<string, string[]> = { data: methods, statements, includes, template };
+  for (const [field, list] of Object.entries(lists)) {
+    if (field in patched || list.length > 0) patched[field] = list;
+  }
+  return patched;
+}
+
+const isConflictStatus = (error: any) => error.response?.status === 412 || error.response?.status === 409;
+
+/**
+ * Fetch the file, apply the operations and save it, re-applying them on a
+ * fresh copy if the file changed in between.
+ */
+export async function patchFile(
+  client: StellifyClient,
+  uuid: string,
+  operations: PatchOperation[],
+  options: PatchOptions = {}
+): Promise<PatchReport> {
+  const retries = options.expected_version === undefined ? options.retries ?? 2 : 0;
+  let conflict: FileConflictError | undefined;
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    const { file, etag } = await client.getFileWithETag(uuid);
+    const version = fileVersion(file, etag);
+    if (options.expected_version !== undefined && options.expected_version !== version) {
+      throw new FileConflictError(uuid, options.expected_version, version);
+    }
+    const payload = { ...applyPatch(file, operations), uuid };
+
+    if (!etag) {
+      // No server-side check; re-read right before saving to catch most concurrent edits
+      const latest = fileVersion(await client.getFile(uuid), null);
+      if (latest !== version) {
+        conflict = new FileConflictError(uuid, version, latest);
+        continue;
+      }
+    }
+
+    try {
+      const result = await client.saveFile(uuid, payload, etag || undefined);
+      return { uuid, applied: operations.length, attempts: attempt + 1, version, file: result };
+    } catch (error: any) {
+      if (!isConflictStatus(error)) throw error;
+      conflict = new FileConflictError(uuid, version, 'a newer version');
+    }
+  }
+  throw conflict;
+}
@@ -0,0 +1,389 @@
+import { createHash } from 'crypto';
+import { appendFileSync, closeSync, existsSync, mkdirSync, openSync, readFileSync, readSync, rmSync, statSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { setTimeout as sleep } from 'timers/promises';
+import type { StellifyClient } from './stellify-client.js';
+
+// =============================================================================
+// UNDO HISTORY
+// =============================================================================
+// Before a mutating tool writes, the entity it is about to change is fetched
+// with the matching get* call and the pre-image is appended to a JSON lines
+// journal. undo_last / undo_to restore pre-images newest first by replaying
+// saves; a deleted element tree is recreated (with new UUIDs).
+//
+// Entries belong to the API token that made them, so sessions sharing a
+// token share a history and nobody can undo someone else's changes. Each
+// entry keeps the project and branch it was made in, and is restored there.
+//
+// Several server processes can share one journal file: appends happen under
+// a lock file, after reading what other processes appended, so checkpoint
+// ids stay unique and increasing.
+//
+// delete_file, delete_method, delete_statement, delete_route and
+// delete_directory are not journalled and cannot be undone.
+
+export type SnapshotKind = 'file' | 'method' | 'statement' | 'element';
+
+export interface HistoryEntry {
+  id: number; // Checkpoint number, increasing across the journal
+  owner: string; // Hash of the API token
+  at: string;
+  tool: string;
+  kind: SnapshotKind;
+  uuid: string;
+  project: string | null; // Project and branch selected when the change was made; null for the active ones
+  branch: string | null;
+  deleted: boolean; // The tool deleted the entity; `before` is its element tree
+  before: any;
+  args: any;
+  undone_at?: string;
+}
+
+export interface UndoStep {
+  id: number;
+  tool: string;
+  kind: SnapshotKind;
+  uuid: string;
+  restored: boolean;
+  recreated?: Record<string, string>; // Old element UUID → new UUID, for deleted trees
+  error?: string;
+}
+
+export const DEFAULT_HISTORY_FILE = path.join(os.homedir(), '.stellify-mcp', 'history.jsonl');
+
+// The journal is compacted to the newest entries when it is opened
+const MAX_ENTRIES = 1000;
+
+// How long to wait for another process's lock, and when a lock is taken to be left over from a crash
+const LOCK_TIMEOUT_MS = 5000;
+const STALE_LOCK_MS = 30000;
+
+// Which entity each journalled tool changes
+const SNAPSHOTS: Record<string, (args: any) => { kind: SnapshotKind; uuid: string; deleted?: boolean }> = {
+  save_file: (args) => ({ kind: 'file', uuid: args.uuid }),
+  patch_file: (args) => ({ kind: 'file', uuid: args.uuid }),
+  save_method: (args) => ({ kind: 'method', uuid: args.uuid }),
+  add_method_body: (args) => ({ kind: 'method', uuid: args.method }),
+  add_statement_code: (args) => ({ kind: 'statement', uuid: args.statement }),
+  update_element: (args) => ({ kind: 'element', uuid: args.uuid }),
+  delete_element: (args) => ({ kind: 'element', uuid: args.uuid, deleted: true }),
+};
+
+// Element fields that describe its place in the tree rather than its content
+const ELEMENT_PLACEMENT_KEYS = new Set([
+  'uuid', 'id', 'children', 'parent', 'page', 'created_at', 'updated_at', 'deleted_at',
+]);
+
+/**
+ * The journal file from STELLIFY_HISTORY_FILE: a path, "off" to keep history
+ * in memory only, or unset for ~/.stellify-mcp/history.jsonl.
+ */
+export function historyFileFromEnv(env: NodeJS.ProcessEnv = process.env): string | null {
+  const value = env.STELLIFY_HISTORY_FILE?.trim();
+  if (value === 'off') return null;
+  if (value?.startsWith('~/')) return path.join(os.homedir(), value.slice(2));
+  return value || DEFAULT_HISTORY_FILE;
+}
+
+// Run with an exclusive lock file next to the journal, so processes sharing it take turns.
+// Waiting for another process's lock yields to the event loop.
+async function withLock<T>(file: string, run: () => T): Promise<T> {
+  const lock = `${file}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      closeSync(openSync(lock, 'wx'));
+      break;
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') throw error;
+      try {
+        if (Date.now() - statSync(lock).mtimeMs > STALE_LOCK_MS) rmSync(lock, { force: true });
+      } catch {
+        // Released in the meantime
+      }
+      if (Date.now() > deadline) throw new Error(`Timed out waiting for the history lock ${lock}`);
+      await sleep(10);
+    }
+  }
+  try {
+    return run();
+  } finally {
+    rmSync(lock, { force: true });
+  }
+}
+
+/**
+ * Every owner's entries, kept in memory and appended to the journal file.
+ * Undos are appended as `{undo: id}` lines rather than rewriting the file.
+ */
+export class HistoryJournal {
+  private entries: HistoryEntry[] = [];
+  private byId = new Map<number, HistoryEntry>();
+  private nextId = 1;
+  private offset = 0; // Bytes of the journal file read so far
+  private queue: Promise<unknown> = Promise.resolve(); // This process's writes, one at a time and in order
+
+  constructor(private file: string | null) {
+    if (file && existsSync(file)) {
+      this.load(file);
+    }
+  }
+
+  forOwner(credential: string): SessionHistory {
+    return new SessionHistory(this, createHash('sha256').update(credential).digest('hex').slice(0, 16));
+  }
+
+  list(owner: string): HistoryEntry[] {
+    return this.entries.filter((entry) => entry.owner === owner);
+  }
+
+  async append(entry: Omit<HistoryEntry, 'id'>): Promise<HistoryEntry> {
+    let recorded!: HistoryEntry;
+    await this.write(() => {
+      recorded = { id: this.nextId++, ...entry };
+      this.add(recorded);
+      return recorded;
+    });
+    return recorded;
+  }
+
+  async markUndone(entry: HistoryEntry) {
+    entry.undone_at = new Date().toISOString();
+    await this.write(() => ({ undo: entry.id, at: entry.undone_at }));
+  }
+
+  // Run after this process's earlier writes; a failure does not hold up the later ones
+  private enqueue(run: () => Promise<void>): Promise<void> {
+    const next = this.queue.then(run);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private add(record: any) {
+    if (typeof record.undo === 'number') {
+      const entry = this.byId.get(record.undo);
+      if (entry) entry.undone_at = record.at;
+    } else if (typeof record.id === 'number' && !this.byId.has(record.id)) {
+      this.byId.set(record.id, record);
+      this.entries.push(record);
+      this.nextId = Math.max(this.nextId, record.id + 1);
+    }
+  }
+
+  // Read the lines appended since the last read, by this or another process
+  private catchUp(file: string) {
+    if (!existsSync(file)) return;
+    const size = statSync(file).size;
+    if (size <= this.offset) return;
+    const buffer = Buffer.alloc(size - this.offset);
+    const fd = openSync(file, 'r');
+    try {
+      readSync(fd, buffer, 0, buffer.length, this.offset);
+    } finally {
+      closeSync(fd);
+    }
+    const text = buffer.toString('utf8');
+    const complete = text.lastIndexOf('\n') + 1; // A partly written last line is read next time
+    for (const line of text.slice(0, complete).split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        this.add(JSON.parse(line));
+      } catch {
+        // A damaged line; skip it
+      }
+    }
+    this.offset += Buffer.byteLength(text.slice(0, complete));
+  }
+
+  // Compacting waits for the lock, so it is queued ahead of the first write
+  private load(file: string) {
+    this.catchUp(file);
+    if (this.entries.length <= MAX_ENTRIES) return;
+    void this.enqueue(() => this.compact(file));
+  }
+
+  private async compact(file: string) {
+    try {
+      await withLock(file, () => {
+        this.catchUp(file);
+        this.entries = this.entries.slice(-MAX_ENTRIES);
+        this.byId = new Map(this.entries.map((entry) => [entry.id, entry]));
+        const lines = this.entries.flatMap((entry) => {
+          const { undone_at, ...rest } = entry;
+          return undone_at ? [rest, { undo: entry.id, at: undone_at }] : [rest];
+        });
+        writeFileSync(file, lines.map((line) => JSON.stringify(line)).join('\n') + '\n');
+        this.offset = statSync(file).size;
+      });
+    } catch (error: any) {
+      console.error(`Could not compact undo history ${file}: ${error.message}`);
+    }
+  }
+
+  // Queued so entries land in order, and appended synchronously once the lock is held so they
+  // survive a crash right after the write. The record is built under the lock, after catching
+  // up, so its id is unique.
+  private write(build: () => object): Promise<void> {
+    const file = this.file;
+    if (!file) {
+      build();
+      return Promise.resolve();
+    }
+    return this.enqueue(async () => {
+      try {
+        mkdirSync(path.dirname(file), { recursive: true });
+        await withLock(file, () => {
+          this.catchUp(file);
+          appendFileSync(file, JSON.stringify(build()) + '\n');
+          this.offset = statSync(file).size;
+        });
+      } catch (error: any) {
+        console.error(`Could not write undo history to ${file}: ${error.message}`);
+      }
+    });
+  }
+}
+
+async function capture(client: StellifyClient, kind: SnapshotKind, uuid: string, deleted: boolean): Promise<any> {
+  switch (kind) {
+    case 'file':
+      return client.getFile(uuid);
+    case 'method':
+      return client.getMethod(uuid);
+    case 'statement':
+      return client.getStatement(uuid);
+    case 'element':
+      return deleted ? client.getElementTree(uuid) : client.getElement(uuid);
+  }
+}
+
+// Recreate a deleted element and its children under their original parent or page
+async function recreateElement(
+  client: StellifyClient,
+  node: any,
+  placement: { parent?: string; page?: string },
+  mapping: Record<string, string>
+) {
+  const created = await client.createElement({ type: node.type, ...placement });
+  const content = Object.fromEntries(Object.entries(node).filter(([key]) => !ELEMENT_PLACEMENT_KEYS.has(key)));
+  await client.updateElement(created.uuid, content);
+  mapping[node.uuid] = created.uuid;
+  for (const child of Array.isArray(node.children) ? node.children : []) {
+    await recreateElement(client, child, { parent: created.uuid }, mapping);
+  }
+}
+
+async function restore(session: StellifyClient, entry: HistoryEntry): Promise<Record<string, string> | undefined> {
+  // Entries from before project and branch were recorded have neither; they restore where the session is
+  const client = 'project' in entry ? session.forScope(entry.project, entry.branch) : session;
+  switch (entry.kind) {
+    case 'file':
+      await client.saveFile(entry.uuid, entry.before);
+      return undefined;
+    case 'method':
+      await client.saveMethod(entry.uuid, entry.before);
+      return undefined;
+    case 'statement':
+      await client.saveStatement(entry.uuid, entry.before);
+      return undefined;
+    case 'element': {
+      if (entry.deleted) {
+        const placement = entry.before.parent
+          ? { parent: entry.before.parent }
+          : entry.before.page ? { page: entry.before.page } : null;
+        if (!placement) {
+          throw new Error('The deleted element has no recorded parent or page to recreate it under');
+        }
+        const mapping: Record<string, string> = {};
+        await recreateElement(client, entry.before, placement, mapping);
+        return mapping;
+      }
+      // update_element merges, so reset exactly the fields it set; new ones go back to null
+      const fields = Object.keys(entry.args?.data || {});
+      await client.updateElement(entry.uuid, Object.fromEntries(fields.map((field) => [field, entry.before[field] ?? null])));
+      return undefined;
+    }
+  }
+}
+
+/**
+ * One token's view of the journal: records the pre-image around each
+ * mutating tool call and undoes its own entries.
+ */
+export class SessionHistory {
+  constructor(private journal: HistoryJournal, private owner: string, private recording = true) {}
+
+  // The same history for a dry run: entries can be read and undos planned, but nothing is journalled
+  preview(): SessionHistory {
+    return new SessionHistory(this.journal, this.owner, false);
+  }
+
+  /**
+   * Run a tool's write. For journalled tools the affected entity is fetched
+   * first, and its pre-image recorded once the write succeeds; if it cannot
+   * be fetched, the write does not happen.
+   */
+  async record<T>(client: StellifyClient, tool: string, args: any, write: () => Promise<T>): Promise<T> {
+    const target = SNAPSHOTS[tool]?.(args);
+    if (!this.recording || !target || !target.uuid) {
+      return write();
+    }
+    const deleted = target.deleted === true;
+    let before: any;
+    try {
+      before = await capture(client, target.kind, target.uuid, deleted);
+    } catch (error: any) {
+      throw new Error(`Could not snapshot ${target.kind} ${target.uuid} before ${tool}, so nothing was changed: ${error.response?.data?.message || error.message}`);
+    }
+    const result = await write();
+    await this.journal.append({
+      owner: this.owner,
+      at: new Date().toISOString(),
+      tool,
+      kind: target.kind,
+      uuid: target.uuid,
+      project: client.selectedProject,
+      branch: client.selectedBranch,
+      deleted,
+      before,
+      args,
+    });
+    return result;
+  }
+
+  entries(): HistoryEntry[] {
+    return this.journal.list(this.owner);
+  }
+
+  async undoLast(client: StellifyClient): Promise<UndoStep[]> {
+    const last = this.entries().filter((entry) => !entry.undone_at).pop();
+    return last ? this.undo(client, [last]) : [];
+  }
+
+  // Undo every change recorded after the checkpoint, newest first
+  async undoTo(client: StellifyClient, checkpoint: number): Promise<UndoStep[]> {
+    const pending = this.entries().filter((entry) => entry.id > checkpoint && !entry.undone_at);
+    return this.undo(client, pending.reverse());
+  }
+
+  // Stops at the first failure so older changes are never restored over newer ones
+  private async undo(client: StellifyClient, entries: HistoryEntry[]): Promise<UndoStep[]> {
+    const steps: UndoStep[] = [];
+    for (const entry of entries) {
+      const step: UndoStep = { id: entry.id, tool: entry.tool, kind: entry.kind, uuid: entry.uuid, restored: false };
+      steps.push(step);
+      try {
+        const recreated = await restore(client, entry);
+        if (recreated) step.recreated = recreated;
+        step.restored = true;
+        if (this.recording) await this.journal.markUndone(entry);
+      } catch (error: any) {
+        step.error = error.response?.data?.message || error.message;
+        break;
+      }
+    }
+    return steps;
+  }
+}
@@ -0,0 +1,269 @@
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+// =============================================================================
+// HTTP TRANSPORT
+// =============================================================================
+// Serves the MCP server over Streamable HTTP so one deployment can be shared
+// by several clients. Every session gets its own Server instance from the
+// factory; all of them share the same tools and handlers.
+//
+// Each session is bound to the credential it was opened with (the caller's
+// Stellify API token). Later requests must present the same credential, so a
+// leaked session ID cannot be used with someone else's token.
+//
+//   POST/GET/DELETE /mcp       Streamable HTTP (protocol 2025-03-26+)
+//   GET /sse, POST /messages   HTTP+SSE fallback for older clients (2024-11-05)
+//   GET /health                Liveness and session counts
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  sessionIdleTimeout: number; // Close sessions idle for this long, in ms (0 disables)
+  authenticate: (req: IncomingMessage) => string | undefined; // The request's credential, or undefined to reject it
+  health?: () => Record<string, unknown>; // Extra fields for /health
+}
+
+export const DEFAULT_HTTP_SERVER_OPTIONS: Omit<HttpServerOptions, 'authenticate'> = {
+  host: '127.0.0.1',
+  port: 3000,
+  sessionIdleTimeout: 30 * 60 * 1000,
+};
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  credential: Buffer; // SHA-256 of the credential the session was opened with
+  lastSeen: number;
+  streams: number; // Open server-to-client streams; a session is not idle while one is open
+}
+
+class BodyTooLargeError extends Error {
+  constructor() {
+    super(`Request body too large; the limit is ${MAX_BODY_BYTES} bytes`);
+    this.name = 'BodyTooLargeError';
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// JSON-RPC error for requests that never reach a session
+function sendRpcError(res: ServerResponse, status: number, message: string) {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new BodyTooLargeError();
+    }
+    chunks.push(chunk);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text ? JSON.parse(text) : undefined;
+}
+
+/**
+ * The bearer token from an Authorization header, if any.
+ */
+export function bearerToken(req: IncomingMessage): string | undefined {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  return match ? match[1].trim() : undefined;
+}
+
+/**
+ * Whether the request comes from this machine.
+ */
+export function isLoopback(req: IncomingMessage): boolean {
+  const address = req.socket.remoteAddress || '';
+  return address === '::1' || /^(::ffff:)?127\./.test(address);
+}
+
+function digest(credential: string): Buffer {
+  return createHash('sha256').update(credential).digest();
+}
+
+function isInitialize(body: unknown): boolean {
+  return Array.isArray(body) ? body.some((message) => isInitializeRequest(message)) : isInitializeRequest(body);
+}
+
+/**
+ * Start the HTTP server. Resolves once it is listening; the returned close()
+ * shuts down every open session and then the listener.
+ */
+export async function startHttpServer(
+  createServer: (credential: string) => Server,
+  options: HttpServerOptions
+): Promise<{ server: http.Server; close: () => Promise<void> }> {
+  const sessions = new Map<string, Session>();
+  const startedAt = Date.now();
+
+  const closeSession = async (id: string) => {
+    const session = sessions.get(id);
+    if (!session) return;
+    sessions.delete(id);
+    await session.server.close().catch(() => undefined);
+  };
+
+  // The session, if it exists and was opened with this credential
+  const resume = (id: string | undefined, credential: string) => {
+    const session = id ? sessions.get(id) : undefined;
+    if (!session || !timingSafeEqual(session.credential, digest(credential))) return undefined;
+    session.lastSeen = Date.now();
+    return session;
+  };
+
+  // Count an open stream against the session so the idle sweep leaves it alone
+  const holdStream = (session: Session, res: ServerResponse) => {
+    session.streams++;
+    res.once('close', () => {
+      session.streams--;
+      session.lastSeen = Date.now();
+    });
+  };
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse, credential: string) => {
+    const sessionId = req.headers['mcp-session-id'];
+    const id = Array.isArray(sessionId) ? sessionId[0] : sessionId;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (id) {
+      const session = resume(id, credential);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendRpcError(res, 404, 'Session not found; send a new initialize request');
+        return;
+      }
+      if (req.method === 'GET') holdStream(session, res);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitialize(body)) {
+      sendRpcError(res, 400, 'Missing Mcp-Session-Id header; send an initialize request first');
+      return;
+    }
+
+    const server = createServer(credential);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newId) => {
+        sessions.set(newId, { transport, server, credential: digest(credential), lastSeen: Date.now(), streams: 0 });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseConnect = async (res: ServerResponse, credential: string) => {
+    const server = createServer(credential);
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    const session: Session = { transport, server, credential: digest(credential), lastSeen: Date.now(), streams: 0 };
+    sessions.set(transport.sessionId, session);
+    holdStream(session, res);
+    transport.onclose = () => {
+      sessions.delete(transport.sessionId);
+    };
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL, credential: string) => {
+    const session = resume(url.searchParams.get('sessionId') || undefined, credential);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendRpcError(res, 404, 'Session not found; reconnect to /sse');
+      return;
+    }
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    try {
+      if (url.pathname === '/health' && req.method === 'GET') {
+        const counts = { streamable: 0, sse: 0 };
+        sessions.forEach((session) => {
+          counts[session.transport instanceof SSEServerTransport ? 'sse' : 'streamable']++;
+        });
+        sendJson(res, 200, {
+          status: 'ok',
+          uptime_seconds: Math.round((Date.now() - startedAt) / 1000),
+          sessions: counts,
+          ...(options.health ? options.health() : {}),
+        });
+        return;
+      }
+
+      const isMcpRoute = url.pathname === MCP_PATH
+        || (url.pathname === SSE_PATH && req.method === 'GET')
+        || (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST');
+      if (!isMcpRoute) {
+        sendJson(res, 404, { error: `No route for ${req.method} ${url.pathname}` });
+        return;
+      }
+
+      const credential = options.authenticate(req);
+      if (!credential) {
+        res.setHeader('WWW-Authenticate', 'Bearer realm="stellify-mcp"');
+        sendRpcError(res, 401, 'Missing credentials; send your Stellify API token as "Authorization: Bearer <token>"');
+      } else if (url.pathname === MCP_PATH) {
+        await handleStreamable(req, res, credential);
+      } else if (url.pathname === SSE_PATH) {
+        await handleSseConnect(res, credential);
+      } else {
+        await handleSseMessage(req, res, url, credential);
+      }
+    } catch (error: any) {
+      const status = error instanceof SyntaxError ? 400 : error instanceof BodyTooLargeError ? 413 : 500;
+      if (status === 500) console.error(`HTTP ${req.method} ${url.pathname} failed:`, error);
+      if (!res.headersSent) {
+        // The rest of an oversized body is never read, so the connection cannot be reused
+        if (error instanceof BodyTooLargeError) res.setHeader('Connection', 'close');
+        sendRpcError(res, status, error instanceof SyntaxError ? 'Invalid JSON body' : error.message);
+      }
+    }
+  });
+
+  // Sweep sessions whose clients went away without a DELETE
+  const sweeper = options.sessionIdleTimeout > 0
+    ? setInterval(() => {
+        const cutoff = Date.now() - options.sessionIdleTimeout;
+        for (const [id, session] of sessions) {
+          if (session.streams === 0 && session.lastSeen < cutoff) void closeSession(id);
+        }
+      }, Math.min(options.sessionIdleTimeout, 60 * 1000))
+    : undefined;
+  sweeper?.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const close = async () => {
+    if (sweeper) clearInterval(sweeper);
+    await Promise.all([...sessions.keys()].map(closeSession));
+    await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+  };
+
+  return { server: httpServer, close };
+}
@@ -0,0 +1,217 @@
+import type { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+
+// =============================================================================
+// RESILIENT HTTP LAYER
+// =============================================================================
+// Axios interceptors that give every StellifyClient request a timeout,
+// retries with exponential backoff and jitter, Retry-After handling for 429/503
+// responses, and a circuit breaker that fails fast while the API is down.
+//
+// Only idempotent requests (GET, HEAD, OPTIONS, PUT) are retried after a network
+// error or 5xx response; a POST may already have been applied. A 429 means the
+// request was rejected before processing, so it is retried for every method.
+
+export interface HttpOptions {
+  timeout: number; // Per-request timeout in ms (0 disables)
+  retries: number; // Retries after the first attempt
+  retryBaseDelay: number; // First backoff delay in ms, doubled on every retry
+  retryMaxDelay: number; // Upper bound for a backoff delay or Retry-After wait, in ms
+  breakerThreshold: number; // Consecutive failures that open the circuit (0 disables)
+  breakerCooldown: number; // How long the circuit stays open, in ms
+}
+
+export const DEFAULT_HTTP_OPTIONS: HttpOptions = {
+  timeout: 30000,
+  retries: 3,
+  retryBaseDelay: 500,
+  retryMaxDelay: 30000,
+  breakerThreshold: 5,
+  breakerCooldown: 30000,
+};
+
+// Environment variable for each option, read next to STELLIFY_API_URL
+const ENV_VARIABLES: Record<keyof HttpOptions, string> = {
+  timeout: 'STELLIFY_TIMEOUT_MS',
+  retries: 'STELLIFY_MAX_RETRIES',
+  retryBaseDelay: 'STELLIFY_RETRY_BASE_MS',
+  retryMaxDelay: 'STELLIFY_RETRY_MAX_MS',
+  breakerThreshold: 'STELLIFY_BREAKER_THRESHOLD',
+  breakerCooldown: 'STELLIFY_BREAKER_COOLDOWN_MS',
+};
+
+const IDEMPOTENT_METHODS = new Set(['get', 'head', 'options', 'put']);
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Read HTTP options from the environment. Unset or invalid values fall back
+ * to the defaults.
+ */
+export function httpOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): HttpOptions {
+  const options = { ...DEFAULT_HTTP_OPTIONS };
+  for (const [key, variable] of Object.entries(ENV_VARIABLES) as Array<[keyof HttpOptions, string]>) {
+    const raw = env[variable];
+    if (raw === undefined || raw.trim() === '') continue;
+    const value = Number(raw);
+    if (Number.isFinite(value) && value >= 0) {
+      options[key] = value;
+    } else {
+      console.error(`Ignoring ${variable}=${raw}: expected a non-negative number`);
+    }
+  }
+  return options;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(public retryAt: number) {
+    super(`Stellify API is unavailable after repeated failures; requests are paused for ${Math.ceil((retryAt - Date.now()) / 1000)}s`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Counts consecutive failures. Once the threshold is reached the circuit
+ * opens and requests fail immediately; after the cooldown one trial request
+ * is let through, and its outcome closes or re-opens the circuit.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openUntil = 0;
+  private trialInFlight = false;
+
+  constructor(private threshold: number, private cooldown: number) {}
+
+  get state(): 'closed' | 'open' | 'half-open' {
+    if (this.threshold === 0 || this.failures < this.threshold) return 'closed';
+    return Date.now() < this.openUntil ? 'open' : 'half-open';
+  }
+
+  // Throws while the circuit is open, or while a half-open trial is running
+  beforeRequest() {
+    const state = this.state;
+    if (state === 'open' || (state === 'half-open' && this.trialInFlight)) {
+      throw new CircuitOpenError(Math.max(this.openUntil, Date.now() + 1000));
+    }
+    if (state === 'half-open') {
+      this.trialInFlight = true;
+    }
+  }
+
+  recordSuccess() {
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  // A cancelled request says nothing about the API; just free the trial slot
+  recordCancelled() {
+    this.trialInFlight = false;
+  }
+
+  recordFailure() {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.threshold > 0 && this.failures >= this.threshold) {
+      this.openUntil = Date.now() + this.cooldown;
+    }
+  }
+}
+
+// Retry state carried on the request config between attempts
+interface RetryState {
+  attempt: number;
+}
+
+type ResilientConfig = InternalAxiosRequestConfig & { stellifyRetry?: RetryState };
+
+/**
+ * Milliseconds to wait from a Retry-After header (delta-seconds or an HTTP
+ * date), or null if absent or unparseable.
+ */
+export function parseRetryAfter(header: unknown, now = Date.now()): number | null {
+  if (typeof header !== 'string' && typeof header !== 'number') return null;
+  const text = String(header).trim();
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return Math.round(Number(text) * 1000);
+  }
+  const date = Date.parse(text);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+// Exponential backoff with full jitter: a random delay up to base * 2^attempt
+function backoffDelay(attempt: number, options: HttpOptions): number {
+  const ceiling = Math.min(options.retryMaxDelay, options.retryBaseDelay * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+// Failures that say something about the API's health, rather than the request
+function isServerFailure(error: AxiosError): boolean {
+  if (!error.response) return error.code !== 'ERR_CANCELED';
+  return error.response.status >= 500;
+}
+
+function shouldRetry(error: AxiosError, config: ResilientConfig): boolean {
+  const method = (config.method || 'get').toLowerCase();
+  if (!error.response) {
+    return error.code !== 'ERR_CANCELED' && IDEMPOTENT_METHODS.has(method);
+  }
+  const status = error.response.status;
+  if (status === 429) return true;
+  return RETRYABLE_STATUSES.has(status) && IDEMPOTENT_METHODS.has(method);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Install timeout, retry and circuit breaker handling on an axios instance.
+ * Per-request `timeout` overrides still work as usual. Clients of the same API
+ * can pass one breaker so an outage is detected once for all of them.
+ */
+export function installResilience(
+  instance: AxiosInstance,
+  options: HttpOptions,
+  breaker = new CircuitBreaker(options.breakerThreshold, options.breakerCooldown)
+): CircuitBreaker {
+  instance.defaults.timeout = options.timeout;
+
+  instance.interceptors.request.use((config) => {
+    breaker.beforeRequest();
+    return config;
+  });
+
+  instance.interceptors.response.use(
+    (response) => {
+      breaker.recordSuccess();
+      return response;
+    },
+    async (error: AxiosError) => {
+      const config = error.config as ResilientConfig | undefined;
+      if (!config || error instanceof CircuitOpenError) {
+        throw error;
+      }
+
+      if (isServerFailure(error)) {
+        breaker.recordFailure();
+      } else if (error.response) {
+        breaker.recordSuccess(); // The API answered; a 4xx is the caller's problem
+      } else {
+        breaker.recordCancelled();
+      }
+
+      const state = config.stellifyRetry || { attempt: 0 };
+      if (state.attempt >= options.retries || !shouldRetry(error, config)) {
+        throw error;
+      }
+
+      const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+      if (retryAfter !== null && retryAfter > options.retryMaxDelay) {
+        error.message = `${error.message} (Retry-After ${Math.ceil(retryAfter / 1000)}s exceeds the ${Math.ceil(options.retryMaxDelay / 1000)}s limit)`;
+        throw error;
+      }
+
+      await sleep(retryAfter ?? backoffDelay(state.attempt, options));
+      config.stellifyRetry = { attempt: state.attempt + 1 };
+      return instance.request(config);
+    }
+  );
+
+  return breaker;
+}
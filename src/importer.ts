@@ -0,0 +1,427 @@
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { StellifyClient } from './stellify-client.js';
+import { EVENT_MARKER, planPhpFile, planVueFile, PlannedFile, prepareTemplate, TemplateBinding } from './source-parser.js';
+
+// =============================================================================
+// PROJECT IMPORTER
+// =============================================================================
+// Scans a local Laravel/Vue folder and replays each file through the same
+// calls an agent would make by hand: create_file, create_method +
+// add_method_body, create_statement + add_statement_code, html_to_elements
+// and save_file. Progress is journalled after every step so an interrupted
+// import resumes where it stopped instead of creating duplicates. Journals
+// live in the server's state directory, one per source folder, project and
+// branch, so the imported folder is never written to.
+
+export const DEFAULT_JOURNAL_DIRECTORY = path.join(os.homedir(), '.stellify-mcp', 'imports');
+
+// Folders that never contain importable application code
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'vendor', 'storage', 'bootstrap', 'public', '.git']);
+
+export interface ImportOptions {
+  sourceDir: string;
+  dryRun?: boolean; // Report what would be created without calling the API
+  module?: string;
+  journalDir?: string; // Where resume journals are kept; DEFAULT_JOURNAL_DIRECTORY by default
+}
+
+export interface ImportReport {
+  source_dir: string;
+  dry_run: boolean;
+  journal: string | null;
+  planned: PlannedFile[];
+  warnings: Array<{ path: string; warning: string }>; // What the planned files lose on import (class headers, comments, ...)
+  imported: Array<{ path: string; uuid: string }>;
+  skipped: Array<{ path: string; reason: string }>;
+  errors: Array<{ path: string; error: string }>;
+}
+
+// An element event set to a method's UUID
+export interface WiredEvent {
+  element: string;
+  event: string;
+  method: string;
+  methodUuid: string;
+}
+
+interface JournalEntry {
+  hash: string;
+  file?: string;
+  methods: Array<{ uuid: string; body: boolean }>;
+  statements: Array<{ uuid: string; code: boolean }>;
+  template?: string[];
+  markers?: Record<string, string>; // Element UUID → event marker, until handlers are wired
+  saved: boolean;
+}
+
+interface Journal {
+  files: Record<string, JournalEntry>;
+}
+
+// -----------------------------------------------------------------------------
+// Source collection
+// -----------------------------------------------------------------------------
+
+async function collectSources(root: string, relative = ''): Promise<string[]> {
+  const entries = await readdir(path.join(root, relative), { withFileTypes: true });
+  const found: string[] = [];
+  for (const entry of entries) {
+    const entryPath = path.posix.join(relative, entry.name);
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRECTORIES.has(entry.name) && !entry.name.startsWith('.')) {
+        found.push(...(await collectSources(root, entryPath)));
+      }
+    } else if (entry.name.endsWith('.php') || entry.name.endsWith('.vue')) {
+      found.push(entryPath);
+    }
+  }
+  return found.sort();
+}
+
+// -----------------------------------------------------------------------------
+// Replay
+// -----------------------------------------------------------------------------
+
+// Stellify directory a file type belongs in (see README directory table)
+function directoryName(plan: PlannedFile): string {
+  switch (plan.type) {
+    case 'controller': return 'controllers';
+    case 'model': return 'models';
+    case 'middleware': return 'middleware';
+    case 'js': return 'js';
+    default: {
+      const segments = (plan.namespace || '').split('\\').filter(Boolean);
+      return segments.length > 1 ? segments[segments.length - 1].toLowerCase() : 'classes';
+    }
+  }
+}
+
+// One journal per source folder, project and branch
+function journalPath(directory: string, sourceDir: string, project: string, branch: string | null): string {
+  const key = createHash('sha256').update(JSON.stringify([sourceDir, project, branch])).digest('hex').slice(0, 16);
+  return path.join(directory, `${path.basename(sourceDir) || 'root'}-${key}.json`);
+}
+
+async function readJournal(file: string): Promise<Journal> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8'));
+  } catch {
+    return { files: {} };
+  }
+}
+
+// html_to_elements returns elements keyed by UUID (or occasionally as an array)
+function createdElements(created: any): Record<string, any> {
+  const elements: Record<string, any> = {};
+  if (Array.isArray(created)) {
+    created.forEach((element) => { if (element?.uuid) elements[element.uuid] = element; });
+  } else if (created && typeof created === 'object') {
+    Object.assign(elements, created);
+  }
+  return elements;
+}
+
+// Root element UUIDs are the ones no other created element lists as a child
+function rootElements(created: any): string[] {
+  const elements = createdElements(created);
+  const children = new Set<string>();
+  Object.values(elements).forEach((element: any) => {
+    (Array.isArray(element?.data) ? element.data : []).forEach((child: string) => children.add(child));
+  });
+  return Object.keys(elements).filter((uuid) => !children.has(uuid));
+}
+
+/**
+ * Set each marked element's event fields to the matching method UUIDs and
+ * clear the marker attribute, from every marked element whether or not its
+ * handlers resolved.
+ */
+export async function wireTemplateEvents(
+  client: StellifyClient,
+  created: any,
+  bindings: TemplateBinding[],
+  methodUuids: Record<string, string>
+): Promise<{ events: WiredEvent[]; warnings: string[] }> {
+  const events: WiredEvent[] = [];
+  const warnings: string[] = [];
+  const elements = createdElements(created);
+
+  const byMarker = new Map<string, string>();
+  const updates = new Map<string, Record<string, any>>();
+  for (const [uuid, element] of Object.entries(elements)) {
+    const marker = element?.[EVENT_MARKER] ?? element?.attributes?.[EVENT_MARKER];
+    if (marker === undefined) continue;
+    byMarker.set(String(marker), element.uuid || uuid);
+    updates.set(element.uuid || uuid, { [EVENT_MARKER]: null });
+  }
+
+  for (const binding of bindings) {
+    const element = byMarker.get(binding.marker);
+    const methodUuid = methodUuids[binding.method];
+    if (!element) {
+      warnings.push(`Could not find the element for @${binding.event}="${binding.method}"`);
+      continue;
+    }
+    if (!methodUuid) {
+      warnings.push(`@${binding.event}="${binding.method}" does not match a function in the script`);
+      continue;
+    }
+    updates.get(element)![binding.event] = methodUuid;
+    events.push({ element, event: binding.event, method: binding.method, methodUuid });
+  }
+
+  for (const [element, changes] of updates) {
+    await client.updateElement(element, changes);
+  }
+  return { events, warnings };
+}
+
+// What one pass of replayFile created and wired; a resumed pass leaves out what earlier passes did
+interface ReplayResult {
+  file: string;
+  elements: string[];
+  events: WiredEvent[];
+  warnings: string[];
+}
+
+async function replayFile(
+  client: StellifyClient,
+  plan: PlannedFile,
+  entry: JournalEntry,
+  directory: string,
+  module: string | undefined,
+  checkpoint: () => Promise<void>
+): Promise<ReplayResult> {
+  const result: ReplayResult = { file: '', elements: [], events: [], warnings: [] };
+  if (!entry.file) {
+    const created = await client.createFile({
+      directory,
+      name: plan.name,
+      type: plan.type,
+      extension: plan.extension,
+      namespace: plan.namespace,
+      includes: plan.includes.length > 0 ? plan.includes : undefined,
+      module,
+    });
+    entry.file = created.uuid;
+    await checkpoint();
+  }
+  const file = result.file = entry.file!;
+
+  for (let i = 0; i < plan.statements.length; i++) {
+    if (!entry.statements[i]) {
+      const created = await client.createStatement({ file });
+      entry.statements[i] = { uuid: created.uuid, code: false };
+      await checkpoint();
+    }
+    if (!entry.statements[i].code) {
+      await client.addStatementCode({ file, statement: entry.statements[i].uuid, code: plan.statements[i] });
+      entry.statements[i].code = true;
+      await checkpoint();
+    }
+  }
+
+  for (let i = 0; i < plan.methods.length; i++) {
+    const { body, ...signature } = plan.methods[i];
+    if (!entry.methods[i]) {
+      const created = await client.createMethod({ file, ...signature });
+      entry.methods[i] = { uuid: created.uuid, body: false };
+      await checkpoint();
+    }
+    if (!entry.methods[i].body) {
+      if (body.trim()) {
+        await client.addMethodBody({ file, method: entry.methods[i].uuid, code: body });
+      }
+      entry.methods[i].body = true;
+      await checkpoint();
+    }
+  }
+
+  if (plan.template) {
+    const prepared = prepareTemplate(plan.template);
+    if (!entry.template) {
+      const created = (await client.htmlToElements({ elements: prepared.html })).data || {};
+      entry.template = rootElements(created);
+      result.elements = Object.keys(createdElements(created));
+      entry.markers = {};
+      for (const [uuid, element] of Object.entries(createdElements(created))) {
+        const marker = element?.[EVENT_MARKER] ?? element?.attributes?.[EVENT_MARKER];
+        if (marker !== undefined) entry.markers[uuid] = String(marker);
+      }
+      await checkpoint();
+    }
+    if (entry.markers) {
+      const created = Object.fromEntries(
+        Object.entries(entry.markers).map(([uuid, marker]) => [uuid, { uuid, [EVENT_MARKER]: marker }])
+      );
+      const methodUuids = Object.fromEntries(plan.methods.map((method, i) => [method.name, entry.methods[i].uuid]));
+      const wiring = await wireTemplateEvents(client, created, prepared.bindings, methodUuids);
+      result.events = wiring.events;
+      result.warnings = wiring.warnings;
+      delete entry.markers;
+      await checkpoint();
+    }
+  }
+
+  if (!entry.saved) {
+    // save_file is a full replacement, so start from the stored file (keeps resolved includes)
+    const current = await client.getFile(file);
+    await client.saveFile(file, {
+      ...current,
+      uuid: file,
+      name: plan.name,
+      type: plan.type,
+      ...(plan.extension ? { extension: plan.extension } : {}),
+      data: entry.methods.map((method) => method.uuid),
+      statements: entry.statements.map((statement) => statement.uuid),
+      ...(entry.template ? { template: entry.template } : {}),
+    });
+    entry.saved = true;
+    await checkpoint();
+  }
+
+  return result;
+}
+
+// Delete what a partial import created, so a changed source starts over instead of orphaning it
+async function discardPartial(client: StellifyClient, entry: JournalEntry) {
+  const deletions = [
+    ...(entry.template || []).map((uuid) => () => client.deleteElement(uuid)),
+    ...entry.statements.map(({ uuid }) => () => client.deleteStatement(uuid)),
+    ...entry.methods.map(({ uuid }) => () => client.deleteMethod(uuid)),
+    ...(entry.file ? [() => client.deleteFile(entry.file!)] : []),
+  ];
+  for (const remove of deletions) {
+    try {
+      await remove();
+    } catch (error: any) {
+      if (error.response?.status !== 404) throw error; // Already gone
+    }
+  }
+}
+
+/**
+ * Create one planned file in the directory in a single pass, without a
+ * journal. Returns the new UUIDs, with methods in plan order, and the wired
+ * template events; on failure the error message lists what was already created.
+ */
+export async function createPlannedFile(
+  client: StellifyClient,
+  plan: PlannedFile,
+  directory: string,
+  module?: string
+): Promise<{ file: string; statements: string[]; methods: string[]; template: string[] } & Omit<ReplayResult, 'file'>> {
+  const entry: JournalEntry = { hash: '', methods: [], statements: [], saved: false };
+  const created = () => ({
+    file: entry.file || '',
+    statements: entry.statements.map((statement) => statement.uuid),
+    methods: entry.methods.map((method) => method.uuid),
+    template: entry.template || [],
+  });
+  try {
+    const { elements, events, warnings } = await replayFile(client, plan, entry, directory, module, async () => {});
+    return { ...created(), elements, events, warnings };
+  } catch (error: any) {
+    error.message = `${error.message}. Created so far: ${JSON.stringify(created())}`;
+    throw error;
+  }
+}
+
+/**
+ * Import a local folder of PHP classes and Vue SFCs into the active project.
+ */
+export async function importDirectory(client: StellifyClient, options: ImportOptions): Promise<ImportReport> {
+  const sourceDir = path.resolve(options.sourceDir);
+  const report: ImportReport = {
+    source_dir: sourceDir,
+    dry_run: !!options.dryRun,
+    journal: null,
+    planned: [],
+    warnings: [],
+    imported: [],
+    skipped: [],
+    errors: [],
+  };
+
+  const sources = await collectSources(sourceDir);
+  const contents = new Map<string, string>();
+  for (const relative of sources) {
+    const source = await readFile(path.join(sourceDir, relative), 'utf8');
+    const plan = relative.endsWith('.vue') ? planVueFile(relative, source) : planPhpFile(relative, source);
+    if (typeof plan === 'string') {
+      report.skipped.push({ path: relative, reason: plan });
+    } else {
+      report.planned.push(plan);
+      report.warnings.push(...plan.warnings.map((warning) => ({ path: relative, warning })));
+      contents.set(relative, source);
+    }
+  }
+
+  if (options.dryRun) {
+    return report;
+  }
+
+  // Resolve (or create) the Stellify directory for each file type once
+  const project = await client.getProject();
+  const journalDir = options.journalDir || DEFAULT_JOURNAL_DIRECTORY;
+  const journalFile = journalPath(journalDir, sourceDir, project.project.uuid, client.selectedBranch || project.project.branch || null);
+  report.journal = journalFile;
+  await mkdir(journalDir, { recursive: true });
+  const journal = await readJournal(journalFile);
+  const checkpoint = () => writeFile(journalFile, JSON.stringify(journal, null, 2) + '\n', 'utf8');
+  const directories = new Map<string, string>();
+  (project.directories || []).forEach((directory) => {
+    if (directory.name) directories.set(directory.name, directory.uuid);
+  });
+  const resolveDirectory = async (name: string) => {
+    if (!directories.has(name)) {
+      const result = await client.createDirectory({ name });
+      directories.set(name, result.uuid);
+    }
+    return directories.get(name)!;
+  };
+
+  for (const plan of report.planned) {
+    const digest = createHash('sha256').update(contents.get(plan.path)!).digest('hex');
+    let entry: JournalEntry | undefined = journal.files[plan.path];
+    if (entry?.saved && entry.file) {
+      report.skipped.push({
+        path: plan.path,
+        reason: entry.hash === digest
+          ? `already imported (${entry.file})`
+          : `changed since it was imported as ${entry.file}; remove its journal entry to import it again`,
+      });
+      continue;
+    }
+    if (entry && entry.hash !== digest) {
+      try {
+        await discardPartial(client, entry);
+      } catch (error: any) {
+        report.errors.push({
+          path: plan.path,
+          error: `changed since a partial import created ${entry.file}, which could not be removed (${error.response?.data?.message || error.message}); delete it and remove its journal entry to import it again`,
+        });
+        continue;
+      }
+      entry = undefined;
+    }
+    if (!entry) {
+      entry = { hash: digest, methods: [], statements: [], saved: false };
+      journal.files[plan.path] = entry;
+    }
+
+    try {
+      const directory = await resolveDirectory(directoryName(plan));
+      const { file } = await replayFile(client, plan, entry, directory, options.module, checkpoint);
+      report.imported.push({ path: plan.path, uuid: file });
+    } catch (error: any) {
+      report.errors.push({ path: plan.path, error: error.response?.data?.message || error.message });
+    }
+  }
+
+  await checkpoint();
+  return report;
+}
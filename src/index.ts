@@ -4,28 +4,135 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  Resource,
+  ResourceTemplate,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import { StellifyClient } from './stellify-client.js';
+import { CircuitBreaker, httpOptionsFromEnv } from './http.js';
+import { bearerToken, DEFAULT_HTTP_SERVER_OPTIONS, isLoopback, startHttpServer } from './http-server.js';
+import type { DeletableKind } from './references.js';
+import { fileVersion } from './file-patch.js';
+import { HistoryJournal, historyFileFromEnv, SessionHistory } from './history.js';
+import { DryRunPlan } from './dry-run.js';
+import { AuditLog, auditOptionsFromEnv, AuditOutcome, SessionAudit } from './audit.js';
+import { ResponseShapeError } from './models.js';
+import { getPrompt, listPrompts } from './prompts.js';
+import { isMemoryUrl } from './memory-backend.js';
+import { Cassette, cassetteFromEnv } from './cassette.js';
+import { describeSearch } from './pagination.js';
+import { decide, matchesTool, MUTATING_TOOLS, policyFromEnv, ToolPolicy, ToolPolicyError } from './policy.js';
+import {
+  addMethodBodySchema,
+  cloneLibraryFileSchema,
+  createElementSchema,
+  createFileSchema,
+  createMethodSchema,
+  createRouteSchema,
+  JsonSchema,
+  paginationProperties,
+  patchOperationSchema,
+  searchFilesSchema,
+  searchLibrarySchema,
+  searchMethodsSchema,
+} from './schemas.js';
+import { assertValidArguments, ToolInputError } from './validation.js';
+import type { IncomingMessage } from 'http';
+import path from 'path';
 import dotenv from 'dotenv';
 
 // Load environment variables
 dotenv.config();
 
 const API_URL = process.env.STELLIFY_API_URL || 'https://stellisoft.com/api/v1';
-const API_TOKEN = process.env.STELLIFY_API_TOKEN;
+const CASSETTE = loadCassette();
+// The in-memory backend (STELLIFY_API_URL=memory://) and replays accept any token, so none is needed
+const API_TOKEN = process.env.STELLIFY_API_TOKEN
+  || (isMemoryUrl(API_URL) ? 'memory' : CASSETTE?.mode === 'replay' ? 'replay' : undefined);
+const HTTP_OPTIONS = httpOptionsFromEnv(process.env);
+const DRY_RUN = /^(1|true|yes)$/i.test(process.env.STELLIFY_DRY_RUN || ''); // Every mutating tool call is a dry run
+// HTTP requests from this machine without a bearer token use STELLIFY_API_TOKEN; off unless asked for
+const LOOPBACK_TOKEN = /^(1|true|yes)$/i.test(process.env.STELLIFY_MCP_LOOPBACK_TOKEN || '');
+const POLICY = loadPolicy();
+// The only directory export_project and import_directory may touch; in HTTP mode they are off without it
+const FILES_ROOT = process.env.STELLIFY_MCP_FILES_ROOT ? path.resolve(process.env.STELLIFY_MCP_FILES_ROOT) : null;
+
+// Tools that read or write the server's filesystem, and the argument holding the path
+const LOCAL_FILE_TOOLS: Record<string, string> = { export_project: 'output_dir', import_directory: 'source_dir' };
+
+// One circuit breaker for every client: an API outage affects all tokens alike
+const breaker = new CircuitBreaker(HTTP_OPTIONS.breakerThreshold, HTTP_OPTIONS.breakerCooldown);
+
+// Undo history for every token, journalled to STELLIFY_HISTORY_FILE
+const journal = new HistoryJournal(historyFileFromEnv(process.env));
+
+// Audit log of every tool call, written to STELLIFY_AUDIT_FILE
+const auditLog = new AuditLog(auditOptionsFromEnv(process.env));
+
+// Stellify API clients, one per token, so sessions with different credentials
+// never share a client. HTTP sessions each fork their own (forSession) to keep
+// their project selection apart. Kept in least-recently-used order.
+const MAX_CACHED_CLIENTS = 100;
+const clients = new Map<string, StellifyClient>();
+
+function clientFor(apiToken: string): StellifyClient {
+  let client = clients.get(apiToken);
+  if (client) {
+    clients.delete(apiToken);
+  } else {
+    client = new StellifyClient({ apiUrl: API_URL, apiToken, http: HTTP_OPTIONS, breaker, cassette: CASSETTE ?? undefined });
+    if (clients.size >= MAX_CACHED_CLIENTS) {
+      clients.delete(clients.keys().next().value!);
+    }
+  }
+  clients.set(apiToken, client);
+  return client;
+}
 
-if (!API_TOKEN) {
-  console.error('Error: STELLIFY_API_TOKEN environment variable is required');
-  process.exit(1);
+// What the tools of one MCP session work with
+interface ToolSession {
+  stellify: StellifyClient;
+  history: SessionHistory;
+  audit: SessionAudit;
+  plan?: DryRunPlan; // Set while a dry run is recording writes instead of sending them
+  filesRoot?: string | null; // Directory local file paths must stay under; unset for no limit, null when local files are off
+  confirm?: (message: string) => Promise<boolean | undefined>; // Ask the user; undefined if the client cannot
 }
 
-// Initialize Stellify API client
-const stellify = new StellifyClient({
-  apiUrl: API_URL,
-  apiToken: API_TOKEN,
-});
+// Tool policy from STELLIFY_POLICY_FILE and the STELLIFY_*_TOOLS variables; a broken policy stops startup
+function loadPolicy(): ToolPolicy {
+  try {
+    return policyFromEnv(process.env);
+  } catch (error: any) {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+// HTTP traffic cassette from STELLIFY_RECORD or STELLIFY_REPLAY; an unreadable replay stops startup
+function loadCassette(): Cassette | null {
+  try {
+    return cassetteFromEnv(process.env);
+  } catch (error: any) {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+// stdio mode and the CLI commands run as the single user in STELLIFY_API_TOKEN
+function defaultClient(): StellifyClient {
+  if (!API_TOKEN) {
+    console.error('Error: STELLIFY_API_TOKEN environment variable is required');
+    process.exit(1);
+  }
+  return clientFor(API_TOKEN);
+}
 
 // =============================================================================
 // STELLIFY AI WORKFLOW GUIDE
@@ -117,6 +224,9 @@ const stellify = new StellifyClient({
 //
 // =============================================================================
 
+// Shared schemas are declared `as const`; the SDK's Tool type expects mutable arrays
+const toolInputSchema = (schema: JsonSchema) => schema as unknown as Tool['inputSchema'];
+
 // Define MCP tools
 const tools: Tool[] = [
   {
@@ -132,71 +242,144 @@ Returns:
 - directories: Array of {uuid, name} for existing directories (js, controllers, models, etc.)
 
 Use the directories array to find existing directories before creating new ones.
-For example, look for a "js" directory before creating Vue components.`,
+For example, look for a "js" directory before creating Vue components.
+
+If a project was selected with use_project, this returns that project instead.`,
     inputSchema: {
       type: 'object',
       properties: {},
     },
   },
   {
-    name: 'create_file',
-    description: `Create a new file in a Stellify project.
+    name: 'list_projects',
+    description: `List the Stellify projects available to the authenticated user.
 
-This creates an EMPTY file shell - no methods, statements, or template yet. The file exists but has no content.
+Returns each project's uuid and name, and which one this session has selected with use_project (null means the account's active project).`,
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'use_project',
+    description: `Select the project that every following tool call in this session works on.
 
-COMPLETE WORKFLOW:
-1. create_file → creates empty shell, returns file UUID
-2. create_statement + add_statement_code → add variables/imports (returns statement UUIDs)
-3. create_method + add_method_body → add functions (returns method UUIDs)
-4. html_to_elements → create template elements (returns element UUIDs)
-5. save_file → FINALIZE by wiring template/data arrays with all collected UUIDs
+The selection is sent with every API request, so files, methods, routes and elements are read from and written to this project. create_route fills in project_id from it. Other sessions are not affected.
 
-For PHP: Use type='class', 'model', 'controller', or 'middleware'.
-For Vue: Use type='js' and extension='vue'. Place in the 'js' directory.
+Use list_projects to find the project, then call get_project to see its directories.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project: {
+          type: 'string',
+          description: 'UUID or exact name of the project (from list_projects)',
+        },
+      },
+      required: ['project'],
+    },
+  },
+  {
+    name: 'list_branches',
+    description: `List the git branches of the project.
 
-DEPENDENCY RESOLUTION (automatic):
-Pass 'includes' as an array of namespace strings (e.g., ["App\\Models\\User", "Illuminate\\Support\\Facades\\Hash"]).
-The system resolves these to UUIDs automatically, creating missing dependencies on-demand:
-- App\\* classes → creates stub file in your project (tenant DB)
-- Illuminate\\*/Laravel\\* → fetches from Laravel API, creates in Application DB
-- Vendor packages → fetches from vendor, creates in Application DB`,
+Returns each branch and which one is current: the branch selected with switch_branch in this session, otherwise the project's own current branch.`,
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'switch_branch',
+    description: `Select the branch that every following tool call in this session works on.
+
+Like use_project, the selection is sent with every API request and only affects this session, so an agent can build a feature on a branch while the main branch stays untouched. Selecting another project with use_project resets it.`,
     inputSchema: {
       type: 'object',
       properties: {
-        directory: {
+        branch: {
           type: 'string',
-          description: 'The UUID of the directory to create the file in (get from get_project directories array)',
+          description: 'Name of the branch (from list_branches)',
         },
+      },
+      required: ['branch'],
+    },
+  },
+  {
+    name: 'create_branch',
+    description: `Create a git branch in the project.
+
+The new branch starts as a copy of "from" (default: the current branch). Pass switch: true to continue working on it in this session.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
         name: {
           type: 'string',
-          description: 'File name without extension (e.g., "Counter", "UserController")',
+          description: 'Name of the new branch (e.g., "feature/user-auth")',
         },
-        type: {
+        from: {
           type: 'string',
-          enum: ['class', 'model', 'controller', 'middleware', 'js'],
-          description: 'Type of file: "js" for JavaScript/Vue, others for PHP',
+          description: 'Branch to copy (default: the current branch)',
         },
-        extension: {
-          type: 'string',
-          description: 'File extension. Use "vue" for Vue components, omit for PHP files.',
+        switch: {
+          type: 'boolean',
+          description: 'Switch this session to the new branch (default: false)',
         },
-        namespace: {
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'diff_branches',
+    description: `Summarise what changed between two branches, for review before merging.
+
+Compares the structured JSON of both branches rather than rendered text. Files are matched by UUID or path, methods by UUID or name and statements by UUID or content.
+
+Returns:
+- files.added / files.removed: {uuid, path}
+- files.modified: per file, the changed top-level fields (template, includes, ...), the added/removed/modified methods and file-level statements, and method_statements (method name → statement UUIDs added/removed/modified in its body)
+- files.unchanged: count of identical files
+- errors: files that could not be read
+
+Walks every file, method and statement on both branches, so it is slow on large projects. Use get_method / get_statement (after switch_branch) to inspect individual changes.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        base: {
           type: 'string',
-          description: 'PHP namespace (e.g., "App\\Services\\"). Only for PHP files.',
-        },
-        includes: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Array of namespace strings to include as dependencies (e.g., ["App\\Models\\User", "Illuminate\\Support\\Facades\\Hash"]). These are resolved to UUIDs automatically.',
+          description: 'Branch to compare against (e.g., "main")',
         },
-        module: {
+        head: {
           type: 'string',
-          description: 'Optional module name to group this file with related code (e.g., "blog-posts", "user-auth"). Module is auto-created if it doesn\'t exist.',
+          description: 'Branch with the changes (e.g., "feature/user-auth")',
         },
       },
-      required: ['directory', 'name', 'type'],
+      required: ['base', 'head'],
     },
   },
+  {
+    name: 'create_file',
+    description: `Create a new file in a Stellify project.
+
+This creates an EMPTY file shell - no methods, statements, or template yet. The file exists but has no content.
+
+COMPLETE WORKFLOW:
+1. create_file → creates empty shell, returns file UUID
+2. create_statement + add_statement_code → add variables/imports (returns statement UUIDs)
+3. create_method + add_method_body → add functions (returns method UUIDs)
+4. html_to_elements → create template elements (returns element UUIDs)
+5. save_file → FINALIZE by wiring template/data arrays with all collected UUIDs
+
+For PHP: Use type='class', 'model', 'controller', or 'middleware'.
+For Vue: Use type='js' and extension='vue'. Place in the 'js' directory.
+
+DEPENDENCY RESOLUTION (automatic):
+Pass 'includes' as an array of namespace strings (e.g., ["App\\Models\\User", "Illuminate\\Support\\Facades\\Hash"]).
+The system resolves these to UUIDs automatically, creating missing dependencies on-demand:
+- App\\* classes → creates stub file in your project (tenant DB)
+- Illuminate\\*/Laravel\\* → fetches from Laravel API, creates in Application DB
+- Vendor packages → fetches from vendor, creates in Application DB`,
+    inputSchema: toolInputSchema(createFileSchema),
+  },
   {
     name: 'create_method',
     description: `Create a method signature in a file. This only creates the method declaration, not the body. Use add_method_body to add implementation.
@@ -224,85 +407,12 @@ Example response includes:
   "parameters": ["clause-uuid-for-credentials"],
   ...
 }`,
-    inputSchema: {
-      type: 'object',
-      properties: {
-        file: {
-          type: 'string',
-          description: 'UUID of the file to add the method to',
-        },
-        name: {
-          type: 'string',
-          description: 'Method name (e.g., "increment", "store", "handleClick")',
-        },
-        visibility: {
-          type: 'string',
-          enum: ['public', 'protected', 'private'],
-          description: 'Method visibility (PHP only)',
-        },
-        is_static: {
-          type: 'boolean',
-          description: 'Whether the method is static (PHP only)',
-        },
-        returnType: {
-          type: 'string',
-          description: 'Return type (e.g., "int", "string", "void", "object")',
-        },
-        nullable: {
-          type: 'boolean',
-          description: 'Whether the return type is nullable (e.g., ?object)',
-        },
-        parameters: {
-          type: 'array',
-          description: 'Array of method parameters. Each parameter is created as a clause.',
-          items: {
-            type: 'object',
-            properties: {
-              name: {
-                type: 'string',
-                description: 'Parameter name (e.g., "credentials", "id")',
-              },
-              datatype: {
-                type: 'string',
-                description: 'Parameter data type (e.g., "array", "int", "string", "Request")',
-              },
-              type: {
-                type: 'string',
-                description: 'Clause type, defaults to "variable"',
-              },
-              value: {
-                type: 'string',
-                description: 'Parameter value, defaults to the name',
-              },
-            },
-            required: ['name'],
-          },
-        },
-      },
-      required: ['file', 'name'],
-    },
+    inputSchema: toolInputSchema(createMethodSchema),
   },
   {
     name: 'add_method_body',
     description: 'Parse and add PHP code to a method body. Provide the method implementation code (without the function declaration). Stellify will parse it into structured statements.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        file: {
-          type: 'string',
-          description: 'UUID of the file containing the method',
-        },
-        method: {
-          type: 'string',
-          description: 'UUID of the method to add code to',
-        },
-        code: {
-          type: 'string',
-          description: 'PHP code for the method body (just the statements, no function declaration). Example: "return $a + $b;"',
-        },
-      },
-      required: ['file', 'method', 'code'],
-    },
+    inputSchema: toolInputSchema(addMethodBodySchema),
   },
   {
     name: 'save_method',
@@ -355,79 +465,40 @@ Example:
   },
   {
     name: 'search_methods',
-    description: 'Search for methods in the project by name or within a specific file',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: {
-          type: 'string',
-          description: 'Method name to search for (supports wildcards)',
-        },
-        file_uuid: {
-          type: 'string',
-          description: 'Optional: filter results to a specific file',
-        },
-      },
-    },
+    description: `Search for methods in the project by name or within a specific file.
+
+Results come a page at a time: pass next_cursor back as cursor while has_more is true, or set all: true to collect every page.`,
+    inputSchema: toolInputSchema(searchMethodsSchema),
   },
   {
     name: 'search_files',
-    description: 'Search for files in the project by name or type',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        query: {
-          type: 'string',
-          description: 'File name pattern to search for',
-        },
-        type: {
-          type: 'string',
-          description: 'File type to filter by (class, model, controller, middleware)',
-        },
-      },
-    },
+    description: `Search for files in the project by name or type.
+
+Results come a page at a time: pass next_cursor back as cursor while has_more is true, or set all: true to collect every page.`,
+    inputSchema: toolInputSchema(searchFilesSchema),
+  },
+  {
+    name: 'search_library',
+    description: `Browse the shared code library: reusable files published outside your project. Check it before writing a common class or component from scratch.
+
+Filter by name, file type, category, tags, author or minimum rating, and sort by rating, name or date. Results come a page at a time: pass next_cursor back as cursor while has_more is true, or set all: true to collect every page.
+
+Use clone_library_file to copy a result into your project.`,
+    inputSchema: toolInputSchema(searchLibrarySchema),
+  },
+  {
+    name: 'clone_library_file',
+    description: `Copy a library file into a directory of your project, with its methods, statements, template and includes.
+
+The copy is a new file with new UUIDs, so editing it never changes the library original. Includes keep pointing at the same files or namespaces. Pass name to clone under a different class or component name.
+
+Returns the new file UUID, methods (name → UUID), statement UUIDs and template root element UUIDs.`,
+    inputSchema: toolInputSchema(cloneLibraryFileSchema),
   },
   {
     name: 'create_route',
     description: 'Create a new route/page in a Stellify project',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        project_id: {
-          type: 'string',
-          description: 'The UUID of the Stellify project',
-        },
-        name: {
-          type: 'string',
-          description: 'Route/page name (e.g., "Home", "Counter", "About")',
-        },
-        path: {
-          type: 'string',
-          description: 'URL path (e.g., "/", "/counter", "/about")',
-        },
-        method: {
-          type: 'string',
-          enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
-          description: 'HTTP method',
-          default: 'GET',
-        },
-        type: {
-          type: 'string',
-          enum: ['web', 'api'],
-          description: 'Route type: "web" for pages, "api" for API endpoints',
-          default: 'web',
-        },
-        data: {
-          type: 'object',
-          description: 'Additional route data (title, description, element UUIDs)',
-        },
-        module: {
-          type: 'string',
-          description: 'Optional module name to group this route with related code (e.g., "blog-posts", "user-auth"). Module is auto-created if it doesn\'t exist.',
-        },
-      },
-      required: ['project_id', 'name', 'path', 'method'],
-    },
+    inputSchema: toolInputSchema(createRouteSchema),
   },
   {
     name: 'get_route',
@@ -449,7 +520,7 @@ Use this to look up a route you created or to find existing routes in the projec
     name: 'search_routes',
     description: `Search for routes/pages in the project by name. Use this to find existing routes before creating new ones.
 
-Returns paginated results with route details including UUID, name, path, and type.
+Returns route details including UUID, name, path, and type, a page at a time: pass next_cursor back as cursor while has_more is true, or set all: true to collect every page.
 Use the returned UUID with html_to_elements (page parameter) or get_route for full details.`,
     inputSchema: {
       type: 'object',
@@ -463,10 +534,7 @@ Use the returned UUID with html_to_elements (page parameter) or get_route for fu
           enum: ['web', 'api'],
           description: 'Filter by route type: "web" for pages, "api" for endpoints',
         },
-        per_page: {
-          type: 'number',
-          description: 'Results per page (default: 10)',
-        },
+        ...paginationProperties,
       },
     },
   },
@@ -479,30 +547,7 @@ Valid element types:
 - Components: s-loop, s-transition, s-freestyle, s-motion
 - Blade: s-directive
 - Shadcn/ui: s-chart, s-table, s-combobox, s-accordion, s-calendar, s-contiguous`,
-    inputSchema: {
-      type: 'object',
-      properties: {
-        type: {
-          type: 'string',
-          enum: [
-            's-wrapper', 's-input', 's-form', 's-svg', 's-shape', 's-media', 's-iframe',
-            's-loop', 's-transition', 's-freestyle', 's-motion',
-            's-directive',
-            's-chart', 's-table', 's-combobox', 's-accordion', 's-calendar', 's-contiguous'
-          ],
-          description: 'Element type - must be one of the valid Stellify element types',
-        },
-        page: {
-          type: 'string',
-          description: 'UUID of the page/route to add the element to (for root elements)',
-        },
-        parent: {
-          type: 'string',
-          description: 'UUID of the parent element (for child elements)',
-        },
-      },
-      required: ['type'],
-    },
+    inputSchema: toolInputSchema(createElementSchema),
   },
   {
     name: 'update_element',
@@ -598,6 +643,8 @@ Example wiring a button click to a method:
     name: 'search_elements',
     description: `Search for elements in the project. Useful for finding elements by name, type, or content.
 
+Results come a page at a time: pass next_cursor back as cursor while has_more is true, or set all: true to collect every page.
+
 Note: To reorder elements, use update_element to modify the parent element's 'data' array with the new order of child UUIDs.`,
     inputSchema: {
       type: 'object',
@@ -615,11 +662,7 @@ Note: To reorder elements, use update_element to modify the parent element's 'da
           description: 'Include additional metadata',
           default: false,
         },
-        per_page: {
-          type: 'number',
-          description: 'Results per page (1-100)',
-          default: 20,
-        },
+        ...paginationProperties,
       },
     },
   },
@@ -673,20 +716,287 @@ IMPORTANT: Use the returned root element UUID in save_file's template array.`,
       required: ['elements'],
     },
   },
-  // =============================================================================
-  // STATEMENT & FILE MANAGEMENT TOOLS
-  // =============================================================================
   {
-    name: 'get_statement',
-    description: `Get a statement by UUID. Returns the statement data including its clauses (code tokens).`,
+    name: 'delete_file',
+    description: `Delete a file.
+
+Before deleting, the project is checked for anything that still references it:
+- other files listing it in includes (or any other array)
+- routes pointing at it (e.g. a controller) - routes cannot be detached, so these need force
+
+If references exist the delete is REFUSED and they are listed in the response.
+- cascade: detach the references first (remove the UUID from arrays, clear event handlers), then delete
+- force: delete anyway and leave the references dangling
+
+This delete is not recorded in the undo history and cannot be undone.`,
     inputSchema: {
       type: 'object',
       properties: {
         uuid: {
           type: 'string',
-          description: 'The UUID of the statement to retrieve',
+          description: 'UUID of the file to delete',
         },
-      },
+        cascade: {
+          type: 'boolean',
+          description: 'Detach references before deleting (default: false)',
+        },
+        force: {
+          type: 'boolean',
+          description: 'Delete even if references would be left dangling (default: false)',
+        },
+      },
+      required: ['uuid'],
+    },
+  },
+  {
+    name: 'delete_method',
+    description: `Delete a method.
+
+Before deleting, the project is checked for anything that still references it:
+- the owning file's data array
+- elements whose event handler (click, submit, ...) points at the method UUID, in file templates and on route pages
+- routes pointing at it as a controller method - routes cannot be detached, so these need force
+
+If references exist the delete is REFUSED and they are listed in the response.
+- cascade: detach the references first (remove the UUID from arrays, clear event handlers), then delete
+- force: delete anyway and leave the references dangling
+
+This delete is not recorded in the undo history and cannot be undone.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        uuid: {
+          type: 'string',
+          description: 'UUID of the method to delete',
+        },
+        cascade: {
+          type: 'boolean',
+          description: 'Detach references before deleting (default: false)',
+        },
+        force: {
+          type: 'boolean',
+          description: 'Delete even if references would be left dangling (default: false)',
+        },
+      },
+      required: ['uuid'],
+    },
+  },
+  {
+    name: 'delete_statement',
+    description: `Delete a statement.
+
+Before deleting, the project is checked for anything that still references it:
+- a file's statements array
+- a method body (the method's data array)
+- elements bound to it (the element's statements array), in file templates and on route pages
+
+If references exist the delete is REFUSED and they are listed in the response.
+- cascade: detach the references first (remove the UUID from arrays, clear event handlers), then delete
+- force: delete anyway and leave the references dangling
+
+This delete is not recorded in the undo history and cannot be undone.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        uuid: {
+          type: 'string',
+          description: 'UUID of the statement to delete',
+        },
+        cascade: {
+          type: 'boolean',
+          description: 'Detach references before deleting (default: false)',
+        },
+        force: {
+          type: 'boolean',
+          description: 'Delete even if references would be left dangling (default: false)',
+        },
+      },
+      required: ['uuid'],
+    },
+  },
+  {
+    name: 'delete_route',
+    description: `Delete a route/page.
+
+Before deleting, the project is checked for anything that still references it:
+- files listing the route UUID
+
+If references exist the delete is REFUSED and they are listed in the response.
+- cascade: detach the references first (remove the UUID from arrays, clear event handlers), then delete
+- force: delete anyway and leave the references dangling
+
+This delete is not recorded in the undo history and cannot be undone.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        uuid: {
+          type: 'string',
+          description: 'UUID of the route to delete',
+        },
+        cascade: {
+          type: 'boolean',
+          description: 'Detach references before deleting (default: false)',
+        },
+        force: {
+          type: 'boolean',
+          description: 'Delete even if references would be left dangling (default: false)',
+        },
+      },
+      required: ['uuid'],
+    },
+  },
+  {
+    name: 'delete_directory',
+    description: `Delete a directory.
+
+Before deleting, the project is checked for anything that still references it:
+- parent directories listing it
+- files inside it (the directory must be empty)
+
+If references exist the delete is REFUSED and they are listed in the response.
+Non-empty directories are also refused; cascade deletes their files and subdirectories first.
+- cascade: detach the references first (remove the UUID from arrays, clear event handlers), then delete
+- force: delete anyway and leave the references dangling
+
+This delete is not recorded in the undo history and cannot be undone.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        uuid: {
+          type: 'string',
+          description: 'UUID of the directory to delete',
+        },
+        cascade: {
+          type: 'boolean',
+          description: 'Detach references and delete contents before deleting (default: false)',
+        },
+        force: {
+          type: 'boolean',
+          description: 'Delete even if references would be left dangling (default: false)',
+        },
+      },
+      required: ['uuid'],
+    },
+  },
+  {
+    name: 'create_vue_component',
+    description: `Build a complete Vue SFC in ONE call. Prefer this over the manual VUE COMPONENT WORKFLOW.
+
+Pass the whole component source (or template and script separately). The server then runs every step for you:
+1. create_file (type 'js', extension 'vue', in the project's 'js' directory unless directory is given)
+2. create_statement + add_statement_code for every top-level <script setup> statement (imports, refs, constants)
+3. create_method + add_method_body for every top-level function
+4. html_to_elements for the <template>
+5. update_element to wire @click/@submit/... handlers to the created method UUIDs
+6. save_file with template, data (method UUIDs) and statements wired together
+
+Missing Vue imports are added automatically: if the script calls ref(), computed(), onMounted(), etc. without importing them, the "import { ... } from 'vue'" statement is created or extended.
+
+Event handlers must reference a function declared in the script by name (@click="increment" or @click="increment()"). Inline code, const/arrow function handlers and async functions are REFUSED before anything is created; use plain function declarations. Modifiers and unsupported events are reported as warnings.
+
+Example:
+{
+  "name": "Counter",
+  "source": "<template><button @click=\\"increment\\">{{ count }}</button></template>\\n<script setup>\\nconst count = ref(0);\\nfunction increment() {\\n  count.value++;\\n}\\n</script>"
+}
+
+Returns a map of every UUID created: file, statements, methods (name → UUID), template roots, elements and wired events.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Component name without extension (e.g., "Counter")',
+        },
+        source: {
+          type: 'string',
+          description: 'Complete SFC source with <template> and <script setup> blocks',
+        },
+        template: {
+          type: 'string',
+          description: 'Template HTML (the contents of <template>), if not passing source',
+        },
+        script: {
+          type: 'string',
+          description: 'Script code (the contents of <script setup>), if not passing source',
+        },
+        directory: {
+          type: 'string',
+          description: 'Directory UUID (default: the project\'s "js" directory, created if missing)',
+        },
+        module: {
+          type: 'string',
+          description: 'Optional module name to group this component with related code',
+        },
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'batch',
+    description: `Run several tool calls as ONE transactional unit, with rollback on failure.
+
+Operations run in order. Later operations can use earlier results through placeholders:
+- "$0.uuid" - the UUID created by operation 0 (file, method, statement, route, element, ...)
+- "$1.file.name", "$2.methods.increment" - any path into an earlier step's result
+Only a string that is exactly one placeholder is replaced, and it keeps the value's type (e.g. "$3.template" stays an array). Placeholders inside longer strings (code, messages) are left as written.
+
+If an operation fails, the remaining ones are skipped and every entity created by earlier operations is deleted again, in reverse order. Updates (save_file, update_element, add_method_body, ...) cannot be undone by deleting; they are listed under not_reverted.
+
+Example - Vue component with one method:
+{
+  "operations": [
+    { "tool": "create_file", "arguments": { "directory": "js-dir-uuid", "name": "Counter", "type": "js", "extension": "vue" } },
+    { "tool": "create_method", "arguments": { "file": "$0.uuid", "name": "increment" } },
+    { "tool": "add_method_body", "arguments": { "file": "$0.uuid", "method": "$1.uuid", "code": "count.value++;" } },
+    { "tool": "save_file", "arguments": { "uuid": "$0.uuid", "name": "Counter", "type": "js", "extension": "vue", "data": ["$1.uuid"] } }
+  ]
+}
+
+Returns a per-step log (arguments after substitution, result, created UUIDs, error) and the rollback outcome.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        operations: {
+          type: 'array',
+          description: 'Ordered tool calls to run',
+          items: {
+            type: 'object',
+            properties: {
+              tool: {
+                type: 'string',
+                description: 'Tool name (e.g., "create_file", "create_method")',
+              },
+              arguments: {
+                type: 'object',
+                description: 'Tool arguments; a string that is exactly a $N.path placeholder is replaced by that value',
+              },
+            },
+            required: ['tool'],
+          },
+        },
+        rollback: {
+          type: 'boolean',
+          description: 'Delete entities created by earlier operations if one fails (default: true)',
+        },
+      },
+      required: ['operations'],
+    },
+  },
+  // =============================================================================
+  // STATEMENT & FILE MANAGEMENT TOOLS
+  // =============================================================================
+  {
+    name: 'get_statement',
+    description: `Get a statement by UUID. Returns the statement data including its clauses (code tokens).`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        uuid: {
+          type: 'string',
+          description: 'The UUID of the statement to retrieve',
+        },
+      },
       required: ['uuid'],
     },
   },
@@ -756,6 +1066,10 @@ IMPORTANT: This is a full replacement, not a partial update. To update an existi
 2. Modify the returned object
 3. Call save_file with the complete object
 
+To change part of an existing file, patch_file avoids the round trip and detects concurrent edits.
+
+Before saving, the payload is compared with the stored file. If it drops any method, statement, template or include UUID the file had, the response lists them under "dropped" with a warning (see on_dropped_references). Use diff_file to preview a save.
+
 Required fields: uuid, name, type
 
 IMPORTANT - data vs statements:
@@ -814,115 +1128,386 @@ For <script setup> content, the order in statements array determines output orde
           items: { type: 'string' },
           description: 'Array of file UUIDs to import',
         },
+        on_dropped_references: {
+          type: 'string',
+          enum: ['warn', 'error', 'ignore'],
+          description: 'What to do when the payload drops a method, statement, template or include UUID the stored file has: "warn" saves and lists them under warnings (default), "error" refuses to save, "ignore" skips the check',
+        },
       },
       required: ['uuid', 'name', 'type'],
     },
   },
   {
-    name: 'get_file',
-    description: 'Get a file by UUID with all its metadata, methods, and statements.',
+    name: 'patch_file',
+    description: `Update part of a file without sending the whole file back. Prefer this over save_file for existing files.
+
+The current file is fetched, the operations are applied in order, and the result is saved. No get_file is needed first.
+
+Operations:
+- {op: "add_method", method, position?} / {op: "remove_method", method}
+- {op: "insert_statement_at", statement, position?} / {op: "remove_statement", statement} / {op: "move_statement", statement, position}
+- {op: "add_include", include} / {op: "remove_include", include}
+- {op: "set_template", template: [rootElementUuid, ...]}
+- {op: "set_field", field, value} for name, namespace, extension and other non-reference fields
+
+Positions are zero-based; omit to append. If any operation does not apply (e.g. removing a method the file does not have) nothing is saved.
+
+Concurrent edits are detected. If the file changes between the fetch and the save, the operations are re-applied to the new version. Pass expected_version (from get_file) to fail instead when the file has changed since you read it.`,
     inputSchema: {
       type: 'object',
       properties: {
         uuid: {
           type: 'string',
-          description: 'UUID of the file to retrieve',
+          description: 'UUID of the file to patch',
+        },
+        operations: {
+          type: 'array',
+          items: toolInputSchema(patchOperationSchema),
+          description: 'Operations to apply, in order',
+        },
+        expected_version: {
+          type: 'string',
+          description: 'Version returned by get_file; the patch fails if the file has changed since',
         },
       },
-      required: ['uuid'],
+      required: ['uuid', 'operations'],
     },
   },
   {
-    name: 'get_directory',
-    description: `Get a directory by UUID to see its contents.
+    name: 'list_history',
+    description: `List the changes recorded for undo, newest first.
 
-Use this to inspect directories returned by get_project. The project's data array contains directory UUIDs.
-Returns the directory name and list of files/subdirectories inside it.`,
+Before save_file, patch_file, save_method, add_method_body, add_statement_code, update_element and delete_element write anything, the entity is fetched and its previous state is journalled. Each entry has an id (a checkpoint for undo_to), the tool, the entity kind and UUID, the project and branch it was made in, and when it was undone, if it was.
+
+delete_file, delete_method, delete_statement, delete_route and delete_directory are not journalled and cannot be undone.
+
+History is per API token and kept across restarts.`,
     inputSchema: {
       type: 'object',
       properties: {
-        uuid: {
-          type: 'string',
-          description: 'The UUID of the directory to retrieve',
+        limit: {
+          type: 'integer',
+          description: 'Maximum number of entries (default: 20)',
         },
       },
-      required: ['uuid'],
     },
   },
   {
-    name: 'create_directory',
-    description: `Create a new directory for organizing files.
+    name: 'audit_log',
+    description: `Query the audit log: the recent tool calls of this session (or of every session with your API token), newest first.
 
-Common directories:
-- 'js' for JavaScript/Vue files
-- 'css' for stylesheets
-- 'components' for reusable components
+Each entry has the time, the session, the tool and its arguments (secrets redacted, long strings shortened), every Stellify API request it made with status and duration, the UUIDs it created, modified or deleted, how long it took and its outcome: ok, error, refused (by the tool policy or the user), invalid (bad arguments) or dry_run.
 
-IMPORTANT: Check existing directories first using get_project and get_directory before creating new ones.`,
+Use the uuid filter to find out what changed an entity and when.`,
     inputSchema: {
       type: 'object',
       properties: {
-        name: {
+        limit: {
+          type: 'integer',
+          description: 'Maximum number of entries (default: 20)',
+        },
+        tool: {
           type: 'string',
-          description: 'Directory name (e.g., "js", "css", "components")',
+          description: 'Only calls of this tool',
+        },
+        outcome: {
+          type: 'string',
+          enum: ['ok', 'error', 'refused', 'invalid', 'dry_run'],
+          description: 'Only calls that ended this way',
+        },
+        uuid: {
+          type: 'string',
+          description: 'Only calls that created, modified or deleted this entity',
+        },
+        since: {
+          type: 'string',
+          description: 'Only calls made at or after this ISO 8601 time',
+        },
+        session: {
+          type: 'string',
+          enum: ['current', 'all'],
+          description: 'This session only (default) or every session using your API token',
         },
       },
-      required: ['name'],
     },
   },
   {
-    name: 'broadcast_element_command',
-    description: `Broadcast a real-time command to update UI elements via WebSocket.
-
-IMPORTANT: USE THIS TOOL FIRST when the user asks you to:
-- Show, display, or demonstrate something visually
-- Update, change, or modify what's on screen
-- Build or create UI elements for demonstration
-- Send messages or content to the browser
-- Do anything "live" or "in real-time"
+    name: 'undo_last',
+    description: `Undo the most recent change that has not been undone yet, by saving the entity's previous state back.
 
-This is the PRIMARY tool for real-time AI-to-browser communication. It pushes changes instantly to all connected browsers. Changes are EPHEMERAL (not saved to database) - perfect for demonstrations, live content, and interactive sessions.
-
-ACTIONS:
-- update: Modify an existing element's attributes (text, classes, styles, etc.)
-- create: Create a new ephemeral element (provide any UUID string you want)
-- batch: Modify multiple elements at once
-- delete: Remove an element from the UI state
-
-TO CREATE EPHEMERAL ELEMENTS (not stored in database):
-1. First, use action="create" with any UUID (e.g., "msg-001") and full element structure in changes
-2. Then, use action="update" on the PARENT element to add your new UUID to its "data" array
+The change is restored in the project and branch it was made in, even if another one is selected now. A deleted element tree is recreated under its original parent or page with NEW UUIDs (returned as "recreated"); update anything that referenced the old UUIDs. Statements created by add_method_body are detached from the method but not deleted. Deletes made with delete_file, delete_method, delete_statement, delete_route or delete_directory cannot be undone.`,
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'undo_to',
+    description: `Undo every change made after a checkpoint, newest first, so the project returns to how it was right after that change.
 
-Example - Update existing element text:
-{ action: "update", element: "existing-uuid", changes: { text: "Hello world!", classes: ["p-4", "bg-blue-500"] } }
+Use list_history to find the checkpoint id; 0 undoes everything in the history. Stops at the first change that cannot be restored and reports which were.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        checkpoint: {
+          type: 'integer',
+          description: 'History entry id to return to',
+        },
+      },
+      required: ['checkpoint'],
+    },
+  },
+  {
+    name: 'diff_file',
+    description: `Compare two versions of a file before or after saving it.
 
-Example - Create ephemeral child element:
-Step 1: { action: "create", element: "my-new-element", changes: { type: "s-wrapper", tag: "div", text: "I exist!", classes: ["p-2", "bg-green-500"] } }
-Step 2: { action: "update", element: "parent-uuid", changes: { data: ["my-new-element"] } }
+Pass "proposed" (a save_file payload) to see what saving it would change, or "snapshot" (an earlier get_file result) to see what changed since. Since save_file is a full replacement, a reference array missing from the proposed payload counts as emptied.
 
-For PERSISTENT changes (saved to database), use update_element or html_to_elements instead.`,
+Returns:
+- references: per array (data, statements, template, includes) the added, removed and reordered UUIDs
+- fields: other fields that differ, with before and after values
+- dropped: references that would be (or were) removed`,
     inputSchema: {
       type: 'object',
       properties: {
-        action: {
+        uuid: {
           type: 'string',
-          enum: ['update', 'batch', 'delete', 'create'],
-          description: 'The type of command to broadcast',
+          description: 'UUID of the file',
         },
-        element: {
-          type: 'string',
-          description: 'UUID of the element to modify (required for update, delete, create)',
+        proposed: {
+          type: 'object',
+          description: 'Payload you intend to send to save_file',
         },
-        changes: {
+        snapshot: {
           type: 'object',
-          description: 'Object containing attribute changes (e.g., { classes: ["bg-blue-500"], text: "Hello" })',
+          description: 'Earlier get_file result to compare the stored file against',
         },
-        updates: {
-          type: 'array',
-          description: 'Array of updates for batch action: [{ element: "uuid", changes: {...} }]',
-          items: {
-            type: 'object',
-            properties: {
+      },
+      required: ['uuid'],
+    },
+  },
+  {
+    name: 'diff_method',
+    description: `Compare two versions of a method, like diff_file.
+
+Pass "proposed" (a save_method payload) or "snapshot" (an earlier get_method result). save_method only updates the fields it is given, so omitted fields count as unchanged.
+
+Returns the added, removed and reordered UUIDs in data (body statements) and parameters, and the other fields that differ.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        uuid: {
+          type: 'string',
+          description: 'UUID of the method',
+        },
+        proposed: {
+          type: 'object',
+          description: 'Payload you intend to send to save_method',
+        },
+        snapshot: {
+          type: 'object',
+          description: 'Earlier get_method result to compare the stored method against',
+        },
+      },
+      required: ['uuid'],
+    },
+  },
+  {
+    name: 'get_file',
+    description: 'Get a file by UUID with all its metadata, methods, and statements. Also returns its version, for patch_file\'s expected_version.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        uuid: {
+          type: 'string',
+          description: 'UUID of the file to retrieve',
+        },
+      },
+      required: ['uuid'],
+    },
+  },
+  {
+    name: 'render_file',
+    description: `Render a file as readable source text (PHP class, Vue SFC, or JavaScript).
+
+Walks the file's includes, statements, methods (data) and template element trees, and assembles:
+- PHP: namespace, use statements, class body with method signatures built from their clauses
+- Vue: <template> block from the element tree, <script setup> block ordered by statements, then functions
+- JS: imports, statements, then functions
+
+Use this to review what a file looks like as code. It is read-only - edit through the structured tools.
+
+Any node that cannot be fetched or rendered is replaced with a "stellify:unrendered" marker and listed in the response.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        uuid: {
+          type: 'string',
+          description: 'UUID of the file to render',
+        },
+      },
+      required: ['uuid'],
+    },
+  },
+  {
+    name: 'export_project',
+    description: `Export the active project to a local Laravel/Vue directory tree so it can be tested, linted and diffed outside Stellify.
+
+Walks get_project → get_directory → get_file recursively and writes each file (rendered as with render_file) to its namespace-derived path:
+- App\\Http\\Controllers\\UserController → app/Http/Controllers/UserController.php
+- App\\Models\\User → app/Models/User.php
+- Vue/JS files → resources/js/<directory>/<Name>.vue
+
+A manifest (.stellify-manifest.json) maps file UUIDs to paths and content hashes. Re-exporting into the same directory only rewrites files that changed; paths from the previous export that no longer map to a file are reported as stale (not deleted).
+
+output_dir is on the machine running this server. In HTTP mode the tool is only available when the server sets STELLIFY_MCP_FILES_ROOT, and output_dir must stay inside it.
+
+Also available from the command line: stellify-mcp export <output-dir> [--force]`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        output_dir: {
+          type: 'string',
+          description: 'Local directory to export into (created if missing)',
+        },
+        force: {
+          type: 'boolean',
+          description: 'Rewrite every file even if unchanged since the last export (default: false)',
+        },
+      },
+      required: ['output_dir'],
+    },
+  },
+  {
+    name: 'import_directory',
+    description: `Import an existing local Laravel/Vue project folder into the active Stellify project.
+
+Scans the folder for .php classes and .vue SFCs (skipping vendor, node_modules, storage, bootstrap, public) and replays each file through the normal workflow:
+1. create_file - type inferred from path/namespace (controller, model, middleware, class, or js for .vue)
+2. create_statement + add_statement_code - class properties/traits/constants, or <script setup> imports and refs
+3. create_method + add_method_body - one per PHP method or top-level JS function
+4. html_to_elements - the Vue <template>
+5. save_file - wires data/statements/template together
+
+Files are placed in the matching project directory (controllers, models, middleware, js, ...), which is created if missing. "use" statements become the file's includes.
+
+Use dry_run first to see what would be created. Progress is journalled after every step to ~/.stellify-mcp/imports on the server (one journal per folder, project and branch; the source folder is never written to); running the import again resumes after a partial failure and skips files already imported.
+
+What a file loses on import (extends/implements clauses, comments and docblocks outside method bodies, template comments, dropped event modifiers) is listed under "warnings".
+
+source_dir is on the machine running this server. In HTTP mode the tool is only available when the server sets STELLIFY_MCP_FILES_ROOT, and source_dir must stay inside it.
+
+Also available from the command line: stellify-mcp import <source-dir> [--dry-run] [--module <name>]`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        source_dir: {
+          type: 'string',
+          description: 'Local folder containing the Laravel/Vue project to import',
+        },
+        dry_run: {
+          type: 'boolean',
+          description: 'If true, report the files, methods and statements that would be created without calling the API',
+        },
+        module: {
+          type: 'string',
+          description: 'Optional module name to group the imported files under',
+        },
+      },
+      required: ['source_dir'],
+    },
+  },
+  {
+    name: 'get_directory',
+    description: `Get a directory by UUID to see its contents.
+
+Use this to inspect directories returned by get_project. The project's data array contains directory UUIDs.
+Returns the directory name and list of files/subdirectories inside it.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        uuid: {
+          type: 'string',
+          description: 'The UUID of the directory to retrieve',
+        },
+      },
+      required: ['uuid'],
+    },
+  },
+  {
+    name: 'create_directory',
+    description: `Create a new directory for organizing files.
+
+Common directories:
+- 'js' for JavaScript/Vue files
+- 'css' for stylesheets
+- 'components' for reusable components
+
+IMPORTANT: Check existing directories first using get_project and get_directory before creating new ones.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Directory name (e.g., "js", "css", "components")',
+        },
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'broadcast_element_command',
+    description: `Broadcast a real-time command to update UI elements via WebSocket.
+
+IMPORTANT: USE THIS TOOL FIRST when the user asks you to:
+- Show, display, or demonstrate something visually
+- Update, change, or modify what's on screen
+- Build or create UI elements for demonstration
+- Send messages or content to the browser
+- Do anything "live" or "in real-time"
+
+This is the PRIMARY tool for real-time AI-to-browser communication. It pushes changes instantly to all connected browsers. Changes are EPHEMERAL (not saved to database) - perfect for demonstrations, live content, and interactive sessions.
+
+ACTIONS:
+- update: Modify an existing element's attributes (text, classes, styles, etc.)
+- create: Create a new ephemeral element (provide any UUID string you want)
+- batch: Modify multiple elements at once
+- delete: Remove an element from the UI state
+
+TO CREATE EPHEMERAL ELEMENTS (not stored in database):
+1. First, use action="create" with any UUID (e.g., "msg-001") and full element structure in changes
+2. Then, use action="update" on the PARENT element to add your new UUID to its "data" array
+
+Example - Update existing element text:
+{ action: "update", element: "existing-uuid", changes: { text: "Hello world!", classes: ["p-4", "bg-blue-500"] } }
+
+Example - Create ephemeral child element:
+Step 1: { action: "create", element: "my-new-element", changes: { type: "s-wrapper", tag: "div", text: "I exist!", classes: ["p-2", "bg-green-500"] } }
+Step 2: { action: "update", element: "parent-uuid", changes: { data: ["my-new-element"] } }
+
+For PERSISTENT changes (saved to database), use update_element or html_to_elements instead.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['update', 'batch', 'delete', 'create'],
+          description: 'The type of command to broadcast',
+        },
+        element: {
+          type: 'string',
+          description: 'UUID of the element to modify (required for update, delete, create)',
+        },
+        changes: {
+          type: 'object',
+          description: 'Object containing attribute changes (e.g., { classes: ["bg-blue-500"], text: "Hello" })',
+        },
+        updates: {
+          type: 'array',
+          description: 'Array of updates for batch action: [{ element: "uuid", changes: {...} }]',
+          items: {
+            type: 'object',
+            properties: {
               element: { type: 'string' },
               changes: { type: 'object' },
             },
@@ -1276,6 +1861,151 @@ The response includes actionable suggestions like:
   },
 ];
 
+// Tools with their own preview flag; a dry run sets it instead of recording requests
+const NATIVE_DRY_RUN: Record<string, string> = {
+  import_directory: 'dry_run',
+  html_to_elements: 'test',
+};
+
+// Every mutating tool accepts dry_run, and tools that need confirmation accept confirm
+for (const tool of tools) {
+  const properties: Record<string, object> = {};
+  if (MUTATING_TOOLS.has(tool.name) && !tool.inputSchema.properties?.dry_run) {
+    properties.dry_run = {
+      type: 'boolean',
+      description: 'Validate and return the API requests this call would send, and their effects, without changing anything',
+    };
+  }
+  if (decide(POLICY, tool.name).action === 'confirm') {
+    properties.confirm = {
+      type: 'boolean',
+      description: 'This tool needs the user\'s confirmation. If the client cannot ask, ask the user yourself and pass true once they agree',
+    };
+  }
+  if (Object.keys(properties).length > 0) {
+    tool.inputSchema = { ...tool.inputSchema, properties: { ...tool.inputSchema.properties, ...properties } };
+  }
+}
+
+// Catch typos in the policy: every pattern should match at least one tool
+for (const pattern of [...POLICY.allow, ...POLICY.deny, ...POLICY.confirm]) {
+  if (!tools.some((tool) => matchesTool(pattern, tool.name))) {
+    console.error(`Warning: policy entry "${pattern}" does not match any tool`);
+  }
+}
+
+// =============================================================================
+// MCP RESOURCES
+// =============================================================================
+// Read-only views of project structure, so clients can attach context without
+// spending tool calls on get_project, get_file, get_method or get_element_tree.
+
+const RESOURCE_SCHEME = 'stellify://';
+
+const resourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: 'stellify://project',
+    name: 'project',
+    description: 'The active Stellify project, including its directories and branch info',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'stellify://directory/{uuid}',
+    name: 'directory',
+    description: 'A directory and the files/subdirectories inside it',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'stellify://file/{uuid}',
+    name: 'file',
+    description: 'A file with its metadata, methods (data), statements, template and includes',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'stellify://method/{uuid}',
+    name: 'method',
+    description: 'A method with its signature, parameter clauses and body statements',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'stellify://element/{uuid}/tree',
+    name: 'element-tree',
+    description: 'An element with all of its descendants as a hierarchical tree',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'stellify://route/{uuid}',
+    name: 'route',
+    description: 'A route/page with its path, type and attached elements',
+    mimeType: 'application/json',
+  },
+];
+
+// The read tool whose policy decision a resource follows, by the URI's first segment
+const RESOURCE_TOOLS: Record<string, string> = {
+  project: 'get_project',
+  directory: 'get_directory',
+  file: 'get_file',
+  method: 'get_method',
+  element: 'get_element_tree',
+  route: 'get_route',
+};
+
+// Works on resource URIs and URI templates alike
+function resourceTool(uri: string): string | undefined {
+  return uri.startsWith(RESOURCE_SCHEME) ? RESOURCE_TOOLS[uri.slice(RESOURCE_SCHEME.length).split('/')[0]] : undefined;
+}
+
+// Refuse a resource read the policy denies to its read tool; confirm-required ones need the user's answer
+async function authorizeResourceRead(session: ToolSession, uri: string) {
+  const tool = resourceTool(uri);
+  if (!tool) return;
+  const decision = decide(POLICY, tool);
+  if (decision.action === 'deny') {
+    throw new ToolPolicyError(tool, decision.reason);
+  }
+  if (decision.action === 'confirm') {
+    const answer = session.confirm ? await session.confirm(`Allow ${tool} to read ${uri}?`) : undefined;
+    if (answer === false) {
+      throw new ToolPolicyError(tool, 'the user declined to run it');
+    }
+    if (answer === undefined) {
+      throw new ToolPolicyError(tool, `it needs the user's confirmation. Ask the user, then call ${tool} with confirm: true instead`);
+    }
+  }
+}
+
+// Fetch the entity behind a stellify:// URI using the matching client getter
+async function readResource(stellify: StellifyClient, uri: string): Promise<any> {
+  if (!uri.startsWith(RESOURCE_SCHEME)) {
+    throw new Error(`Unsupported resource URI: ${uri}`);
+  }
+
+  const segments = uri.slice(RESOURCE_SCHEME.length).split('/').filter(Boolean);
+  const [kind, uuid, suffix] = segments;
+
+  if (kind === 'project' && segments.length === 1) {
+    return stellify.getProject();
+  }
+  if (kind === 'directory' && uuid && segments.length === 2) {
+    return stellify.getDirectory(uuid);
+  }
+  if (kind === 'file' && uuid && segments.length === 2) {
+    return stellify.getFile(uuid);
+  }
+  if (kind === 'method' && uuid && segments.length === 2) {
+    return stellify.getMethod(uuid);
+  }
+  if (kind === 'element' && uuid && suffix === 'tree' && segments.length === 3) {
+    return stellify.getElementTree(uuid);
+  }
+  if (kind === 'route' && uuid && segments.length === 2) {
+    return stellify.getRoute(uuid);
+  }
+
+  throw new Error(`Unknown resource: ${uri}`);
+}
+
 // Server instructions for tool discovery (used by MCP Tool Search)
 const SERVER_INSTRUCTIONS = `Stellify is a coding platform where you code alongside AI on a codebase maintained and curated by AI. Build Laravel/PHP and Vue.js applications.
 
@@ -1331,654 +2061,1371 @@ Modules are auto-created if they don't exist. This helps users see all code rela
 
 Example module names: "user-auth", "blog-posts", "product-catalog", "order-management", "admin-dashboard"`;
 
-// Create MCP server
-const server = new Server(
-  {
-    name: 'stellify-mcp',
-    version: '0.1.0',
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-    instructions: SERVER_INSTRUCTIONS,
+// Branch names from list_branches
+async function branchNames(stellify: StellifyClient): Promise<string[]> {
+  return (await stellify.listBranches()).map((branch) => branch.name);
+}
+
+// The session's branch, otherwise the project's current branch
+async function currentBranch(stellify: StellifyClient): Promise<string | null> {
+  if (stellify.selectedBranch) return stellify.selectedBranch;
+  return (await stellify.getProject()).project.branch || null;
+}
+
+// Execute a single tool call. Errors are thrown; the request handler turns them into tool results.
+async function handleToolCall(session: ToolSession, name: string, args: any): Promise<any> {
+  const decision = decide(POLICY, name);
+  if (decision.action === 'deny') {
+    throw new ToolPolicyError(name, decision.reason);
+  }
+  const tool = tools.find((entry) => entry.name === name);
+  if (tool) {
+    assertValidArguments(name, tool.inputSchema as JsonSchema, args);
+  }
+  if (LOCAL_FILE_TOOLS[name]) {
+    args = { ...args, [LOCAL_FILE_TOOLS[name]]: localPath(session, name, args[LOCAL_FILE_TOOLS[name]]) };
+  }
+  const dryRun = MUTATING_TOOLS.has(name) && (DRY_RUN || args.dry_run === true || !!session.plan);
+  if (decision.action === 'confirm' && !dryRun) {
+    await confirmToolCall(session, name, args);
+  }
+  if (args.confirm !== undefined) {
+    const { confirm: _confirm, ...toolArgs } = args;
+    args = toolArgs;
   }
-);
 
-// Handle tool list requests
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools };
-});
+  const flag = NATIVE_DRY_RUN[name];
+  if (dryRun) {
+    if (flag) {
+      return runTool(session, name, { ...args, [flag]: true });
+    }
+    if (!session.plan) {
+      return dryRunToolCall(session, name, args);
+    }
+  }
+  if (!flag && args.dry_run !== undefined) {
+    const { dry_run: _dryRun, ...toolArgs } = args;
+    args = toolArgs;
+  }
+  return session.history.record(session.stellify, name, args, () => runTool(session, name, args));
+}
 
-// Handle tool execution
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+// A local file tool's path, resolved against the session's files root and refused if it leaves it
+function localPath(session: ToolSession, name: string, value: string): string {
+  if (session.filesRoot === null) {
+    throw new ToolPolicyError(name, 'the server\'s filesystem is not available over HTTP unless STELLIFY_MCP_FILES_ROOT is set');
+  }
+  if (session.filesRoot === undefined) {
+    return value;
+  }
+  const resolved = path.resolve(session.filesRoot, value);
+  const relative = path.relative(session.filesRoot, resolved);
+  if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new ToolInputError(name, [{
+      path: LOCAL_FILE_TOOLS[name],
+      expected: `path under ${session.filesRoot}`,
+      received: value,
+      message: 'must stay inside STELLIFY_MCP_FILES_ROOT',
+    }]);
+  }
+  return resolved;
+}
 
-  if (!args) {
-    throw new Error('Arguments are required');
+// Ask the user through the client if it supports elicitation; otherwise require confirm: true
+async function confirmToolCall(session: ToolSession, name: string, args: any) {
+  const summary = JSON.stringify(args, (key, value) => (key === 'confirm' ? undefined : value));
+  const answer = session.confirm
+    ? await session.confirm(`Allow ${name}? ${summary.length > 500 ? `${summary.slice(0, 500)}...` : summary}`)
+    : undefined;
+  if (answer === false) {
+    throw new ToolPolicyError(name, 'the user declined to run it');
   }
+  if (answer === undefined && args.confirm !== true) {
+    throw new ToolPolicyError(name, 'it needs the user\'s confirmation. Ask the user, then call it again with confirm: true');
+  }
+}
 
+// Run a mutating tool against a client that records its writes, and report those instead of its result
+async function dryRunToolCall(session: ToolSession, name: string, args: any): Promise<any> {
+  const { dry_run: _dryRun, ...toolArgs } = args;
+  const plan = new DryRunPlan();
+  const preview = await runTool(
+    { stellify: session.stellify.forDryRun(plan), history: session.history.preview(), audit: session.audit, plan },
+    name,
+    toolArgs
+  );
+  const text = preview?.content?.[0]?.text;
+  let result: any = text;
   try {
-    switch (name) {
-      case 'get_project': {
-        const result = await stellify.getProject();
-        const projectData = result.data || result;
-        const projectMeta = projectData.project || {};
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: `Active project: "${projectMeta.name || 'unknown'}" (${projectMeta.uuid || 'unknown'})`,
-                project: projectData,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+    result = JSON.parse(text);
+  } catch {
+    // Not JSON; show the text as is
+  }
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({
+          success: true,
+          dry_run: true,
+          message: `Dry run: ${plan.requests.length} request(s) would be sent; nothing was changed`,
+          effects: plan.effects,
+          requests: plan.requests,
+          preview: result,
+        }, null, 2),
+      },
+    ],
+  };
+}
 
-      case 'create_file': {
-        const result = await stellify.createFile(args as any);
-        const fileData = result.data || result;
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: `Created file "${(args as any).name}" (UUID: ${fileData.uuid})`,
-                file: fileData,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+async function runTool(session: ToolSession, name: string, args: any): Promise<any> {
+  const { stellify, history, audit } = session;
+
+  switch (name) {
+    case 'get_project': {
+      const project = await stellify.getProject();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `${stellify.selectedProject ? 'Selected' : 'Active'} project: "${project.project.name || 'unknown'}" (${project.project.uuid})`,
+              project,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'create_method': {
-        const result = await stellify.createMethod(args as any);
-        const methodData = result.data || result;
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: `Created method "${(args as any).name}" (UUID: ${methodData.uuid})`,
-                method: methodData,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+    case 'list_projects': {
+      const projects = await stellify.listProjects();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `${projects.length} project(s) available`,
+              selected: stellify.selectedProject,
+              projects: projects.map((project) => ({ ...project, selected: project.uuid === stellify.selectedProject })),
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'save_method': {
-        const { uuid, ...data } = args as any;
-        const result = await stellify.saveMethod(uuid, { uuid, ...data });
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: `Updated method "${uuid}"`,
-                method: result,
-              }, null, 2),
-            },
-          ],
-        };
+    case 'use_project': {
+      const { project } = args as any;
+      const projects = await stellify.listProjects();
+      const match = projects.find((entry) => entry.uuid === project)
+        || projects.find((entry) => typeof entry.name === 'string' && entry.name.toLowerCase() === String(project).toLowerCase());
+      if (!match) {
+        throw new Error(`No project matches "${project}". Available: ${projects.map((entry) => `${entry.name} (${entry.uuid})`).join(', ') || 'none'}`);
       }
+      stellify.useProject(match.uuid);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Using project "${match.name}" (${match.uuid}) for this session`,
+              project: match,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'add_method_body': {
-        const result = await stellify.addMethodBody(args as any);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: 'Method body parsed and saved successfully',
-                data: result,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+    case 'list_branches': {
+      const branches = await branchNames(stellify);
+      const current = await currentBranch(stellify);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `${branches.length} branch(es), current: ${current || 'unknown'}`,
+              current,
+              branches: branches.map((branch) => ({ name: branch, current: branch === current })),
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'search_methods': {
-        const result = await stellify.searchMethods(args as any);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                results: result,
-              }, null, 2),
-            },
-          ],
-        };
+    case 'switch_branch': {
+      const { branch } = args as any;
+      const branches = await branchNames(stellify);
+      if (!branches.includes(branch)) {
+        throw new Error(`No branch named "${branch}". Available: ${branches.join(', ') || 'none'}`);
       }
+      stellify.useBranch(branch);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Using branch "${branch}" for this session`,
+              branch,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'search_files': {
-        const result = await stellify.searchFiles(args as any);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                results: result,
-              }, null, 2),
-            },
-          ],
-        };
+    case 'create_branch': {
+      const { name: branch, from, switch: switchTo } = args as any;
+      const result = await stellify.createBranch({ name: branch, from: from || (await currentBranch(stellify)) || undefined });
+      if (switchTo) {
+        stellify.useBranch(branch);
       }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Created branch "${branch}"${switchTo ? ' and switched this session to it' : ''}`,
+              branch: result,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'create_route': {
-        const result = await stellify.createRoute(args as any);
-        const routeData = result.data || result;
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: `Created route "${(args as any).name}" at ${(args as any).path} (UUID: ${routeData.uuid}). Use this UUID for html_to_elements page parameter.`,
-                route: routeData,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+    case 'diff_branches': {
+      const { base, head } = args as any;
+      const diff = await stellify.diffBranches(base, head);
+      const { added, removed, modified, unchanged } = diff.files;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: diff.errors.length === 0,
+              message: `${base}..${head}: ${added.length} file(s) added, ${removed.length} removed, ${modified.length} modified, ${unchanged} unchanged`,
+              ...diff,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'get_route': {
-        const result = await stellify.getRoute((args as any).uuid);
-        const routeData = result.data || result;
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: `Route: "${routeData.name}" at ${routeData.path}`,
-                route: routeData,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+    case 'create_file': {
+      const file = await stellify.createFile(args as any);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Created file "${(args as any).name}" (UUID: ${file.uuid})`,
+              file,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'search_routes': {
-        const result = await stellify.searchRoutes(args as any);
-        const routes = result.data || result;
-        // Handle paginated response - data.data contains the actual routes array
-        const routeData = routes.data || routes;
-        const routeCount = Array.isArray(routeData) ? routeData.length : routes.total || 0;
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: `Found ${routeCount} routes`,
-                routes: routes,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+    case 'create_method': {
+      const method = await stellify.createMethod(args as any);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Created method "${(args as any).name}" (UUID: ${method.uuid})`,
+              method,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'create_element': {
-        const result = await stellify.createElement(args as any);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: `Created element of type "${(args as any).type}"`,
-                element: result,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+    case 'save_method': {
+      const { uuid, ...data } = args as any;
+      const result = await stellify.saveMethod(uuid, { uuid, ...data });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Updated method "${uuid}"`,
+              method: result,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'update_element': {
-        const { uuid, data } = args as any;
-        const result = await stellify.updateElement(uuid, data);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: `Updated element ${uuid}`,
-                element: result,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+    case 'add_method_body': {
+      const result = await stellify.addMethodBody(args as any);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: 'Method body parsed and saved successfully',
+              data: result,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'get_element': {
-        const { uuid } = args as any;
-        const result = await stellify.getElement(uuid);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                element: result,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+    case 'search_methods': {
+      const result = await stellify.search('methods', args as any);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: describeSearch('methods', result),
+              results: result.items,
+              pagination: result.pagination,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'get_element_tree': {
-        const { uuid } = args as any;
-        const result = await stellify.getElementTree(uuid);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: `Retrieved element tree for ${uuid}`,
-                tree: result,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+    case 'search_files': {
+      const result = await stellify.search('files', args as any);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: describeSearch('files', result),
+              results: result.items,
+              pagination: result.pagination,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'delete_element': {
-        const { uuid } = args as any;
-        const result = await stellify.deleteElement(uuid);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: `Deleted element ${uuid} and ${result.deleted_count} total elements`,
-                deleted_count: result.deleted_count,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+    case 'search_library': {
+      const result = await stellify.search('library', args as any);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: describeSearch('library files', result),
+              results: result.items,
+              pagination: result.pagination,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'search_elements': {
-        const result = await stellify.searchElements(args as any);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: `Found ${result.data.length} elements`,
-                elements: result.data,
-                pagination: result.pagination,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+    case 'clone_library_file': {
+      const result = await stellify.cloneLibraryFile(args as any);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Cloned library file ${result.source} as "${result.name}" (UUID: ${result.file}) with ${result.statements.length} statements, ${Object.keys(result.methods).length} methods and ${result.template.length} template roots`,
+              ...result,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'html_to_elements': {
-        const result = await stellify.htmlToElements(args as any);
-        const elementCount = Object.keys(result.data || {}).length;
-        const testMode = (args as any).test ? ' (TEST MODE - not created)' : '';
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: `Converted HTML to ${elementCount} elements${testMode}`,
-                elements: result.data,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+    case 'create_route': {
+      const route = await stellify.createRoute(args as any);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Created route "${(args as any).name}" at ${(args as any).path} (UUID: ${route.uuid}). Use this UUID for html_to_elements page parameter.`,
+              route,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      // Statement & File Management handlers
-      case 'get_statement': {
-        const result = await stellify.getStatement((args as any).uuid);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: `Statement retrieved`,
-                statement: result.statement || result,
-                clauses: result.clauses || null,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+    case 'get_route': {
+      const route = await stellify.getRoute((args as any).uuid);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Route: "${route.name}" at ${route.path}`,
+              route,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'create_statement': {
-        const result = await stellify.createStatement(args as any);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: `Created statement (${result.data?.uuid || result.uuid})`,
-                statement: result.data || result,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+    case 'search_routes': {
+      const result = await stellify.search('routes', args as any);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: describeSearch('routes', result),
+              routes: result.items,
+              pagination: result.pagination,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'add_statement_code': {
-        const result = await stellify.addStatementCode(args as any);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: 'Statement code added successfully',
-                data: result,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+    case 'create_element': {
+      const result = await stellify.createElement(args as any);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Created element of type "${(args as any).type}"`,
+              element: result,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'save_file': {
-        const { uuid, ...data } = args as any;
-        const result = await stellify.saveFile(uuid, { uuid, ...data });
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: `Saved file "${data.name || uuid}"`,
-                file: result,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+    case 'update_element': {
+      const { uuid, data } = args as any;
+      const result = await stellify.updateElement(uuid, data);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Updated element ${uuid}`,
+              element: result,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'get_file': {
-        const { uuid } = args as any;
-        const result = await stellify.getFile(uuid);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                file: result,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+    case 'get_element': {
+      const { uuid } = args as any;
+      const result = await stellify.getElement(uuid);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              element: result,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'get_directory': {
-        const result = await stellify.getDirectory((args as any).uuid);
-        const dirData = result.data || result;
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: `Directory: "${dirData.name}" (${dirData.uuid})`,
-                directory: dirData,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+    case 'get_element_tree': {
+      const { uuid } = args as any;
+      const result = await stellify.getElementTree(uuid);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Retrieved element tree for ${uuid}`,
+              tree: result,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'create_directory': {
-        const result = await stellify.createDirectory(args as any);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: result.existing
-                  ? `Using existing directory "${(args as any).name}" (${result.data?.uuid || result.uuid})`
-                  : `Created directory "${(args as any).name}" (${result.data?.uuid || result.uuid})`,
-                directory: result.data || result,
-                existing: result.existing || false,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+    case 'delete_element': {
+      const { uuid } = args as any;
+      const result = await stellify.deleteElement(uuid);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Deleted element ${uuid} and ${result.deleted_count} total elements`,
+              deleted_count: result.deleted_count,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'broadcast_element_command': {
-        const result = await stellify.broadcastElementCommand(args as any);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: `Broadcast ${(args as any).action} command${(args as any).element ? ` for element ${(args as any).element}` : ''}`,
-                data: result,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+    case 'delete_file':
+    case 'delete_method':
+    case 'delete_statement':
+    case 'delete_route':
+    case 'delete_directory': {
+      const { uuid, force, cascade } = args as any;
+      const kind = name.replace('delete_', '') as DeletableKind;
+      const report = await stellify.deleteWithReferences(kind, uuid, { force, cascade });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: report.deleted,
+              message: report.deleted
+                ? `Deleted ${kind} ${uuid}` + (report.detached.length > 0 ? ` (detached ${report.detached.length} reference(s))` : '')
+                : `Refused to delete ${kind} ${uuid}: ${report.refused}`,
+              ...report,
+            }, null, 2),
+          },
+        ],
+        ...(report.deleted ? {} : { isError: true }),
+      };
+    }
 
-      case 'create_resources': {
-        const result = await stellify.createResources(args as any);
-        const data = result.data || result;
-        const stats = data.statistics || {};
+    case 'search_elements': {
+      const result = await stellify.search('elements', args as any);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: describeSearch('elements', result),
+              elements: result.items,
+              pagination: result.pagination,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-        // Build summary of what was created
-        const created = [];
-        if (data.model) created.push(`Model (${data.model.uuid})`);
-        if (data.controller) created.push(`Controller (${data.controller.uuid})`);
-        if (data.service) created.push(`Service (${data.service.uuid})`);
-        if (data.migration) created.push(`Migration (${data.migration.uuid})`);
+    case 'html_to_elements': {
+      const result = await stellify.htmlToElements(args as any);
+      const elementCount = Object.keys(result.data || {}).length;
+      const testMode = (args as any).test ? ' (TEST MODE - not created)' : '';
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Converted HTML to ${elementCount} elements${testMode}`,
+              elements: result.data,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: `Created ${(args as any).name} resource: ${created.join(', ')} (${stats.files || 0} files, ${stats.methods || 0} methods)`,
-                data: {
-                  name: data.name,
-                  model: data.model ? {
-                    uuid: data.model.uuid,
-                    name: data.model.name,
-                    namespace: data.model.namespace,
-                    methods: data.model.methods,
-                  } : null,
-                  controller: data.controller ? {
-                    uuid: data.controller.uuid,
-                    name: data.controller.name,
-                    namespace: data.controller.namespace,
-                    methods: data.controller.methods,
-                  } : null,
-                  service: data.service ? {
-                    uuid: data.service.uuid,
-                    name: data.service.name,
-                    namespace: data.service.namespace,
-                    methods: data.service.methods,
-                  } : null,
-                  migration: data.migration ? {
-                    uuid: data.migration.uuid,
-                    name: data.migration.name,
-                    table: data.migration.table,
-                  } : null,
-                  statistics: stats,
-                },
-              }, null, 2),
-            },
-          ],
-        };
-      }
+    case 'create_vue_component': {
+      const result = await stellify.createVueComponent(args as any);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Created Vue component "${result.name}" (UUID: ${result.file}) with ${result.statements.length} statements, ${Object.keys(result.methods).length} methods, ${result.elements.length} elements and ${result.events.length} wired events`,
+              ...result,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'run_code': {
-        const result = await stellify.runCode(args as any);
-        const benchmarkInfo = (args as any).benchmark
-          ? ` (${result.execution_time || 'N/A'}ms, ${result.memory_usage || 'N/A'})`
-          : '';
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: result.success !== false,
-                message: result.success !== false
-                  ? `Code executed successfully${benchmarkInfo}`
-                  : `Execution failed: ${result.error || 'Unknown error'}`,
-                output: result.output,
-                error: result.error,
-                execution_time: result.execution_time,
-                memory_usage: result.memory_usage,
-              }, null, 2),
-            },
-          ],
-        };
+    case 'batch': {
+      const { operations, rollback } = args as any;
+      const report = await stellify.runBatch((tool, toolArgs) => handleToolCall(session, tool, toolArgs), operations || [], { rollback });
+      const failed = report.steps.find((step) => step.status === 'failed');
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              message: report.success
+                ? `Batch completed: ${report.steps.length} operation(s)`
+                : `Batch failed at operation ${failed?.index} (${failed?.tool}): ${failed?.error}. Rolled back ${report.rolled_back.filter((entry) => entry.status === 'deleted').length} created entit(ies)`,
+              ...report,
+            }, null, 2),
+          },
+        ],
+        ...(report.success ? {} : { isError: true }),
+      };
+    }
+
+    // Statement & File Management handlers
+    case 'get_statement': {
+      const { clauses, ...statement } = await stellify.getStatement((args as any).uuid);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Statement retrieved`,
+              statement,
+              clauses: clauses || null,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'create_statement': {
+      const statement = await stellify.createStatement(args as any);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Created statement (${statement.uuid})`,
+              statement,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'add_statement_code': {
+      const result = await stellify.addStatementCode(args as any);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: 'Statement code added successfully',
+              data: result,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'save_file': {
+      const { uuid, on_dropped_references: onDropped = 'warn', ...data } = args as any;
+      const dropped = onDropped === 'ignore'
+        ? []
+        : (await stellify.diffEntity('file', uuid, { proposed: { uuid, ...data } })).dropped;
+      if (dropped.length > 0 && onDropped === 'error') {
+        throw new Error(`Not saved: the payload drops ${dropped.length} existing reference(s): ${dropped.map(({ field, uuid: ref }) => `${field}:${ref}`).join(', ')}. Fetch the file with get_file and keep these UUIDs, or pass on_dropped_references: "warn" if removing them is intended.`);
       }
+      const result = await stellify.saveFile(uuid, { uuid, ...data });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Saved file "${data.name || uuid}"`,
+              ...(dropped.length > 0 && {
+                warnings: [`The save removed ${dropped.length} reference(s) the file had before; if that was not intended, save again with them restored`],
+                dropped,
+              }),
+              file: result,
+            }, null, 2),
+          },
+        ],
+      };
+    }
 
-      case 'request_capability': {
-        const result = await stellify.requestCapability(args as any);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: `Capability request logged: "${(args as any).capability}"`,
-                request_id: result.data?.uuid || result.uuid,
-                data: result.data || result,
-              }, null, 2),
-            },
-          ],
-        };
+    case 'patch_file': {
+      const { uuid, operations, expected_version } = args as any;
+      const report = await stellify.patchFile(uuid, operations, { expected_version });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Applied ${report.applied} operation(s) to file ${uuid}${report.attempts > 1 ? ` after ${report.attempts - 1} conflict(s)` : ''}`,
+              ...report,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'list_history': {
+      const { limit = 20 } = args as any;
+      const entries = history.entries().slice(-limit).reverse();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `${entries.length} recorded change(s)`,
+              history: entries.map(({ id, at, tool, kind, uuid, deleted, undone_at }) => ({ id, at, tool, kind, uuid, deleted, undone_at: undone_at || null })),
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'audit_log': {
+      const { limit, tool, outcome, uuid, since, session: scope } = args as any;
+      const entries = audit.query({ limit, tool, outcome: outcome as AuditOutcome | undefined, uuid, since, session: scope });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `${entries.length} audited call(s)`,
+              session: audit.session,
+              entries,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'undo_last':
+    case 'undo_to': {
+      const steps = name === 'undo_last'
+        ? await history.undoLast(stellify)
+        : await history.undoTo(stellify, (args as any).checkpoint);
+      const failed = steps.find((step) => !step.restored);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: !failed,
+              message: failed
+                ? `Restored ${steps.length - 1} change(s); could not undo #${failed.id} (${failed.tool} on ${failed.kind} ${failed.uuid}): ${failed.error}`
+                : steps.length > 0 ? `Restored ${steps.length} change(s)` : 'Nothing to undo',
+              steps,
+            }, null, 2),
+          },
+        ],
+        ...(failed ? { isError: true } : {}),
+      };
+    }
+
+    case 'diff_file':
+    case 'diff_method': {
+      const { uuid, proposed, snapshot } = args as any;
+      const diff = await stellify.diffEntity(name === 'diff_file' ? 'file' : 'method', uuid, { proposed, snapshot });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: diff.changed
+                ? `${Object.keys(diff.references).length} reference array(s) and ${diff.fields.length} field(s) differ; ${diff.dropped.length} reference(s) dropped`
+                : 'No differences',
+              ...diff,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'get_file': {
+      const { uuid } = args as any;
+      const { file, etag } = await stellify.getFileWithETag(uuid);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              version: fileVersion(file, etag),
+              file,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'render_file': {
+      const { uuid } = args as any;
+      const rendered = await stellify.renderFile(uuid);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: rendered.unrendered.length > 0
+                ? `Rendered ${rendered.filename} with ${rendered.unrendered.length} unrendered node(s)`
+                : `Rendered ${rendered.filename}`,
+              filename: rendered.filename,
+              language: rendered.language,
+              unrendered: rendered.unrendered,
+            }, null, 2),
+          },
+          {
+            type: 'text',
+            text: rendered.source,
+          },
+        ],
+      };
+    }
+
+    case 'export_project': {
+      const { output_dir, force } = args as any;
+      const report = await stellify.exportProject({ outputDir: output_dir, force });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: report.errors.length === 0,
+              message: `Exported to ${report.output_dir}: ${report.written.length} written, ${report.unchanged.length} unchanged, ${report.errors.length} error(s)`,
+              ...report,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'import_directory': {
+      const { source_dir, dry_run, module } = args as any;
+      const report = await stellify.importDirectory({ sourceDir: source_dir, dryRun: dry_run, module });
+      const message = report.dry_run
+        ? `Dry run: ${report.planned.length} file(s) would be imported, ${report.skipped.length} skipped`
+        : `Imported ${report.imported.length} file(s), ${report.skipped.length} skipped, ${report.errors.length} error(s)`;
+      const lost = report.warnings.length > 0 ? `; ${report.warnings.length} warning(s) about code not imported` : '';
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: report.errors.length === 0,
+              message: message + lost,
+              ...report,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'get_directory': {
+      const directory = await stellify.getDirectory((args as any).uuid);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Directory: "${directory.name}" (${directory.uuid})`,
+              directory,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'create_directory': {
+      const { existing, ...directory } = await stellify.createDirectory(args as any);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: existing
+                ? `Using existing directory "${(args as any).name}" (${directory.uuid})`
+                : `Created directory "${(args as any).name}" (${directory.uuid})`,
+              directory,
+              existing,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'broadcast_element_command': {
+      const result = await stellify.broadcastElementCommand(args as any);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Broadcast ${(args as any).action} command${(args as any).element ? ` for element ${(args as any).element}` : ''}`,
+              data: result,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'create_resources': {
+      const data = await stellify.createResources(args as any);
+      const stats = data.statistics || {};
+
+      // Build summary of what was created
+      const created = [];
+      if (data.model) created.push(`Model (${data.model.uuid})`);
+      if (data.controller) created.push(`Controller (${data.controller.uuid})`);
+      if (data.service) created.push(`Service (${data.service.uuid})`);
+      if (data.migration) created.push(`Migration (${data.migration.uuid})`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Created ${(args as any).name} resource: ${created.join(', ')} (${stats.files || 0} files, ${stats.methods || 0} methods)`,
+              data: {
+                name: data.name,
+                model: data.model ? {
+                  uuid: data.model.uuid,
+                  name: data.model.name,
+                  namespace: data.model.namespace,
+                  methods: data.model.methods,
+                } : null,
+                controller: data.controller ? {
+                  uuid: data.controller.uuid,
+                  name: data.controller.name,
+                  namespace: data.controller.namespace,
+                  methods: data.controller.methods,
+                } : null,
+                service: data.service ? {
+                  uuid: data.service.uuid,
+                  name: data.service.name,
+                  namespace: data.service.namespace,
+                  methods: data.service.methods,
+                } : null,
+                migration: data.migration ? {
+                  uuid: data.migration.uuid,
+                  name: data.migration.name,
+                  table: data.migration.table,
+                } : null,
+                statistics: stats,
+              },
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'run_code': {
+      const result = await stellify.runCode(args as any);
+      const benchmarkInfo = (args as any).benchmark
+        ? ` (${result.execution_time || 'N/A'}ms, ${result.memory_usage || 'N/A'})`
+        : '';
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: result.success !== false,
+              message: result.success !== false
+                ? `Code executed successfully${benchmarkInfo}`
+                : `Execution failed: ${result.error || 'Unknown error'}`,
+              output: result.output,
+              error: result.error,
+              execution_time: result.execution_time,
+              memory_usage: result.memory_usage,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'request_capability': {
+      const result = await stellify.requestCapability(args as any);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Capability request logged: "${(args as any).capability}"`,
+              request_id: result.uuid ?? null,
+              data: result,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'analyze_performance': {
+      const data: any = await stellify.analyzePerformance(args as any);
+      const analysisType = (args as any).type || 'full';
+
+      // Build message based on analysis type
+      let message = '';
+      if (analysisType === 'full') {
+        message = data.summary || `Analyzed ${data.analyzed_executions || 0} executions`;
+        if (data.issues?.length > 0) {
+          message += ` - Found ${data.issues.length} potential issue(s)`;
+        }
+      } else if (analysisType === 'slow_methods') {
+        const methods = data.slow_methods || data;
+        message = `Found ${Array.isArray(methods) ? methods.length : 0} slow methods`;
+      } else if (analysisType === 'high_query_methods') {
+        const methods = data.high_query_methods || data;
+        message = `Found ${Array.isArray(methods) ? methods.length : 0} methods with high query counts (potential N+1)`;
+      } else if (analysisType === 'high_memory_methods') {
+        const methods = data.high_memory_methods || data;
+        message = `Found ${Array.isArray(methods) ? methods.length : 0} methods with high memory usage`;
+      } else if (analysisType === 'failure_rates') {
+        const methods = data.failure_rates || data;
+        message = `Found ${Array.isArray(methods) ? methods.length : 0} methods with failures`;
+      } else if (analysisType === 'trend') {
+        const trend = data.trend || data;
+        message = `Performance trend: ${Array.isArray(trend) ? trend.length : 0} days of data`;
       }
 
-      case 'analyze_performance': {
-        const result = await stellify.analyzePerformance(args as any);
-        const data = result.data || result;
-        const analysisType = (args as any).type || 'full';
-
-        // Build message based on analysis type
-        let message = '';
-        if (analysisType === 'full') {
-          message = data.summary || `Analyzed ${data.analyzed_executions || 0} executions`;
-          if (data.issues?.length > 0) {
-            message += ` - Found ${data.issues.length} potential issue(s)`;
-          }
-        } else if (analysisType === 'slow_methods') {
-          const methods = data.slow_methods || data;
-          message = `Found ${Array.isArray(methods) ? methods.length : 0} slow methods`;
-        } else if (analysisType === 'high_query_methods') {
-          const methods = data.high_query_methods || data;
-          message = `Found ${Array.isArray(methods) ? methods.length : 0} methods with high query counts (potential N+1)`;
-        } else if (analysisType === 'high_memory_methods') {
-          const methods = data.high_memory_methods || data;
-          message = `Found ${Array.isArray(methods) ? methods.length : 0} methods with high memory usage`;
-        } else if (analysisType === 'failure_rates') {
-          const methods = data.failure_rates || data;
-          message = `Found ${Array.isArray(methods) ? methods.length : 0} methods with failures`;
-        } else if (analysisType === 'trend') {
-          const trend = data.trend || data;
-          message = `Performance trend: ${Array.isArray(trend) ? trend.length : 0} days of data`;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message,
+              analysis_type: analysisType,
+              data,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'analyze_quality': {
+      const data: any = await stellify.analyzeQuality(args as any);
+      const analysisType = (args as any).type || 'full';
+
+      // Build message based on analysis type
+      let message = '';
+      const issues = data.issues || [];
+
+      if (analysisType === 'full') {
+        const summary = data.summary || {};
+        message = `Analyzed ${summary.models_analyzed || 0} models, ${summary.controllers_analyzed || 0} controllers`;
+        if (summary.total_issues > 0) {
+          message += ` - Found ${summary.total_issues} issue(s): ${summary.high_severity || 0} high, ${summary.medium_severity || 0} medium, ${summary.low_severity || 0} low`;
+        } else {
+          message += ' - No issues found';
         }
+      } else {
+        message = `Found ${issues.length} ${analysisType} issue(s)`;
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message,
+              analysis_type: analysisType,
+              data,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
+
+// Create an MCP server with every handler registered, acting for one API
+// client. stdio uses one; HTTP mode creates one per session.
+function createServer({ stellify, history, audit, filesRoot }: Pick<ToolSession, 'stellify' | 'history' | 'audit' | 'filesRoot'>): Server {
+  const server = new Server(
+    {
+      name: 'stellify-mcp',
+      version: '0.1.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+      },
+      instructions: SERVER_INSTRUCTIONS,
+    }
+  );
+
+  // Tools the policy denies, and local file tools when they are off, are not offered
+  const allowed = (tool: string) => decide(POLICY, tool).action !== 'deny' && !(filesRoot === null && LOCAL_FILE_TOOLS[tool]);
+
+  // Handle tool list requests
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools: tools.filter((tool) => allowed(tool.name)) };
+  });
+
+  const session: ToolSession = {
+    stellify,
+    history,
+    audit,
+    filesRoot,
+    // Confirmation prompts for tools the policy marks as confirm-required
+    confirm: async (message: string) => {
+      if (!server.getClientCapabilities()?.elicitation?.form) return undefined;
+      const result = await server.elicitInput({ message, requestedSchema: { type: 'object', properties: {} } });
+      return result.action === 'accept';
+    },
+  };
+
+  // Handle tool execution
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args = {} } = request.params;
+    const dryRun = MUTATING_TOOLS.has(name) && (DRY_RUN || args.dry_run === true);
 
+    try {
+      return await audit.record(name, args, dryRun, () => handleToolCall(session, name, args));
+    } catch (error: any) {
+      if (error instanceof ToolPolicyError) {
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
-                success: true,
-                message,
-                analysis_type: analysisType,
-                data,
+                success: false,
+                error: error.message,
+                refused: error.reason,
               }, null, 2),
             },
           ],
+          isError: true,
         };
       }
-
-      case 'analyze_quality': {
-        const result = await stellify.analyzeQuality(args as any);
-        const data = result.data || result;
-        const analysisType = (args as any).type || 'full';
-
-        // Build message based on analysis type
-        let message = '';
-        const issues = data.issues || [];
-
-        if (analysisType === 'full') {
-          const summary = data.summary || {};
-          message = `Analyzed ${summary.models_analyzed || 0} models, ${summary.controllers_analyzed || 0} controllers`;
-          if (summary.total_issues > 0) {
-            message += ` - Found ${summary.total_issues} issue(s): ${summary.high_severity || 0} high, ${summary.medium_severity || 0} medium, ${summary.low_severity || 0} low`;
-          } else {
-            message += ' - No issues found';
-          }
-        } else {
-          message = `Found ${issues.length} ${analysisType} issue(s)`;
-        }
-
+      if (error instanceof ToolInputError || error instanceof ResponseShapeError) {
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
-                success: true,
-                message,
-                analysis_type: analysisType,
-                data,
+                success: false,
+                error: error.message,
+                issues: error.issues,
               }, null, 2),
             },
           ],
+          isError: true,
         };
       }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: false,
+              error: error.message,
+              details: error.response?.data || error.toString(),
+            }, null, 2),
+          },
+        ],
+        isError: true,
+      };
+    }
+  });
 
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+  // Handle resource list requests - the project plus each of its directories, as far as the policy allows reading them
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    if (!allowed(RESOURCE_TOOLS.project)) {
+      return { resources: [] };
     }
-  } catch (error: any) {
+    const { project, directories } = await stellify.getProject();
+
+    const resources: Resource[] = [
+      {
+        uri: 'stellify://project',
+        name: project.name ? `Project: ${project.name}` : 'Active project',
+        mimeType: 'application/json',
+      },
+      ...(allowed(RESOURCE_TOOLS.directory) ? directories || [] : []).map((directory) => ({
+        uri: `stellify://directory/${directory.uuid}`,
+        name: `Directory: ${directory.name || directory.uuid}`,
+        mimeType: 'application/json',
+      })),
+    ];
+
+    return { resources };
+  });
+
+  // Handle resource template requests; templates whose read tool is denied are not offered
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: resourceTemplates.filter((template) => allowed(resourceTool(template.uriTemplate)!)) };
+  });
+
+  // Handle resource reads
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    await authorizeResourceRead(session, uri);
+    const entity = await readResource(stellify, uri);
     return {
-      content: [
+      contents: [
         {
-          type: 'text',
-          text: JSON.stringify({
-            success: false,
-            error: error.message,
-            details: error.response?.data || error.toString(),
-          }, null, 2),
+          uri,
+          mimeType: 'application/json',
+          text: JSON.stringify(entity, null, 2),
         },
       ],
-      isError: true,
     };
+  });
+
+  // Handle prompt list requests; prompts that need a denied tool are not offered
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: listPrompts(allowed) };
+  });
+
+  // Handle prompt requests - the workflow steps with the arguments filled in
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getPrompt(request.params.name, request.params.arguments, allowed);
+  });
+
+  return server;
+}
+
+// CLI: stellify-mcp export <output-dir> [--force]
+async function runExport(argv: string[]) {
+  const stellify = defaultClient();
+  const outputDir = argv.find((arg) => !arg.startsWith('--'));
+  if (!outputDir) {
+    console.error('Usage: stellify-mcp export <output-dir> [--force]');
+    process.exit(1);
+  }
+
+  const report = await stellify.exportProject({ outputDir, force: argv.includes('--force') });
+  console.error(`Exported to ${report.output_dir}`);
+  console.error(`  written:   ${report.written.length}`);
+  console.error(`  unchanged: ${report.unchanged.length}`);
+  report.stale.forEach((stale) => console.error(`  stale:     ${stale}`));
+  report.unrendered.forEach((entry) => console.error(`  unrendered nodes in ${entry.path}: ${entry.count}`));
+  report.errors.forEach((entry) => console.error(`  error:     ${entry.uuid}: ${entry.error}`));
+
+  if (report.errors.length > 0) {
+    process.exit(1);
+  }
+}
+
+// CLI: stellify-mcp import <source-dir> [--dry-run] [--module <name>]
+async function runImport(argv: string[]) {
+  const stellify = defaultClient();
+  const moduleIndex = argv.indexOf('--module');
+  const module = moduleIndex !== -1 ? argv[moduleIndex + 1] : undefined;
+  const sourceDir = argv.find((arg, index) => !arg.startsWith('--') && index !== moduleIndex + 1);
+  if (!sourceDir) {
+    console.error('Usage: stellify-mcp import <source-dir> [--dry-run] [--module <name>]');
+    process.exit(1);
   }
-});
+
+  const report = await stellify.importDirectory({ sourceDir, dryRun: argv.includes('--dry-run'), module });
+  if (report.dry_run) {
+    report.planned.forEach((plan) => {
+      console.error(`  ${plan.path} → ${plan.type} ${plan.name} (${plan.methods.length} methods, ${plan.statements.length} statements)`);
+    });
+  }
+  report.warnings.forEach((entry) => console.error(`  warning:   ${entry.path}: ${entry.warning}`));
+  report.imported.forEach((entry) => console.error(`  imported:  ${entry.path} (${entry.uuid})`));
+  report.skipped.forEach((entry) => console.error(`  skipped:   ${entry.path}: ${entry.reason}`));
+  report.errors.forEach((entry) => console.error(`  error:     ${entry.path}: ${entry.error}`));
+
+  if (report.errors.length > 0) {
+    console.error('Import incomplete - run the same command again to resume.');
+    process.exit(1);
+  }
+}
+
+// stellify-mcp --transport http [--host <host>] [--port <port>]
+async function runHttp(host?: string, port?: string) {
+  const options = {
+    host: host || process.env.STELLIFY_MCP_HOST || DEFAULT_HTTP_SERVER_OPTIONS.host,
+    port: Number(port || process.env.STELLIFY_MCP_PORT || DEFAULT_HTTP_SERVER_OPTIONS.port),
+    sessionIdleTimeout: Number(process.env.STELLIFY_SESSION_IDLE_MS || DEFAULT_HTTP_SERVER_OPTIONS.sessionIdleTimeout),
+    authenticate: (req: IncomingMessage) => bearerToken(req) || (LOOPBACK_TOKEN && isLoopback(req) ? API_TOKEN : undefined),
+    health: () => ({ api: { url: API_URL, circuit: breaker.state }, clients: clients.size }),
+  };
+  if (!Number.isInteger(options.port) || options.port < 0 || options.port > 65535) {
+    console.error(`Invalid port "${port || process.env.STELLIFY_MCP_PORT}"`);
+    process.exit(1);
+  }
+  if (!(options.sessionIdleTimeout >= 0)) {
+    console.error(`Invalid STELLIFY_SESSION_IDLE_MS "${process.env.STELLIFY_SESSION_IDLE_MS}"`);
+    process.exit(1);
+  }
+
+  const { close } = await startHttpServer(
+    (token) => createServer({
+      stellify: clientFor(token).forSession(),
+      history: journal.forOwner(token),
+      audit: auditLog.forSession(token),
+      filesRoot: FILES_ROOT,
+    }),
+    options
+  );
+  console.error(`Stellify MCP server listening on http://${options.host}:${options.port}/mcp (SSE fallback at /sse, health at /health)`);
+
+  const shutdown = async () => {
+    await close();
+    process.exit(0);
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
 
 // Start server
 async function main() {
+  const [command, ...rest] = process.argv.slice(2);
+  if (command === 'export') {
+    await runExport(rest);
+    return;
+  }
+  if (command === 'import') {
+    await runImport(rest);
+    return;
+  }
+
+  const argv = process.argv.slice(2);
+  const option = (flag: string) => {
+    const index = argv.indexOf(flag);
+    return index !== -1 ? argv[index + 1] : undefined;
+  };
+
+  const transportName = option('--transport') || process.env.STELLIFY_MCP_TRANSPORT || 'stdio';
+  if (transportName === 'http') {
+    await runHttp(option('--host'), option('--port'));
+    return;
+  }
+  if (transportName !== 'stdio') {
+    console.error(`Unknown transport "${transportName}". Use --transport stdio or --transport http`);
+    process.exit(1);
+  }
+
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  const stellify = defaultClient();
+  await createServer({
+    stellify,
+    history: journal.forOwner(API_TOKEN!),
+    audit: auditLog.forSession(API_TOKEN!),
+    filesRoot: FILES_ROOT ?? undefined,
+  }).connect(transport);
   console.error('Stellify MCP server running on stdio');
 }
 
@@ -0,0 +1,90 @@
+import type { StellifyClient } from './stellify-client.js';
+import { renderFile } from './renderer.js';
+import { planPhpFile, planVueFile, PlannedFile, PlannedFileType } from './source-parser.js';
+import { createPlannedFile } from './importer.js';
+
+// =============================================================================
+// CODE LIBRARY
+// =============================================================================
+// Library files are ordinary Stellify files shared outside the project. A
+// clone renders the library file to source and replays it into the chosen
+// directory through the importer, so the copy gets its own statements,
+// methods and template elements with new UUIDs and shares nothing with the
+// original. Includes are copied as references: they point at the same files
+// or namespaces as the original's.
+
+export interface CloneOptions {
+  file: string; // Library file UUID
+  directory: string; // Project directory UUID
+  name?: string; // New file / class name; the original's by default
+}
+
+export interface CloneResult {
+  file: string;
+  name: string;
+  source: string; // The library file it was cloned from
+  directory: string;
+  statements: string[];
+  methods: Record<string, string>; // Method name → new UUID
+  template: string[]; // Root element UUIDs (Vue)
+  includes: string[];
+  warnings: string[];
+}
+
+const FILE_TYPES = new Set<PlannedFileType>(['class', 'model', 'controller', 'middleware', 'js']);
+
+// Gaps that leave holes in the code; unresolved includes and events only lose a reference
+const BLOCKING_GAPS = new Set(['file', 'method', 'statement', 'clause', 'element']);
+
+/**
+ * Copy a library file with its methods, statements, template and includes
+ * into a directory of the active project.
+ */
+export async function cloneLibraryFile(client: StellifyClient, options: CloneOptions): Promise<CloneResult> {
+  const original = await client.getFile(options.file);
+  const rendered = await renderFile(client, options.file);
+  const gaps = rendered.unrendered.filter((gap) => BLOCKING_GAPS.has(gap.kind));
+  if (gaps.length > 0) {
+    throw new Error(`Library file ${options.file} could not be read completely, so it was not cloned: ${gaps.map((gap) => `${gap.kind} ${gap.uuid} (${gap.reason})`).join('; ')}`);
+  }
+
+  const name = options.name || rendered.name;
+  let plan: PlannedFile | string;
+  if (rendered.language === 'php') {
+    plan = planPhpFile(rendered.filename, rendered.source.replace(/^(\s*(?:final\s+|abstract\s+|readonly\s+)*class\s+)[A-Za-z_][A-Za-z0-9_]*/m, `$1${name}`));
+  } else if (rendered.language === 'vue') {
+    plan = planVueFile(`${name}.vue`, rendered.source);
+  } else {
+    // Plain JS has the same top-level statements and functions as <script setup>
+    plan = planVueFile(`${name}.vue`, `<script setup>\n${rendered.source}\n</script>`);
+    if (typeof plan !== 'string') plan = { ...plan, extension: rendered.extension || 'js' };
+  }
+  if (typeof plan === 'string') {
+    throw new Error(`Library file ${options.file} cannot be cloned: ${plan}`);
+  }
+  if (original.type && FILE_TYPES.has(original.type as PlannedFileType)) {
+    plan.type = original.type as PlannedFileType;
+  }
+
+  const created = await createPlannedFile(client, plan, options.directory);
+  const includes = original.includes || [];
+  if (includes.length > 0) {
+    const current = await client.getFile(created.file);
+    await client.saveFile(created.file, { ...current, uuid: created.file, includes });
+  }
+
+  return {
+    file: created.file,
+    name,
+    source: options.file,
+    directory: options.directory,
+    statements: created.statements,
+    methods: Object.fromEntries(plan.methods.map((method, index) => [method.name, created.methods[index]])),
+    template: created.template,
+    includes,
+    warnings: [
+      ...plan.warnings,
+      ...rendered.unrendered.filter((gap) => !BLOCKING_GAPS.has(gap.kind)).map((gap) => `${gap.kind} ${gap.uuid} not copied: ${gap.reason}`),
+    ],
+  };
+}
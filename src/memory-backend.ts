@@ -0,0 +1,1029 @@
+import { randomUUID } from 'crypto';
+import { AxiosError, AxiosHeaders } from 'axios';
+import type { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { splitMembers } from './source-parser.js';
+
+// =============================================================================
+// IN-MEMORY BACKEND
+// =============================================================================
+// An in-process fake of the Stellify API, selected with STELLIFY_API_URL=memory://
+// (or memory://<name> for a separate store). It answers every endpoint
+// StellifyClient calls from plain maps, with the same envelopes, status codes
+// and referential behaviour as the real API: creating a method adds it to its
+// file, deleting an element deletes its children, files carry an ETag that
+// If-Match is checked against, and each branch is its own copy of the project.
+//
+// It is an axios adapter, so the resilience, audit and dry-run interceptors
+// run exactly as they do against the network. Code is split into statements
+// but not parsed into clauses; statements keep their source in `code`. Code is
+// never executed, and there are no execution logs to analyse.
+
+export const MEMORY_SCHEME = 'memory://';
+
+// Headers that scope a request, as the API reads them
+const PROJECT_HEADER = 'x-stellify-project';
+const BRANCH_HEADER = 'x-stellify-branch';
+
+type Entity = { uuid: string; [key: string]: any };
+
+interface Workspace {
+  directories: Map<string, Entity>;
+  files: Map<string, Entity>;
+  methods: Map<string, Entity>;
+  statements: Map<string, Entity>;
+  clauses: Map<string, Entity>;
+  routes: Map<string, Entity>;
+  elements: Map<string, Entity>;
+  revisions: Map<string, number>; // File UUID → revision, sent as its ETag
+}
+
+interface MemoryProject {
+  uuid: string;
+  name: string;
+  branch: string; // Current branch
+  branches: Map<string, Workspace>;
+}
+
+export interface MemoryRequest {
+  method: string;
+  url: string;
+  params?: Record<string, any>;
+  body?: any;
+  headers?: Record<string, string>; // Lower-case names
+}
+
+export interface MemoryResponse {
+  status: number;
+  data: any;
+  headers: Record<string, string>;
+}
+
+class MemoryApiError extends Error {
+  constructor(public status: number, message: string, public errors?: Record<string, string[]>) {
+    super(message);
+    this.name = 'MemoryApiError';
+  }
+}
+
+interface Context {
+  backend: MemoryBackend;
+  project: MemoryProject;
+  workspace: Workspace;
+  body: any;
+  params: Record<string, any>;
+  headers: Record<string, string>;
+  responseHeaders: Record<string, string>;
+}
+
+// Directories every new project starts with, and the one each file type goes to by default
+const DEFAULT_DIRECTORIES = ['js', 'Controllers', 'Models', 'Middleware', 'Services', 'Migrations'];
+const TYPE_DIRECTORIES: Record<string, string> = {
+  js: 'js',
+  controller: 'Controllers',
+  model: 'Models',
+  middleware: 'Middleware',
+  class: 'Services',
+};
+
+const TYPE_NAMESPACES: Record<string, string> = {
+  controller: 'App\\Http\\Controllers\\',
+  model: 'App\\Models\\',
+  middleware: 'App\\Http\\Middleware\\',
+  class: 'App\\',
+};
+
+// Element type for each HTML tag, as html_to_elements maps them
+const TAG_TYPES: Record<string, string> = {
+  button: 's-input', input: 's-input', textarea: 's-input', select: 's-input',
+  form: 's-form',
+  img: 's-media', video: 's-media', audio: 's-media',
+  svg: 's-svg', iframe: 's-iframe',
+};
+
+// Default tag of each element type created with create_element
+const TYPE_TAGS: Record<string, string> = {
+  's-wrapper': 'div', 's-input': 'input', 's-form': 'form', 's-media': 'img', 's-svg': 'svg', 's-iframe': 'iframe',
+};
+
+const VOID_TAGS = new Set(['area', 'br', 'col', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+const CAPABILITIES = [
+  { name: 'authentication', package: 'laravel/sanctum', status: 'available' },
+  { name: 'social-login', package: 'laravel/socialite', status: 'needs_config' },
+  { name: 'payments', package: 'stripe/stripe-php', status: 'needs_config' },
+  { name: 'websockets', package: 'laravel/reverb', status: 'not_available' },
+];
+
+const PERFORMANCE_RESULTS: Record<string, string> = {
+  'slow-methods': 'slow_methods',
+  'high-query-methods': 'high_query_methods',
+  'high-memory-methods': 'high_memory_methods',
+  'failure-rates': 'failure_rates',
+  trend: 'trend',
+};
+
+function emptyWorkspace(): Workspace {
+  return {
+    directories: new Map(),
+    files: new Map(),
+    methods: new Map(),
+    statements: new Map(),
+    clauses: new Map(),
+    routes: new Map(),
+    elements: new Map(),
+    revisions: new Map(),
+  };
+}
+
+function copyWorkspace(workspace: Workspace): Workspace {
+  const copy = (map: Map<string, any>) => new Map([...map].map(([uuid, entity]) => [uuid, structuredClone(entity)]));
+  return {
+    directories: copy(workspace.directories),
+    files: copy(workspace.files),
+    methods: copy(workspace.methods),
+    statements: copy(workspace.statements),
+    clauses: copy(workspace.clauses),
+    routes: copy(workspace.routes),
+    elements: copy(workspace.elements),
+    revisions: new Map(workspace.revisions),
+  };
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+function stamp<T extends Record<string, any>>(fields: T): T & Entity {
+  const at = now();
+  return { uuid: randomUUID(), ...fields, created_at: at, updated_at: at };
+}
+
+function notFound(kind: string, uuid: string): never {
+  throw new MemoryApiError(404, `${kind} ${uuid} not found`);
+}
+
+function find(map: Map<string, Entity>, kind: string, uuid: string): Entity {
+  return map.get(uuid) || notFound(kind, uuid);
+}
+
+// Laravel-style validation failure for missing fields
+function requireFields(body: any, ...fields: string[]) {
+  const missing = fields.filter((field) => body?.[field] === undefined || body?.[field] === null || body?.[field] === '');
+  if (missing.length > 0) {
+    throw new MemoryApiError(
+      422,
+      `The ${missing[0]} field is required.`,
+      Object.fromEntries(missing.map((field) => [field, [`The ${field} field is required.`]]))
+    );
+  }
+}
+
+function without(list: any, uuid: string): any[] {
+  return Array.isArray(list) ? list.filter((entry) => (typeof entry === 'string' ? entry : entry?.uuid) !== uuid) : [];
+}
+
+function ok(data: any, extra: Record<string, any> = {}) {
+  return { success: true, ...extra, data };
+}
+
+// "*" and "%" are wildcards; otherwise a case-insensitive substring match
+function matches(value: unknown, pattern: unknown): boolean {
+  if (pattern === undefined || pattern === null || pattern === '') return true;
+  if (typeof value !== 'string') return false;
+  const text = String(pattern);
+  if (!/[*%]/.test(text)) return value.toLowerCase().includes(text.toLowerCase());
+  const regex = text.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/[*%]/g, '.*');
+  return new RegExp(`^${regex}$`, 'i').test(value);
+}
+
+function paginate(entries: Entity[], params: Record<string, any>) {
+  const perPage = Math.max(1, Number(params.per_page) || 20);
+  const page = Math.max(1, Number(params.page) || 1);
+  return {
+    data: entries.slice((page - 1) * perPage, page * perPage),
+    pagination: {
+      total: entries.length,
+      per_page: perPage,
+      current_page: page,
+      last_page: Math.max(1, Math.ceil(entries.length / perPage)),
+    },
+  };
+}
+
+function snake(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
+function camel(name: string): string {
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+function plural(word: string): string {
+  if (/[^aeiou]y$/.test(word)) return `${word.slice(0, -1)}ies`;
+  if (/(s|x|z|ch|sh)$/.test(word)) return `${word}es`;
+  return `${word}s`;
+}
+
+// -----------------------------------------------------------------------------
+// Entity operations
+// -----------------------------------------------------------------------------
+
+function directoryNamed(workspace: Workspace, name: string): Entity {
+  const existing = [...workspace.directories.values()].find((directory) => directory.name === name);
+  if (existing) return existing;
+  const directory = stamp({ name, parent: null, data: [], directories: [] });
+  workspace.directories.set(directory.uuid, directory);
+  return directory;
+}
+
+function addFile(workspace: Workspace, fields: Record<string, any>): Entity {
+  const directory = fields.directory
+    ? find(workspace.directories, 'Directory', fields.directory)
+    : directoryNamed(workspace, TYPE_DIRECTORIES[fields.type] || 'Services');
+  const file = stamp({
+    name: fields.name,
+    type: fields.type,
+    extension: fields.extension ?? (fields.type === 'js' ? 'js' : null),
+    namespace: fields.type === 'js' ? null : 'namespace' in fields ? fields.namespace : TYPE_NAMESPACES[fields.type] ?? null,
+    directory: directory.uuid,
+    module: fields.module ?? null,
+    includes: Array.isArray(fields.includes) ? [...fields.includes] : [],
+    data: [],
+    statements: [],
+    template: [],
+  });
+  workspace.files.set(file.uuid, file);
+  workspace.revisions.set(file.uuid, 1);
+  directory.data.push(file.uuid);
+  return file;
+}
+
+function touchFile(workspace: Workspace, uuid: string | null | undefined) {
+  const file = uuid ? workspace.files.get(uuid) : undefined;
+  if (!file) return;
+  file.updated_at = now();
+  workspace.revisions.set(file.uuid, (workspace.revisions.get(file.uuid) || 0) + 1);
+}
+
+function isPhp(file: Entity | undefined): boolean {
+  return !file || (file.type !== 'js' && file.extension !== 'vue' && file.extension !== 'js');
+}
+
+function addMethod(workspace: Workspace, file: Entity, fields: Record<string, any>): Entity {
+  const parameters = (Array.isArray(fields.parameters) ? fields.parameters : []).map((parameter: any) => {
+    const clause = stamp({
+      type: parameter.type || 'variable',
+      name: parameter.name,
+      value: parameter.value ?? parameter.name,
+      datatype: parameter.datatype ?? null,
+    });
+    workspace.clauses.set(clause.uuid, clause);
+    return clause.uuid;
+  });
+  const method = stamp({
+    file: file.uuid,
+    name: fields.name,
+    type: isPhp(file) ? 'php' : 'js',
+    visibility: isPhp(file) ? fields.visibility || 'public' : null,
+    is_static: fields.is_static ?? false,
+    returnType: fields.returnType ?? null,
+    nullable: fields.nullable ?? false,
+    parameters,
+    data: [],
+  });
+  workspace.methods.set(method.uuid, method);
+  file.data.push(method.uuid);
+  touchFile(workspace, file.uuid);
+  return method;
+}
+
+function addStatement(workspace: Workspace, owner: { file?: string | null; method?: string | null }, code: string | null): Entity {
+  const statement = stamp({ type: 'statement', file: owner.file ?? null, method: owner.method ?? null, code, data: [] });
+  workspace.statements.set(statement.uuid, statement);
+  return statement;
+}
+
+// Split code into statements and append them to the method body
+function addCode(workspace: Workspace, file: Entity, method: Entity, code: string): Entity[] {
+  const parts = splitMembers(code, isPhp(file));
+  if (parts.length === 0) {
+    throw new MemoryApiError(422, 'The code contains no statements.', { code: ['The code contains no statements.'] });
+  }
+  const statements = parts.map((part) => addStatement(workspace, { file: file.uuid, method: method.uuid }, part));
+  method.data.push(...statements.map((statement) => statement.uuid));
+  touchFile(workspace, file.uuid);
+  return statements;
+}
+
+// A method with its parameter clauses, keyed by UUID, as GET /method returns it
+function methodView(workspace: Workspace, method: Entity): Entity {
+  const clauses = Object.fromEntries(
+    (method.parameters || []).map((uuid: string) => [uuid, workspace.clauses.get(uuid)]).filter(([, clause]: any) => clause)
+  );
+  return { ...method, clauses };
+}
+
+function elementTree(workspace: Workspace, uuid: string): Entity {
+  const element = find(workspace.elements, 'Element', uuid);
+  return {
+    ...element,
+    children: (element.data || []).filter((child: string) => workspace.elements.has(child)).map((child: string) => elementTree(workspace, child)),
+  };
+}
+
+function deleteStatement(workspace: Workspace, uuid: string) {
+  const statement = workspace.statements.get(uuid);
+  if (!statement) return;
+  workspace.statements.delete(uuid);
+  const method = statement.method ? workspace.methods.get(statement.method) : undefined;
+  if (method) method.data = without(method.data, uuid);
+  const file = statement.file ? workspace.files.get(statement.file) : undefined;
+  if (file) {
+    file.statements = without(file.statements, uuid);
+    touchFile(workspace, file.uuid);
+  }
+}
+
+function deleteMethod(workspace: Workspace, uuid: string) {
+  const method = workspace.methods.get(uuid);
+  if (!method) return;
+  (method.data || []).forEach((statement: string) => deleteStatement(workspace, statement));
+  (method.parameters || []).forEach((clause: string) => workspace.clauses.delete(clause));
+  workspace.methods.delete(uuid);
+  const file = workspace.files.get(method.file);
+  if (file) {
+    file.data = without(file.data, uuid);
+    touchFile(workspace, file.uuid);
+  }
+}
+
+function deleteFile(workspace: Workspace, uuid: string) {
+  const file = workspace.files.get(uuid);
+  if (!file) return;
+  [...(file.data || [])].forEach((method: string) => deleteMethod(workspace, method));
+  [...(file.statements || [])].forEach((statement: string) => deleteStatement(workspace, statement));
+  workspace.files.delete(uuid);
+  workspace.revisions.delete(uuid);
+  const directory = workspace.directories.get(file.directory);
+  if (directory) directory.data = without(directory.data, uuid);
+}
+
+function deleteDirectory(workspace: Workspace, uuid: string) {
+  const directory = workspace.directories.get(uuid);
+  if (!directory) return;
+  [...(directory.data || [])].forEach((file: string) => deleteFile(workspace, file));
+  [...(directory.directories || [])].forEach((child: string) => deleteDirectory(workspace, child));
+  workspace.directories.delete(uuid);
+  const parent = directory.parent ? workspace.directories.get(directory.parent) : undefined;
+  if (parent) parent.directories = without(parent.directories, uuid);
+}
+
+// Deletes the element and its descendants; returns how many were deleted
+function deleteElement(workspace: Workspace, uuid: string): number {
+  const element = workspace.elements.get(uuid);
+  if (!element) return 0;
+  workspace.elements.delete(uuid);
+  const count = 1 + (element.data || []).reduce((sum: number, child: string) => sum + deleteElement(workspace, child), 0);
+  const parent = element.parent ? workspace.elements.get(element.parent) : undefined;
+  if (parent) parent.data = without(parent.data, uuid);
+  const route = element.page ? workspace.routes.get(element.page) : undefined;
+  if (route) route.data = without(route.data, uuid);
+  return count;
+}
+
+// -----------------------------------------------------------------------------
+// HTML conversion
+// -----------------------------------------------------------------------------
+
+interface HtmlNode {
+  tag: string;
+  attributes: Record<string, string | true>;
+  text: string;
+  children: HtmlNode[];
+}
+
+const HTML_TAG = /<(\/?)([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/g;
+const HTML_ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+function parseHtml(html: string): HtmlNode[] {
+  const root: HtmlNode = { tag: '', attributes: {}, text: '', children: [] };
+  const stack = [root];
+  const source = html.replace(/<!--[\s\S]*?-->/g, '');
+  const addText = (text: string) => {
+    const collapsed = text.replace(/\s+/g, ' ').trim();
+    if (!collapsed) return;
+    const current = stack[stack.length - 1];
+    current.text = current.text ? `${current.text} ${collapsed}` : collapsed;
+  };
+
+  let last = 0;
+  for (const match of source.matchAll(HTML_TAG)) {
+    addText(source.slice(last, match.index));
+    last = match.index! + match[0].length;
+    const [, closing, rawTag, rawAttributes, selfClosing] = match;
+    const tag = rawTag.toLowerCase();
+
+    if (closing) {
+      const index = stack.map((node) => node.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    const attributes: Record<string, string | true> = {};
+    for (const [, name, double, single, bare] of rawAttributes.matchAll(HTML_ATTRIBUTE)) {
+      attributes[name] = double ?? single ?? bare ?? true;
+    }
+    const node: HtmlNode = { tag, attributes, text: '', children: [] };
+    stack[stack.length - 1].children.push(node);
+    if (!selfClosing && !VOID_TAGS.has(tag)) stack.push(node);
+  }
+  addText(source.slice(last));
+  return root.children;
+}
+
+// Elements for the nodes, parents before children, keyed by UUID in that order
+function htmlElements(
+  workspace: Workspace,
+  nodes: HtmlNode[],
+  placement: { page: string | null; parent: string | null },
+  store: boolean,
+  into: Record<string, Entity> = {}
+): string[] {
+  return nodes.map((node) => {
+    const { class: classes, type: inputType, ...attributes } = node.attributes;
+    const element = stamp({
+      type: TAG_TYPES[node.tag] || 's-wrapper',
+      tag: node.tag,
+      name: node.tag,
+      classes: typeof classes === 'string' ? classes.split(/\s+/).filter(Boolean) : [],
+      text: node.text || null,
+      parent: placement.parent,
+      page: placement.parent ? null : placement.page,
+      ...attributes,
+      ...(inputType !== undefined && { inputType }),
+      statements: [] as string[],
+      data: [] as string[],
+    });
+
+    // {{ binding }} text gets a statement holding the binding expression
+    for (const [, expression] of node.text.matchAll(/\{\{\s*(.+?)\s*\}\}/g)) {
+      if (!store) continue;
+      const statement = addStatement(workspace, {}, expression);
+      element.statements.push(statement.uuid);
+    }
+
+    into[element.uuid] = element;
+    if (store) workspace.elements.set(element.uuid, element);
+    element.data = htmlElements(workspace, node.children, { page: null, parent: element.uuid }, store, into);
+    return element.uuid;
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Resource scaffolding
+// -----------------------------------------------------------------------------
+
+function addMethodWithCode(workspace: Workspace, file: Entity, fields: Record<string, any>, code: string): Entity {
+  const method = addMethod(workspace, file, fields);
+  addCode(workspace, file, method, code);
+  return method;
+}
+
+function addFileStatement(workspace: Workspace, file: Entity, code: string) {
+  const statement = addStatement(workspace, { file: file.uuid }, code);
+  file.statements.push(statement.uuid);
+}
+
+function generated(workspace: Workspace, file: Entity) {
+  return {
+    uuid: file.uuid,
+    name: file.name,
+    namespace: file.namespace,
+    methods: file.data.map((uuid: string) => ({ uuid, name: workspace.methods.get(uuid)?.name })),
+  };
+}
+
+const COLUMN_TYPES: Record<string, string> = {
+  int: 'integer', bigint: 'bigInteger', bool: 'boolean', datetime: 'dateTime', longtext: 'longText', email: 'string',
+};
+
+const CASTS: Record<string, string> = {
+  boolean: 'boolean', bool: 'boolean', json: 'array', date: 'date', datetime: 'datetime', timestamp: 'datetime',
+  decimal: 'decimal:2', float: 'float', double: 'float', integer: 'integer', int: 'integer',
+};
+
+function scaffoldResources(context: Context) {
+  const { workspace, body } = context;
+  requireFields(body, 'name');
+  const name: string = body.name;
+  const fields: any[] = Array.isArray(body.fields) ? body.fields : [];
+  const relationships: any[] = Array.isArray(body.relationships) ? body.relationships : [];
+  const table = plural(snake(name));
+  const variable = camel(name);
+  const methodCount = () => workspace.methods.size;
+  const before = methodCount();
+  const result: Record<string, any> = { name, model: null, controller: null, service: null, migration: null, routes: [] };
+
+  const model = addFile(workspace, { name, type: 'model', includes: ['Illuminate\\Database\\Eloquent\\Model'] });
+  const quoted = fields.map((field) => `'${field.name}'`).join(', ');
+  addFileStatement(workspace, model, `protected $fillable = [${quoted}];`);
+  const casts = fields.filter((field) => CASTS[field.type]).map((field) => `'${field.name}' => '${CASTS[field.type]}'`);
+  if (casts.length > 0) addFileStatement(workspace, model, `protected $casts = [${casts.join(', ')}];`);
+  for (const relationship of relationships) {
+    addMethodWithCode(workspace, model, { name: relationship.name || camel(relationship.model) }, `return $this->${relationship.type}(${relationship.model}::class);`);
+  }
+  result.model = generated(workspace, model);
+
+  let service: Entity | null = null;
+  if (body.service === true) {
+    service = addFile(workspace, { name: `${name}Service`, type: 'class', namespace: 'App\\Services\\', includes: [`App\\Models\\${name}`] });
+    addMethodWithCode(workspace, service, { name: 'list' }, `return ${name}::all();`);
+    addMethodWithCode(workspace, service, { name: 'find', parameters: [{ name: 'id', datatype: 'int' }] }, `return ${name}::findOrFail($id);`);
+    addMethodWithCode(workspace, service, { name: 'create', parameters: [{ name: 'data', datatype: 'array' }] }, `return ${name}::create($data);`);
+    addMethodWithCode(workspace, service, { name: 'update', parameters: [{ name: variable, datatype: name }, { name: 'data', datatype: 'array' }] }, `$${variable}->update($data);\nreturn $${variable};`);
+    addMethodWithCode(workspace, service, { name: 'delete', parameters: [{ name: variable, datatype: name }] }, `$${variable}->delete();`);
+    result.service = generated(workspace, service);
+  }
+
+  if (body.controller !== false) {
+    const controller = addFile(workspace, { name: `${name}Controller`, type: 'controller', includes: [`App\\Models\\${name}`, 'Illuminate\\Http\\Request'] });
+    const rules = fields.map((field) => `'${field.name}' => '${field.nullable ? 'nullable' : 'required'}'`).join(', ');
+    const actions: Array<[string, any[], string, string, string]> = [
+      ['index', [], `return response()->json(${name}::all());`, 'GET', `/${table}`],
+      ['store', [{ name: 'request', datatype: 'Request' }], `$data = $request->validate([${rules}]);\nreturn response()->json(${name}::create($data), 201);`, 'POST', `/${table}`],
+      ['show', [{ name: variable, datatype: name }], `return response()->json($${variable});`, 'GET', `/${table}/{${variable}}`],
+      ['update', [{ name: 'request', datatype: 'Request' }, { name: variable, datatype: name }], `$${variable}->update($request->validate([${rules}]));\nreturn response()->json($${variable});`, 'PUT', `/${table}/{${variable}}`],
+      ['destroy', [{ name: variable, datatype: name }], `$${variable}->delete();\nreturn response()->noContent();`, 'DELETE', `/${table}/{${variable}}`],
+    ];
+    for (const [action, parameters, code, verb, path] of actions) {
+      const method = addMethodWithCode(workspace, controller, { name: action, parameters }, code);
+      if (body.routes !== false) {
+        const route = stamp({
+          project_id: context.project.uuid,
+          name: `${table}.${action}`,
+          path: `/api${path}`,
+          method: verb,
+          type: 'api',
+          controller: controller.uuid,
+          controller_method: method.uuid,
+          data: [],
+        });
+        workspace.routes.set(route.uuid, route);
+        result.routes.push({ uuid: route.uuid, method: verb, path: route.path });
+      }
+    }
+    result.controller = generated(workspace, controller);
+  }
+
+  if (body.migration !== false) {
+    const migration = addFile(workspace, {
+      name: `Create${plural(name)}Table`,
+      type: 'class',
+      directory: directoryNamed(workspace, 'Migrations').uuid,
+      namespace: null,
+      includes: ['Illuminate\\Database\\Migrations\\Migration', 'Illuminate\\Database\\Schema\\Blueprint', 'Illuminate\\Support\\Facades\\Schema'],
+    });
+    const columns = fields.map((field) => {
+      const column = `$table->${COLUMN_TYPES[field.type] || field.type || 'string'}('${field.name}')`;
+      const modifiers = [field.nullable && '->nullable()', field.unique && '->unique()', field.default !== undefined && `->default(${JSON.stringify(field.default)})`];
+      return `    ${column}${modifiers.filter(Boolean).join('')};`;
+    });
+    const extra = ['    $table->timestamps();', ...(body.soft_deletes ? ['    $table->softDeletes();'] : [])];
+    addMethodWithCode(workspace, migration, { name: 'up', returnType: 'void' }, `Schema::create('${table}', function (Blueprint $table) {\n    $table->id();\n${[...columns, ...extra].join('\n')}\n});`);
+    addMethodWithCode(workspace, migration, { name: 'down', returnType: 'void' }, `Schema::dropIfExists('${table}');`);
+    result.migration = { uuid: migration.uuid, name: migration.name, table };
+  }
+
+  const files = [result.model, result.controller, result.service, result.migration].filter(Boolean).length;
+  result.statistics = { files, methods: methodCount() - before, routes: result.routes.length };
+  return ok(result);
+}
+
+// -----------------------------------------------------------------------------
+// Analysis
+// -----------------------------------------------------------------------------
+
+function analyzeQuality(context: Context, type: string) {
+  const files = [...context.workspace.files.values()];
+  const models = files.filter((file) => file.type === 'model');
+  const controllers = files.filter((file) => file.type === 'controller');
+  const issues: any[] = [];
+
+  if (type === 'analyze' || type === 'routes') {
+    for (const route of context.workspace.routes.values()) {
+      if (route.controller_method && !context.workspace.methods.has(route.controller_method)) {
+        issues.push({
+          category: 'routes',
+          severity: 'high',
+          route: route.uuid,
+          message: `Route ${route.method} ${route.path} points to a method that no longer exists`,
+        });
+      }
+    }
+  }
+
+  if (type !== 'analyze') return ok({ issues });
+  return ok({
+    summary: {
+      models_analyzed: models.length,
+      controllers_analyzed: controllers.length,
+      total_issues: issues.length,
+      high_severity: issues.filter((issue) => issue.severity === 'high').length,
+      medium_severity: 0,
+      low_severity: 0,
+    },
+    issues,
+    recommendations: [],
+  });
+}
+
+function analyzePerformance(type: string) {
+  if (type === 'analyze') {
+    return ok({ summary: 'No executions recorded', analyzed_executions: 0, issues: [], recommendations: [] });
+  }
+  return ok({ [PERFORMANCE_RESULTS[type] || type]: [] });
+}
+
+// -----------------------------------------------------------------------------
+// Endpoints
+// -----------------------------------------------------------------------------
+
+type Handler = (context: Context, match: RegExpMatchArray) => any;
+
+// Checked in order; the first matching method and path wins
+const ENDPOINTS: Array<[string, RegExp, Handler]> = [
+  ['GET', /^\/getProject$/, ({ backend, project, workspace }) => ok({
+    project: backend.projectInfo(project),
+    directories: [...workspace.directories.values()]
+      .filter((directory) => !directory.parent)
+      .map((directory) => ({ uuid: directory.uuid, name: directory.name })),
+    capabilities: CAPABILITIES,
+  })],
+  ['GET', /^\/projects$/, ({ backend }) => ok(backend.listProjects())],
+  ['GET', /^\/branches$/, ({ project }) => ok([...project.branches.keys()].map((name) => ({ name, current: name === project.branch })))],
+  ['POST', /^\/branch$/, ({ project, body, headers }) => {
+    requireFields(body, 'name');
+    if (project.branches.has(body.name)) {
+      throw new MemoryApiError(422, `Branch "${body.name}" already exists.`, { name: ['The name has already been taken.'] });
+    }
+    const from = body.from || headers[BRANCH_HEADER] || project.branch;
+    const source = project.branches.get(from) || notFound('Branch', from);
+    project.branches.set(body.name, copyWorkspace(source));
+    return ok({ name: body.name, from, current: false });
+  }],
+
+  ['GET', /^\/capabilities$/, () => ok(CAPABILITIES)],
+  ['POST', /^\/capabilities\/request$/, ({ backend, body }) => {
+    requireFields(body, 'capability', 'description', 'use_case');
+    const request = stamp({ ...body, priority: body.priority || 'medium', status: 'pending' });
+    backend.capabilityRequests.push(request);
+    return ok(request);
+  }],
+
+  ['GET', /^\/file\/search$/, ({ workspace, params }) => ({
+    success: true,
+    ...paginate([...workspace.files.values()]
+      .filter((file) => matches(file.name, params.query ?? params.name) && (!params.type || file.type === params.type)), params),
+  })],
+  ['POST', /^\/file$/, ({ workspace, body }) => {
+    requireFields(body, 'name', 'type');
+    return ok(addFile(workspace, body));
+  }],
+  ['GET', /^\/file\/([^/]+)$/, ({ workspace, responseHeaders }, [, uuid]) => {
+    const file = find(workspace.files, 'File', uuid);
+    responseHeaders.etag = `"${workspace.revisions.get(uuid) || 1}"`;
+    return ok(file);
+  }],
+  ['PUT', /^\/file\/([^/]+)$/, ({ workspace, body, headers, responseHeaders }, [, uuid]) => {
+    const file = find(workspace.files, 'File', uuid);
+    const revision = workspace.revisions.get(uuid) || 1;
+    if (headers['if-match'] && headers['if-match'] !== `"${revision}"`) {
+      throw new MemoryApiError(412, `File ${uuid} has changed since version ${headers['if-match']}.`);
+    }
+    const { uuid: _uuid, created_at, updated_at, ...fields } = body || {};
+    if (fields.directory && fields.directory !== file.directory) {
+      const target = find(workspace.directories, 'Directory', fields.directory);
+      const source = workspace.directories.get(file.directory);
+      if (source) source.data = without(source.data, uuid);
+      target.data.push(uuid);
+    }
+    Object.assign(file, fields, { updated_at: now() });
+    workspace.revisions.set(uuid, revision + 1);
+    responseHeaders.etag = `"${revision + 1}"`;
+    return ok(file);
+  }],
+  ['DELETE', /^\/file\/([^/]+)$/, ({ workspace }, [, uuid]) => {
+    find(workspace.files, 'File', uuid);
+    deleteFile(workspace, uuid);
+    return { success: true, deleted_count: 1 };
+  }],
+
+  ['GET', /^\/method\/search$/, ({ workspace, params }) => ({
+    success: true,
+    ...paginate([...workspace.methods.values()]
+      .filter((method) => matches(method.name, params.name) && (!params.file_uuid || method.file === params.file_uuid))
+      .map((method) => methodView(workspace, method)), params),
+  })],
+  ['POST', /^\/method$/, ({ workspace, body }) => {
+    requireFields(body, 'file', 'name');
+    const method = addMethod(workspace, find(workspace.files, 'File', body.file), body);
+    return ok(methodView(workspace, method));
+  }],
+  ['GET', /^\/method\/([^/]+)$/, ({ workspace }, [, uuid]) => ok(methodView(workspace, find(workspace.methods, 'Method', uuid)))],
+  ['PUT', /^\/method\/([^/]+)$/, ({ workspace, body }, [, uuid]) => {
+    const method = find(workspace.methods, 'Method', uuid);
+    const { uuid: _uuid, clauses, created_at, updated_at, ...fields } = body || {};
+    Object.assign(method, fields, { updated_at: now() });
+    touchFile(workspace, method.file);
+    return ok(methodView(workspace, method));
+  }],
+  ['DELETE', /^\/method\/([^/]+)$/, ({ workspace }, [, uuid]) => {
+    find(workspace.methods, 'Method', uuid);
+    deleteMethod(workspace, uuid);
+    return { success: true, deleted_count: 1 };
+  }],
+
+  ['POST', /^\/code$/, ({ workspace, body }) => {
+    requireFields(body, 'file', 'code');
+    const file = find(workspace.files, 'File', body.file);
+    if (body.statement) {
+      const statement = find(workspace.statements, 'Statement', body.statement);
+      statement.code = String(body.code).trim();
+      statement.updated_at = now();
+      touchFile(workspace, file.uuid);
+      return ok(statement);
+    }
+    requireFields(body, 'method');
+    return ok(addCode(workspace, file, find(workspace.methods, 'Method', body.method), String(body.code)));
+  }],
+  ['PUT', /^\/code\/([^/]+)\/([^/]+)$/, ({ workspace }, [, file, method]) => {
+    find(workspace.files, 'File', file);
+    find(workspace.methods, 'Method', method);
+    return { success: false, output: null, error: 'Code execution is not available in the in-memory backend', execution_time: null };
+  }],
+
+  ['POST', /^\/statement$/, ({ workspace, body }) => {
+    if (!body?.file && !body?.method) requireFields(body, 'file');
+    const method = body.method ? find(workspace.methods, 'Method', body.method) : null;
+    const file = find(workspace.files, 'File', body.file || method!.file);
+    const statement = addStatement(workspace, { file: file.uuid, method: method?.uuid }, null);
+    (method ? method.data : file.statements).push(statement.uuid);
+    touchFile(workspace, file.uuid);
+    return ok(statement);
+  }],
+  ['GET', /^\/statement\/([^/]+)$/, ({ workspace }, [, uuid]) => ok({ statement: find(workspace.statements, 'Statement', uuid), clauses: [] })],
+  ['PUT', /^\/statement\/([^/]+)$/, ({ workspace, body }, [, uuid]) => {
+    const statement = find(workspace.statements, 'Statement', uuid);
+    const { uuid: _uuid, clauses, created_at, updated_at, ...fields } = body || {};
+    Object.assign(statement, fields, { updated_at: now() });
+    touchFile(workspace, statement.file);
+    return ok(statement);
+  }],
+  ['DELETE', /^\/statement\/([^/]+)$/, ({ workspace }, [, uuid]) => {
+    find(workspace.statements, 'Statement', uuid);
+    deleteStatement(workspace, uuid);
+    return { success: true, deleted_count: 1 };
+  }],
+
+  ['GET', /^\/route\/search$/, ({ workspace, params }) => ({
+    success: true,
+    ...paginate([...workspace.routes.values()]
+      .filter((route) => matches(route.name, params.search) && (!params.type || route.type === params.type)), params),
+  })],
+  ['POST', /^\/route$/, ({ project, workspace, body }) => {
+    requireFields(body, 'name', 'path', 'method');
+    const { data: extra, ...fields } = body;
+    const route = stamp({
+      type: 'web',
+      controller: null,
+      controller_method: null,
+      ...(extra && typeof extra === 'object' && !Array.isArray(extra) ? extra : {}),
+      ...fields,
+      project_id: fields.project_id || project.uuid,
+      data: [] as string[],
+    });
+    workspace.routes.set(route.uuid, route);
+    return ok(route);
+  }],
+  ['GET', /^\/route\/([^/]+)$/, ({ workspace }, [, uuid]) => ok(find(workspace.routes, 'Route', uuid))],
+  ['DELETE', /^\/route\/([^/]+)$/, ({ workspace }, [, uuid]) => {
+    const route = find(workspace.routes, 'Route', uuid);
+    const deleted = [...(route.data || [])].reduce((sum: number, element: string) => sum + deleteElement(workspace, element), 0);
+    workspace.routes.delete(uuid);
+    return { success: true, deleted_count: 1, deleted_elements: deleted };
+  }],
+
+  ['GET', /^\/element\/search$/, ({ workspace, params }) => ({
+    success: true,
+    ...paginate([...workspace.elements.values()].filter((element) => (!params.type || element.type === params.type)
+      && (!params.search || ['name', 'type', 'tag', 'text'].some((field) => matches(element[field], params.search)))), params),
+  })],
+  ['POST', /^\/element$/, ({ workspace, body }) => {
+    requireFields(body, 'type');
+    const parent = body.parent ? find(workspace.elements, 'Element', body.parent) : null;
+    const route = !parent && body.page ? find(workspace.routes, 'Route', body.page) : null;
+    const element = stamp({
+      tag: TYPE_TAGS[body.type] || 'div',
+      name: null,
+      classes: [] as string[],
+      text: null,
+      ...body,
+      parent: parent?.uuid ?? null,
+      page: route?.uuid ?? null,
+      statements: [] as string[],
+      data: [] as string[],
+    });
+    workspace.elements.set(element.uuid, element);
+    (parent || route)?.data.push(element.uuid);
+    return ok(element);
+  }],
+  ['GET', /^\/element\/([^/]+)\/tree$/, ({ workspace }, [, uuid]) => ok(elementTree(workspace, uuid))],
+  ['GET', /^\/element\/([^/]+)$/, ({ workspace }, [, uuid]) => ok(find(workspace.elements, 'Element', uuid))],
+  ['PUT', /^\/element\/([^/]+)$/, ({ workspace, body }, [, uuid]) => {
+    const element = find(workspace.elements, 'Element', uuid);
+    const { uuid: _uuid, children, created_at, updated_at, ...fields } = body || {};
+    Object.assign(element, fields, { updated_at: now() });
+    return ok(element);
+  }],
+  ['DELETE', /^\/element\/([^/]+)$/, ({ workspace }, [, uuid]) => {
+    find(workspace.elements, 'Element', uuid);
+    return { success: true, deleted_count: deleteElement(workspace, uuid) };
+  }],
+  ['POST', /^\/html\/elements$/, ({ workspace, body }) => {
+    requireFields(body, 'elements');
+    const route = body.page ? find(workspace.routes, 'Route', body.page) : null;
+    const created: Record<string, Entity> = {};
+    const roots = htmlElements(workspace, parseHtml(String(body.elements)), { page: route?.uuid ?? null, parent: null }, body.test !== true, created);
+    if (route && body.test !== true) route.data.push(...roots);
+    return ok(created, body.test === true ? { test: true } : {});
+  }],
+  ['POST', /^\/elements\/command$/, ({ body }) => {
+    requireFields(body, 'action');
+    return ok({ action: body.action, delivered: 0 }, { message: 'No editors are connected to the in-memory backend' });
+  }],
+
+  ['POST', /^\/directory$/, ({ workspace, body }) => {
+    requireFields(body, 'name');
+    const existing = [...workspace.directories.values()].find((directory) => directory.name === body.name);
+    if (existing) return ok(existing, { existing: true });
+    return ok(directoryNamed(workspace, body.name), { existing: false });
+  }],
+  ['GET', /^\/directory\/([^/]+)$/, ({ workspace }, [, uuid]) => ok(find(workspace.directories, 'Directory', uuid))],
+  ['PUT', /^\/directory\/([^/]+)$/, ({ workspace, body }, [, uuid]) => {
+    const directory = find(workspace.directories, 'Directory', uuid);
+    const { uuid: _uuid, created_at, updated_at, ...fields } = body?.data && typeof body.data === 'object' && !Array.isArray(body.data) ? body.data : {};
+    Object.assign(directory, fields, { updated_at: now() });
+    return ok(directory);
+  }],
+  ['DELETE', /^\/directory\/([^/]+)$/, ({ workspace }, [, uuid]) => {
+    find(workspace.directories, 'Directory', uuid);
+    deleteDirectory(workspace, uuid);
+    return { success: true, deleted_count: 1 };
+  }],
+
+  ['POST', /^\/resources$/, (context) => scaffoldResources(context)],
+  ['GET', /^\/performance\/([a-z-]+)$/, (_, [, type]) => analyzePerformance(type)],
+  ['GET', /^\/quality\/([a-z-]+)$/, (context, [, type]) => analyzeQuality(context, type)],
+];
+
+/**
+ * One fake Stellify API: its projects, their branches and everything in them.
+ */
+export class MemoryBackend {
+  readonly capabilityRequests: Entity[] = [];
+  private projects = new Map<string, MemoryProject>();
+  private active: string;
+
+  constructor(options: { project?: string } = {}) {
+    this.active = this.createProject(options.project || 'Memory Project').uuid;
+  }
+
+  /**
+   * Add a project with the default directories on a "main" branch; the first
+   * one created is the active project.
+   */
+  createProject(name: string): MemoryProject {
+    const workspace = emptyWorkspace();
+    DEFAULT_DIRECTORIES.forEach((directory) => directoryNamed(workspace, directory));
+    const project: MemoryProject = { uuid: randomUUID(), name, branch: 'main', branches: new Map([['main', workspace]]) };
+    this.projects.set(project.uuid, project);
+    return project;
+  }
+
+  projectInfo(project: MemoryProject) {
+    return { uuid: project.uuid, name: project.name, branch: project.branch };
+  }
+
+  listProjects() {
+    return [...this.projects.values()].map((project) => this.projectInfo(project));
+  }
+
+  handle(request: MemoryRequest): MemoryResponse {
+    const headers = request.headers || {};
+    const responseHeaders: Record<string, string> = { 'content-type': 'application/json' };
+    const method = request.method.toUpperCase();
+    const path = request.url.split('?')[0].replace(/\/+$/, '') || '/';
+
+    try {
+      const projectUuid = headers[PROJECT_HEADER] || this.active;
+      const project = this.projects.get(projectUuid) || notFound('Project', projectUuid);
+      const branch = headers[BRANCH_HEADER] || project.branch;
+      const workspace = project.branches.get(branch) || notFound('Branch', branch);
+      const context: Context = {
+        backend: this,
+        project,
+        workspace,
+        body: request.body ?? {},
+        params: { ...Object.fromEntries(new URLSearchParams(request.url.split('?')[1] || '')), ...request.params },
+        headers,
+        responseHeaders,
+      };
+
+      for (const [verb, pattern, handler] of ENDPOINTS) {
+        const match = verb === method ? path.match(pattern) : null;
+        if (match) {
+          const data = handler(context, match);
+          return { status: 200, data, headers: responseHeaders };
+        }
+      }
+      throw new MemoryApiError(404, `No endpoint for ${method} ${path}`);
+    } catch (error: any) {
+      if (!(error instanceof MemoryApiError)) throw error;
+      return {
+        status: error.status,
+        data: { success: false, message: error.message, ...(error.errors && { errors: error.errors }) },
+        headers: responseHeaders,
+      };
+    }
+  }
+}
+
+const backends = new Map<string, MemoryBackend>();
+
+export function isMemoryUrl(apiUrl: string | undefined): boolean {
+  return typeof apiUrl === 'string' && apiUrl.startsWith(MEMORY_SCHEME);
+}
+
+/**
+ * The backend for a memory:// URL. Every client of the same URL in this
+ * process shares one store; memory://<name> gives a separate one.
+ */
+export function memoryBackend(apiUrl: string): MemoryBackend {
+  const name = apiUrl.slice(MEMORY_SCHEME.length).replace(/\/+$/, '');
+  let backend = backends.get(name);
+  if (!backend) {
+    backend = new MemoryBackend();
+    backends.set(name, backend);
+  }
+  return backend;
+}
+
+function parseBody(data: unknown): any {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * Answer every request on this axios instance from the backend instead of
+ * the network. Error statuses are thrown as AxiosErrors with the response
+ * attached, as axios does for a real server.
+ */
+export function installMemoryBackend(instance: AxiosInstance, backend: MemoryBackend) {
+  instance.defaults.adapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const headers = Object.fromEntries(
+      Object.entries(AxiosHeaders.from(config.headers).toJSON()).map(([name, value]) => [name.toLowerCase(), String(value)])
+    );
+    const result = backend.handle({
+      method: config.method || 'get',
+      url: config.url || '',
+      params: config.params,
+      body: parseBody(config.data),
+      headers,
+    });
+
+    // Responses are copied so callers never hold references into the store
+    const response: AxiosResponse = {
+      data: structuredClone(result.data),
+      status: result.status,
+      statusText: result.status < 400 ? 'OK' : 'Error',
+      headers: AxiosHeaders.from(result.headers),
+      config,
+      request: {},
+    };
+    const validate = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+    if (!validate(response.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status < 500 ? AxiosError.ERR_BAD_REQUEST : AxiosError.ERR_BAD_RESPONSE,
+        config,
+        {},
+        response
+      );
+    }
+    return response;
+  };
+}
@@ -0,0 +1,428 @@
+import type { FromSchema, JsonSchema } from './schemas.js';
+import { validate, ValidationIssue } from './validation.js';
+
+// =============================================================================
+// API RESPONSE MODELS
+// =============================================================================
+// Schemas of the entities the Stellify API returns, and the decoding that
+// StellifyClient runs on every entity response. Decoding unwraps the
+// `{ success, data }` envelope, normalises the shapes the API answers in more
+// than one form, and checks the fields this server relies on, so a changed
+// API fails with the field that drifted instead of an `undefined` deep inside
+// a tool. Fields are nullable because Laravel serialises empty columns as
+// null; fields the schemas do not list are kept as they are.
+//
+// Reference arrays (a file's methods, a method's statements, ...) hold UUIDs,
+// or `{ uuid }` objects on some endpoints, so only their array-ness is checked.
+
+// Fields the models do not describe
+type Unlisted = { [key: string]: unknown };
+
+export type Model<S> = FromSchema<S> & Unlisted;
+
+export class ResponseShapeError extends Error {
+  constructor(public request: string, public issues: ValidationIssue[]) {
+    super(`Unexpected response from ${request}: ${issues.map((issue) => `${issue.path} ${issue.message}`).join('; ')}. The Stellify API may have changed; please report this`);
+    this.name = 'ResponseShapeError';
+  }
+}
+
+const nullableString = { type: 'string', nullable: true } as const;
+const nullableBoolean = { type: 'boolean', nullable: true } as const;
+const uuidArray = { type: 'array', nullable: true } as const;
+
+export const fileSchema = {
+  type: 'object',
+  properties: {
+    uuid: { type: 'string' },
+    name: nullableString,
+    type: nullableString,
+    extension: nullableString,
+    namespace: nullableString,
+    directory: nullableString,
+    data: { ...uuidArray, description: 'Method UUIDs' },
+    statements: { ...uuidArray, description: 'Statement UUIDs outside methods' },
+    includes: { ...uuidArray, description: 'File UUIDs or namespaces' },
+    template: { ...uuidArray, description: 'Root element UUIDs (Vue)' },
+  },
+  required: ['uuid'],
+  additionalProperties: true,
+} as const;
+
+export const clauseSchema = {
+  type: 'object',
+  properties: {
+    uuid: nullableString,
+    type: nullableString,
+    name: nullableString,
+    value: { description: 'Literal, operator or identifier' },
+    code: nullableString,
+    datatype: nullableString,
+  },
+  additionalProperties: true,
+} as const;
+
+export const methodSchema = {
+  type: 'object',
+  properties: {
+    uuid: { type: 'string' },
+    name: nullableString,
+    type: nullableString,
+    visibility: nullableString,
+    is_static: nullableBoolean,
+    returnType: nullableString,
+    nullable: nullableBoolean,
+    parameters: { ...uuidArray, description: 'Parameter clause UUIDs or clauses' },
+    data: { ...uuidArray, description: 'Statement UUIDs' },
+    clauses: { description: 'Clauses as a list, or a map keyed by UUID' },
+  },
+  required: ['uuid'],
+  additionalProperties: true,
+} as const;
+
+export const statementSchema = {
+  type: 'object',
+  properties: {
+    uuid: { type: 'string' },
+    type: nullableString,
+    code: nullableString,
+    data: { ...uuidArray, description: 'Clause UUIDs in order' },
+    clauses: { description: 'Clauses as a list, or a map keyed by UUID' },
+  },
+  required: ['uuid'],
+  additionalProperties: true,
+} as const;
+
+export const elementSchema = {
+  type: 'object',
+  properties: {
+    uuid: { type: 'string' },
+    type: nullableString,
+    tag: nullableString,
+    name: nullableString,
+    text: nullableString,
+    classes: { type: 'array', items: { type: 'string' }, nullable: true },
+    parent: nullableString,
+    page: nullableString,
+    children: { type: 'array', nullable: true, description: 'Child elements (element trees only)' },
+  },
+  required: ['uuid'],
+  additionalProperties: true,
+} as const;
+
+export const routeSchema = {
+  type: 'object',
+  properties: {
+    uuid: { type: 'string' },
+    name: nullableString,
+    path: nullableString,
+    method: nullableString,
+    type: nullableString,
+    controller: nullableString,
+    controller_method: nullableString,
+    data: { ...uuidArray, description: 'Root element UUIDs' },
+  },
+  required: ['uuid'],
+  additionalProperties: true,
+} as const;
+
+export const directorySchema = {
+  type: 'object',
+  properties: {
+    uuid: { type: 'string' },
+    name: nullableString,
+    data: { ...uuidArray, description: 'File UUIDs' },
+    files: { ...uuidArray, description: 'Files, on endpoints that embed them' },
+    directories: { ...uuidArray, description: 'Subdirectory UUIDs' },
+    subdirectories: { ...uuidArray, description: 'Subdirectory UUIDs (older endpoints)' },
+  },
+  required: ['uuid'],
+  additionalProperties: true,
+} as const;
+
+export const projectInfoSchema = {
+  type: 'object',
+  properties: {
+    uuid: { type: 'string' },
+    name: nullableString,
+    branch: nullableString,
+  },
+  required: ['uuid'],
+  additionalProperties: true,
+} as const;
+
+export const projectSchema = {
+  type: 'object',
+  properties: {
+    project: projectInfoSchema,
+    directories: {
+      type: 'array',
+      items: { type: 'object', properties: { uuid: { type: 'string' }, name: nullableString }, required: ['uuid'], additionalProperties: true },
+      nullable: true,
+    },
+  },
+  required: ['project'],
+  additionalProperties: true,
+} as const;
+
+const generatedFileSchema = {
+  type: 'object',
+  properties: {
+    uuid: { type: 'string' },
+    name: nullableString,
+    namespace: nullableString,
+    methods: { type: 'array', nullable: true },
+  },
+  required: ['uuid'],
+  additionalProperties: true,
+  nullable: true,
+} as const;
+
+export const resourceScaffoldSchema = {
+  type: 'object',
+  properties: {
+    name: nullableString,
+    model: generatedFileSchema,
+    controller: generatedFileSchema,
+    service: generatedFileSchema,
+    migration: {
+      type: 'object',
+      properties: { uuid: { type: 'string' }, name: nullableString, table: nullableString },
+      required: ['uuid'],
+      additionalProperties: true,
+      nullable: true,
+    },
+    statistics: {
+      type: 'object',
+      properties: { files: { type: 'integer', nullable: true }, methods: { type: 'integer', nullable: true } },
+      additionalProperties: true,
+      nullable: true,
+    },
+  },
+  additionalProperties: true,
+} as const;
+
+export const branchSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    from: nullableString,
+    current: nullableBoolean,
+  },
+  required: ['name'],
+  additionalProperties: true,
+} as const;
+
+export const capabilityRequestSchema = {
+  type: 'object',
+  properties: {
+    uuid: nullableString,
+    capability: nullableString,
+    status: nullableString,
+    priority: nullableString,
+  },
+  additionalProperties: true,
+} as const;
+
+export const codeExecutionSchema = {
+  type: 'object',
+  properties: {
+    success: nullableBoolean,
+    output: { description: 'Return value and captured output' },
+    error: { description: 'Error message or details when the run failed' },
+    execution_time: { type: 'number', nullable: true, description: 'Milliseconds' },
+    memory_usage: { description: 'Peak memory, formatted by the API' },
+  },
+  additionalProperties: true,
+} as const;
+
+export type Clause = Model<typeof clauseSchema>;
+export type ClauseList = Clause[] | Record<string, Clause>;
+export type StellifyFile = Model<typeof fileSchema>;
+export type StellifyMethod = Omit<FromSchema<typeof methodSchema>, 'clauses'> & { clauses?: ClauseList | null } & Unlisted;
+export type Statement = Omit<FromSchema<typeof statementSchema>, 'clauses'> & { clauses?: ClauseList | null } & Unlisted;
+export type Element = Model<typeof elementSchema>;
+export type Route = Model<typeof routeSchema>;
+export type Directory = Model<typeof directorySchema>;
+export type ProjectInfo = Model<typeof projectInfoSchema>;
+export type Project = Model<typeof projectSchema>;
+export type ResourceScaffold = Model<typeof resourceScaffoldSchema>;
+export type CodeExecution = Model<typeof codeExecutionSchema>;
+export type Branch = Model<typeof branchSchema>;
+export type CapabilityRequest = Model<typeof capabilityRequestSchema>;
+export type Analysis = Record<string, any> | any[];
+
+// One page of search results, read whatever shape the endpoint answered in
+export interface SearchResults<T> {
+  items: T[];
+  page: number | null;
+  per_page: number | null;
+  total: number | null;
+  has_more: boolean | null; // null when the response does not say
+  api_cursor: string | null;
+}
+
+/**
+ * The entity inside a `{ success, data }` envelope, or the body itself when
+ * it has no envelope (or `data` is a list).
+ */
+export function unwrap(result: any): any {
+  return result && result.data !== undefined && !Array.isArray(result.data) && typeof result.data === 'object'
+    ? result.data
+    : result;
+}
+
+// Clauses come as a list or as a map keyed by UUID; each one is checked
+function clauseIssues(clauses: unknown, path: string): ValidationIssue[] {
+  if (clauses === undefined || clauses === null) return [];
+  if (Array.isArray(clauses)) {
+    return clauses.flatMap((clause, index) => validate(clauseSchema, clause, `${path}[${index}]`));
+  }
+  if (typeof clauses === 'object') {
+    return Object.entries(clauses).flatMap(([uuid, clause]) => validate(clauseSchema, clause, `${path}.${uuid}`));
+  }
+  return [{ path, expected: 'array | object', received: typeof clauses, message: 'must be a list or a map of clauses' }];
+}
+
+function checked<T>(value: unknown, issues: ValidationIssue[], request: string): T {
+  if (issues.length > 0) {
+    throw new ResponseShapeError(request, issues);
+  }
+  return value as T;
+}
+
+/**
+ * Unwrap the response body and check it against the schema; `name` is the
+ * root of the paths in the error. Throws a ResponseShapeError listing every
+ * field that does not match.
+ */
+export function decode<S extends JsonSchema>(schema: S, name: string, body: unknown, request: string): Model<S> {
+  const value = unwrap(body);
+  return checked(value, validate(schema, value, name), request);
+}
+
+/**
+ * Decode a list response: a bare array, `{ data: [...] }`, or a paginated
+ * `{ data: { data: [...] } }`. Only the envelope is unwrapped; an entry's own
+ * `data` field is left alone.
+ */
+export function decodeList<S extends JsonSchema>(schema: S, name: string, body: unknown, request: string): Model<S>[] {
+  const outer = Array.isArray(body) ? body : (body as any)?.data;
+  const list = Array.isArray(outer) ? outer : outer?.data;
+  if (!Array.isArray(list)) {
+    throw new ResponseShapeError(request, [{ path: name, expected: 'array', received: list === null ? 'null' : typeof list, message: 'must be a list' }]);
+  }
+  return list.map((entry, index) => checked<Model<S>>(entry, validate(schema, entry, `${name}[${index}]`), request));
+}
+
+export function decodeMethod(body: unknown, request: string): StellifyMethod {
+  const value = unwrap(body);
+  return checked(value, [...validate(methodSchema, value, 'method'), ...clauseIssues(value?.clauses, 'method.clauses')], request);
+}
+
+// Statements come back either bare or as { statement, clauses }
+export function decodeStatement(body: unknown, request: string): Statement {
+  const value = unwrap(body);
+  const statement = value && typeof value.statement === 'object' && value.statement !== null
+    ? { ...value.statement, clauses: value.clauses ?? value.statement.clauses }
+    : value;
+  return checked(statement, [...validate(statementSchema, statement, 'statement'), ...clauseIssues(statement?.clauses, 'statement.clauses')], request);
+}
+
+// The project comes back either as { project, directories } or flat, with
+// directories as { uuid, name } or as bare UUIDs
+export function decodeProject(body: unknown, request: string): Project {
+  const value = unwrap(body);
+  if (!value || typeof value !== 'object') {
+    return decode(projectSchema, 'project', value, request);
+  }
+  const { directories, ...rest } = value;
+  const project = 'project' in value ? rest : { project: rest };
+  return decode(projectSchema, 'project', {
+    ...project,
+    directories: Array.isArray(directories)
+      ? directories.map((directory) => (typeof directory === 'string' ? { uuid: directory } : directory))
+      : directories,
+  }, request);
+}
+
+// Branches come back as names or as { name, current } objects
+export function decodeBranches(body: unknown, request: string): Branch[] {
+  const outer = Array.isArray(body) ? body : (body as any)?.data;
+  const list = Array.isArray(outer) ? outer.map((branch) => (typeof branch === 'string' ? { name: branch } : branch)) : outer;
+  return decodeList(branchSchema, 'branches', list, request);
+}
+
+// add_method_body answers with the statements it created, bare or as { statement, clauses }
+export function decodeStatements(body: unknown, request: string): Statement[] {
+  const list = Array.isArray(body) ? body : (body as any)?.data;
+  if (!Array.isArray(list)) {
+    throw new ResponseShapeError(request, [{ path: 'statements', expected: 'array', received: list === null ? 'null' : typeof list, message: 'must be a list' }]);
+  }
+  return list.map((entry) => decodeStatement(entry, request));
+}
+
+// Analysis reports are free-form: an object of findings, or a list for the narrower reports
+export function decodeAnalysis(body: unknown, request: string): Analysis {
+  const value = body && typeof body === 'object' && 'data' in body ? (body as any).data : body;
+  if (!value || typeof value !== 'object') {
+    throw new ResponseShapeError(request, [{ path: 'analysis', expected: 'object | array', received: value === null ? 'null' : typeof value, message: 'must be a report' }]);
+  }
+  return value;
+}
+
+function numberOr(value: unknown, fallback: number | null): number | null {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : fallback;
+}
+
+// The list in a search response: `data`, a key named after the results
+// (`files`, `methods`, ...), `results`, `items`, or else its first list
+function resultList(body: any, name: string): any[] | undefined {
+  for (const key of ['data', name, 'results', 'items']) {
+    if (Array.isArray(body[key])) return body[key];
+  }
+  return Object.values(body).find(Array.isArray);
+}
+
+/**
+ * Decode a search response: a bare list, `{ data, pagination }`, or a
+ * Laravel paginator (`current_page`, `last_page`, `next_page_url`,
+ * `next_cursor`), possibly inside the `{ success, data }` envelope. A list
+ * under another key is taken as one complete page unless the body carries
+ * paging details. Each result is checked against the schema.
+ */
+export function decodeSearch<S extends JsonSchema>(schema: S, name: string, body: any, request: string): SearchResults<Model<S>> {
+  if (Array.isArray(body)) {
+    return { items: decodeList(schema, name, body, request), page: null, per_page: null, total: null, has_more: null, api_cursor: null };
+  }
+  if (body && typeof body === 'object' && !Array.isArray(body.data) && body.data && typeof body.data === 'object') {
+    return decodeSearch(schema, name, body.data, request); // Paginator inside the { success, data } envelope
+  }
+  const list = body && typeof body === 'object' ? resultList(body, name) : undefined;
+  if (!list) {
+    throw new ResponseShapeError(request, [{
+      path: name,
+      expected: 'array',
+      received: body === null ? 'null' : typeof body,
+      message: 'must be a list or a paginated list',
+    }]);
+  }
+
+  const meta = body.pagination ?? body.meta ?? body;
+  const page = numberOr(meta.current_page ?? meta.page, null);
+  const lastPage = numberOr(meta.last_page, null);
+  const perPage = numberOr(meta.per_page, null);
+  const total = numberOr(meta.total, null);
+  const apiCursor = typeof meta.next_cursor === 'string' && meta.next_cursor ? meta.next_cursor : null;
+  const nextUrl = meta.next_page_url ?? body.links?.next;
+
+  let hasMore: boolean | null = null;
+  if (typeof meta.has_more === 'boolean') hasMore = meta.has_more;
+  else if (apiCursor) hasMore = true;
+  else if (page !== null && lastPage !== null) hasMore = page < lastPage;
+  else if (nextUrl !== undefined) hasMore = Boolean(nextUrl);
+  else if (page !== null && perPage !== null && total !== null) hasMore = page * perPage < total;
+
+  return { items: decodeList(schema, name, list, request), page, per_page: perPage, total, has_more: hasMore, api_cursor: apiCursor };
+}
@@ -0,0 +1,159 @@
+import type { StellifyClient } from './stellify-client.js';
+import type { SearchResults } from './models.js';
+import { ToolInputError, ValidationIssue } from './validation.js';
+
+// =============================================================================
+// SEARCH PAGINATION
+// =============================================================================
+// The search endpoints answer in several shapes, which the client decodes
+// into one page of results (decodeSearch in models.ts). Each page gets
+// `has_more` and an opaque `next_cursor`. The cursor carries the search
+// filters and the next page (or the API's own cursor), so passing it alone
+// continues the same search. A response without pagination details is taken
+// to hold every match.
+//
+// With `all`, pages are followed until the last one or the result cap; a
+// capped result still has a `next_cursor` to continue from.
+
+export type SearchKind = 'files' | 'methods' | 'routes' | 'elements' | 'library';
+
+export interface SearchArgs {
+  page?: number;
+  per_page?: number;
+  cursor?: string;
+  all?: boolean;
+  [filter: string]: unknown;
+}
+
+export interface Pagination {
+  page: number; // First page in the result
+  per_page: number | null; // null when the API did not say and the page was empty
+  total: number | null; // Matches across all pages, when the API reports it
+  has_more: boolean;
+  next_cursor: string | null;
+  pages?: number; // Pages fetched (all mode)
+  truncated?: boolean; // all mode stopped at the cap with pages left
+}
+
+export interface SearchPage {
+  items: any[];
+  pagination: Pagination;
+}
+
+export const MAX_PER_PAGE = 100;
+
+// all mode: page size when none is given, and the most results returned
+const ALL_PER_PAGE = 100;
+const MAX_ALL_RESULTS = 1000;
+
+const SEARCHES: Record<SearchKind, (client: StellifyClient, params: any) => Promise<SearchResults<any>>> = {
+  files: (client, params) => client.searchFiles(params),
+  methods: (client, params) => client.searchMethods(params),
+  routes: (client, params) => client.searchRoutes(params),
+  elements: (client, params) => client.searchElements(params),
+  library: (client, params) => client.searchFiles({ ...params, project: false }),
+};
+
+// What a cursor carries between calls
+interface CursorState {
+  kind: SearchKind;
+  filters: Record<string, unknown>;
+  page: number;
+  per_page: number | null;
+  api_cursor?: string; // The API's own cursor, for cursor-paginated endpoints
+}
+
+const toolOf = (kind: SearchKind) => `search_${kind}`;
+
+function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+function decodeCursor(kind: SearchKind, cursor: string): CursorState {
+  let state: any;
+  try {
+    state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    state = null;
+  }
+  if (!state || typeof state !== 'object' || !Number.isInteger(state.page) || typeof state.filters !== 'object') {
+    throw new ToolInputError(toolOf(kind), [{ path: 'cursor', expected: 'next_cursor', received: 'string', message: 'is not a next_cursor from an earlier search' }]);
+  }
+  if (state.kind !== kind) {
+    throw new ToolInputError(toolOf(kind), [{ path: 'cursor', expected: 'next_cursor', received: 'string', message: `comes from ${toolOf(state.kind)}, not ${toolOf(kind)}` }]);
+  }
+  return state;
+}
+
+function checkPaging(kind: SearchKind, args: SearchArgs) {
+  const issues: ValidationIssue[] = [];
+  if (args.page !== undefined && !(Number.isInteger(args.page) && args.page >= 1)) {
+    issues.push({ path: 'page', expected: 'integer >= 1', received: String(args.page), message: 'must be a whole number from 1' });
+  }
+  if (args.per_page !== undefined && !(Number.isInteger(args.per_page) && args.per_page >= 1 && args.per_page <= MAX_PER_PAGE)) {
+    issues.push({ path: 'per_page', expected: `integer 1-${MAX_PER_PAGE}`, received: String(args.per_page), message: `must be a whole number from 1 to ${MAX_PER_PAGE}` });
+  }
+  if (issues.length > 0) throw new ToolInputError(toolOf(kind), issues);
+}
+
+/**
+ * One page of a search, or with `all` every page up to the result cap.
+ * `cursor` continues an earlier search; its filters and page size replace
+ * the arguments'.
+ */
+export async function searchPages(client: StellifyClient, kind: SearchKind, args: SearchArgs = {}): Promise<SearchPage> {
+  checkPaging(kind, args);
+  const { page, per_page, cursor, all, ...filters } = args;
+  let state: CursorState = cursor
+    ? decodeCursor(kind, cursor)
+    : { kind, filters, page: page ?? 1, per_page: per_page ?? (all ? ALL_PER_PAGE : null) };
+
+  const fetch = SEARCHES[kind];
+  const first = state.page;
+  const items: any[] = [];
+  let pages = 0;
+  let total: number | null = null;
+  let next: CursorState | null = null;
+
+  do {
+    const params: Record<string, unknown> = { ...state.filters };
+    if (state.api_cursor) params.cursor = state.api_cursor;
+    else if (state.page > 1) params.page = state.page;
+    if (state.per_page !== null) params.per_page = state.per_page;
+
+    const raw = await fetch(client, params);
+    pages++;
+    items.push(...raw.items);
+    total = raw.total ?? total;
+
+    const perPage = state.per_page ?? raw.per_page ?? (raw.items.length || null);
+    const hasMore = raw.items.length > 0 && (raw.has_more ?? false);
+    next = hasMore
+      ? { kind, filters: state.filters, page: (raw.page ?? state.page) + 1, per_page: perPage, ...(raw.api_cursor && { api_cursor: raw.api_cursor }) }
+      : null;
+    if (next) state = next;
+  } while (all && next && items.length < MAX_ALL_RESULTS);
+
+  return {
+    items,
+    pagination: {
+      page: first,
+      per_page: state.per_page,
+      total,
+      has_more: next !== null,
+      next_cursor: next ? encodeCursor(next) : null,
+      ...(all && { pages, truncated: next !== null }),
+    },
+  };
+}
+
+// "Found 20 files (page 1, 35 in total; pass next_cursor for more)"
+export function describeSearch(noun: string, { items, pagination }: SearchPage): string {
+  const details = [
+    pagination.pages ? `${pagination.pages} page${pagination.pages === 1 ? '' : 's'}` : `page ${pagination.page}`,
+    ...(pagination.total !== null ? [`${pagination.total} in total`] : []),
+    ...(pagination.truncated ? [`stopped at ${MAX_ALL_RESULTS} results`] : []),
+    ...(pagination.has_more ? ['pass next_cursor for more'] : []),
+  ];
+  return `Found ${items.length} ${noun} (${details.join(', ')})`;
+}
@@ -0,0 +1,132 @@
+import { readFileSync } from 'fs';
+
+// =============================================================================
+// TOOL POLICY
+// =============================================================================
+// Decides which tools a deployment offers. A policy can make the server
+// read-only, allow or deny tools by name, glob ("delete_*") or category, and
+// require the user's confirmation before some tools run. Denied tools are left
+// out of tools/list and refused when called, including inside a batch.
+//
+// Categories:
+//   read     Tools that only read (get_*, search_*, analyze_*, diff_*, ...)
+//   write    Tools that create or change entities, or write local files
+//   delete   delete_* tools
+//   execute  run_code
+
+export type ToolCategory = 'read' | 'write' | 'delete' | 'execute';
+
+// Tools that write to the Stellify API
+export const MUTATING_TOOLS = new Set([
+  'create_branch', 'create_file', 'create_method', 'add_method_body', 'save_method',
+  'create_route', 'create_element', 'update_element', 'delete_element', 'html_to_elements',
+  'delete_file', 'delete_method', 'delete_statement', 'delete_route', 'delete_directory',
+  'create_vue_component', 'batch', 'create_statement', 'add_statement_code', 'save_file',
+  'patch_file', 'undo_last', 'undo_to', 'import_directory', 'create_directory',
+  'broadcast_element_command', 'create_resources', 'run_code', 'request_capability',
+  'clone_library_file',
+]);
+
+// Writes to the server's filesystem rather than the API
+const LOCAL_WRITE_TOOLS = new Set(['export_project']);
+
+export interface ToolPolicy {
+  read_only: boolean; // Refuse every tool outside the read category
+  allow: string[]; // If not empty, only matching tools are offered
+  deny: string[]; // Matching tools are never offered
+  confirm: string[]; // Matching tools run only after the user confirms
+}
+
+export const DEFAULT_POLICY: ToolPolicy = { read_only: false, allow: [], deny: [], confirm: [] };
+
+export type PolicyDecision =
+  | { action: 'allow' }
+  | { action: 'confirm' }
+  | { action: 'deny'; reason: string };
+
+export class ToolPolicyError extends Error {
+  constructor(public tool: string, public reason: string) {
+    super(`Tool "${tool}" was refused: ${reason}`);
+    this.name = 'ToolPolicyError';
+  }
+}
+
+export function toolCategory(tool: string): ToolCategory {
+  if (tool === 'run_code') return 'execute';
+  if (tool.startsWith('delete_')) return 'delete';
+  if (MUTATING_TOOLS.has(tool) || LOCAL_WRITE_TOOLS.has(tool)) return 'write';
+  return 'read';
+}
+
+// Whether a policy entry matches the tool by name, glob or category
+export function matchesTool(pattern: string, tool: string): boolean {
+  if (pattern === tool || pattern === toolCategory(tool)) return true;
+  if (!pattern.includes('*')) return false;
+  const regex = new RegExp(`^${pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+  return regex.test(tool);
+}
+
+const matching = (patterns: string[], tool: string) => patterns.find((pattern) => matchesTool(pattern, tool));
+
+export function decide(policy: ToolPolicy, tool: string): PolicyDecision {
+  const denied = matching(policy.deny, tool);
+  if (denied) {
+    return { action: 'deny', reason: `denied by policy ("${denied}")` };
+  }
+  if (policy.read_only && toolCategory(tool) !== 'read') {
+    return { action: 'deny', reason: 'the server is in read-only mode' };
+  }
+  if (policy.allow.length > 0 && !matching(policy.allow, tool)) {
+    return { action: 'deny', reason: 'not in the allowed tools' };
+  }
+  return matching(policy.confirm, tool) ? { action: 'confirm' } : { action: 'allow' };
+}
+
+const list = (value: unknown, source: string): string[] => {
+  if (value === undefined) return [];
+  if (typeof value === 'string') return value.split(',').map((entry) => entry.trim()).filter(Boolean);
+  if (Array.isArray(value) && value.every((entry) => typeof entry === 'string')) return value;
+  throw new Error(`${source} must be a list of tool names, globs or categories`);
+};
+
+const flag = (value: string | undefined) => /^(1|true|yes)$/i.test(value || '');
+
+/**
+ * Load the policy from the JSON file in STELLIFY_POLICY_FILE, then apply
+ * STELLIFY_READ_ONLY and the STELLIFY_ALLOW_TOOLS / STELLIFY_DENY_TOOLS /
+ * STELLIFY_CONFIRM_TOOLS lists on top. Throws if the file cannot be used, so
+ * a broken policy never means an open server.
+ */
+export function policyFromEnv(env: NodeJS.ProcessEnv = process.env): ToolPolicy {
+  const policy: ToolPolicy = { ...DEFAULT_POLICY };
+
+  const file = env.STELLIFY_POLICY_FILE?.trim();
+  if (file) {
+    let config: any;
+    try {
+      config = JSON.parse(readFileSync(file, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`Could not read the policy file ${file}: ${error.message}`);
+    }
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+      throw new Error(`The policy file ${file} must contain a JSON object`);
+    }
+    const unknown = Object.keys(config).filter((key) => !(key in DEFAULT_POLICY));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown keys in the policy file ${file}: ${unknown.join(', ')}`);
+    }
+    if (config.read_only !== undefined && typeof config.read_only !== 'boolean') {
+      throw new Error(`"read_only" in the policy file ${file} must be true or false`);
+    }
+    policy.read_only = config.read_only === true;
+    policy.allow = list(config.allow, `"allow" in ${file}`);
+    policy.deny = list(config.deny, `"deny" in ${file}`);
+    policy.confirm = list(config.confirm, `"confirm" in ${file}`);
+  }
+
+  if (env.STELLIFY_READ_ONLY !== undefined) policy.read_only = flag(env.STELLIFY_READ_ONLY);
+  if (env.STELLIFY_ALLOW_TOOLS) policy.allow = list(env.STELLIFY_ALLOW_TOOLS, 'STELLIFY_ALLOW_TOOLS');
+  if (env.STELLIFY_DENY_TOOLS) policy.deny = [...policy.deny, ...list(env.STELLIFY_DENY_TOOLS, 'STELLIFY_DENY_TOOLS')];
+  if (env.STELLIFY_CONFIRM_TOOLS) policy.confirm = [...policy.confirm, ...list(env.STELLIFY_CONFIRM_TOOLS, 'STELLIFY_CONFIRM_TOOLS')];
+  return policy;
+}
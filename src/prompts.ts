@@ -0,0 +1,261 @@
+import { ErrorCode, GetPromptResult, McpError, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { ELEMENT_EVENTS } from './renderer.js';
+
+// =============================================================================
+// WORKFLOW PROMPTS
+// =============================================================================
+// The canonical Stellify workflows as MCP prompts, so clients that never read
+// the server instructions can still offer them from their prompt menu. Each
+// prompt expands into one user message: numbered steps naming the tools to
+// call and the arguments each one takes, with the prompt's arguments filled in.
+//
+// Prompt arguments are strings (the protocol allows nothing else); optional
+// ones are left out of the steps when not given. Unknown prompts and bad
+// arguments are InvalidParams errors, as the protocol specifies.
+
+type PromptArgs = Record<string, string | undefined>;
+
+interface WorkflowPrompt extends Prompt {
+  tools: string[]; // Tools the steps call; the prompt is hidden if the policy denies any
+  render: (args: PromptArgs) => string;
+}
+
+const ANALYSIS_TYPES = ['full', 'relationships', 'fillables', 'casts', 'routes'];
+
+function json(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+// Optional arguments are only passed on when given
+function given(args: PromptArgs, ...names: string[]): Record<string, string> {
+  return Object.fromEntries(names.filter((name) => args[name]).map((name) => [name, args[name]!]));
+}
+
+const PROMPTS: WorkflowPrompt[] = [
+  {
+    name: 'build_vue_component',
+    title: 'Build a Vue component',
+    description: 'Build a Vue single-file component in the project: script setup statements, methods, template elements and event handlers, saved as one file.',
+    arguments: [
+      { name: 'name', description: 'Component name in PascalCase, without extension (e.g. "TodoList")', required: true },
+      { name: 'description', description: 'What the component shows and does', required: true },
+      { name: 'directory', description: 'Directory UUID (default: the project\'s "js" directory)' },
+      { name: 'module', description: 'Module name to group the component with related code' },
+    ],
+    tools: ['create_vue_component', 'render_file'],
+    render: (args) => `Build a Vue 3 component named "${args.name}" in my Stellify project.
+
+What it should do: ${args.description}
+
+Follow these steps:
+
+1. Write the complete single-file component yourself: a <template> block and a <script setup> block using the Composition API. Event handlers must name a function (@click="increment" or @click="increment()"); inline expressions and modifiers are not wired. Supported events: ${ELEMENT_EVENTS.join(', ')}.
+
+2. Call create_vue_component with the whole source:
+${json({ name: args.name, source: '<template>...</template>\n<script setup>...</script>', ...given(args, 'directory', 'module') })}
+It creates the file, one statement per import/ref/constant, one method per function, the template elements, wires the events to the method UUIDs and saves the file. Missing Vue imports (ref, computed, onMounted, ...) are added for you.
+
+3. Read the "warnings" in the response. For each event it could not wire, fix the handler so it names a function and wire it with update_element: { "uuid": "<element uuid>", "data": { "<event>": "<method uuid>" } }.
+
+4. Call render_file with { "uuid": "<file uuid from step 2>" } and check the rendered source matches what you wrote.
+
+If create_vue_component is unavailable, build the component step by step instead:
+- get_project, and take the UUID of the "js" directory
+- create_file with { "name": "${args.name}", "type": "js", "extension": "vue", "directory": "<js directory uuid>" }
+- for each import, ref and constant: create_statement with { "file": "<file uuid>" }, then add_statement_code with { "file": "<file uuid>", "statement": "<statement uuid>", "code": "const count = ref(0);" }
+- for each function: create_method with { "file": "<file uuid>", "name": "increment" }, then add_method_body with { "file": "<file uuid>", "method": "<method uuid>", "code": "count.value++;" }
+- html_to_elements with { "elements": "<template html>" } and no page
+- update_element with { "uuid": "<element uuid>", "data": { "click": "<method uuid>" } } for each event handler
+- save_file with { "uuid": "<file uuid>", "name": "${args.name}", "type": "js", "extension": "vue", "template": ["<root element uuid>"], "data": ["<method uuids>"], "statements": ["<import uuid>", "<ref uuids>"] }. "data" takes METHOD UUIDs only; "statements" takes statement UUIDs, in the order they should appear.`,
+  },
+  {
+    name: 'build_crud_resource',
+    title: 'Build a CRUD resource',
+    description: 'Scaffold a Laravel model, controller, service and migration for a resource, then add its API routes.',
+    arguments: [
+      { name: 'name', description: 'Resource name in PascalCase (e.g. "BlogPost")', required: true },
+      { name: 'fields', description: 'Fields as name:type, comma separated; add ":nullable" or ":unique" (e.g. "title:string, body:text, published_at:datetime:nullable")', required: true },
+      { name: 'relationships', description: 'Relationships as type:Model, comma separated (e.g. "belongsTo:User, hasMany:Comment")' },
+      { name: 'module', description: 'Module name to group the routes with the resource' },
+    ],
+    tools: ['create_resources', 'create_route', 'analyze_quality'],
+    render: (args) => `Build a complete CRUD resource named "${args.name}" in my Stellify project.
+
+Fields: ${args.fields}${args.relationships ? `\nRelationships: ${args.relationships}` : ''}
+
+Follow these steps:
+
+1. Call get_project and check the "capabilities" list if any field or behaviour needs a package. If one is missing, call request_capability and stop: do not write package code yourself.
+
+2. Call create_resources once, turning the fields and relationships above into objects, for example:
+${json({
+  name: args.name,
+  fields: [{ name: 'title', type: 'string' }, { name: 'published_at', type: 'datetime', nullable: true }],
+  relationships: args.relationships ? [{ type: 'belongsTo', model: 'User' }] : [],
+  controller: true,
+  service: true,
+  migration: true,
+})}
+Field types: string, text, longtext, integer, bigint, boolean, float, decimal, date, datetime, timestamp, json, email. Field options: nullable, unique, required, default, max. Relationship types: hasOne, hasMany, belongsTo, belongsToMany. Keep the UUIDs of the model, controller and the controller's index, store, show, update and destroy methods from the response.
+
+3. Call create_route for each endpoint, with "type": "api"${args.module ? ` and "module": "${args.module}"` : ''}, binding it to its controller method through "data":
+- GET /<plural> → index
+- POST /<plural> → store
+- GET /<plural>/{id} → show
+- PUT /<plural>/{id} → update
+- DELETE /<plural>/{id} → destroy
+For example:
+${json({
+  name: `${args.name} index`,
+  path: '/<plural>',
+  method: 'GET',
+  type: 'api',
+  data: { controller: '<controller uuid>', controller_method: '<index method uuid>' },
+  ...given(args, 'module'),
+})}
+
+4. Call analyze_quality with { "type": "full" } and fix what it reports for the new model (missing $fillable entries, casts, relationships) with add_method_body or create_statement + add_statement_code.
+
+Finish with a summary of the files, methods and routes created, with their UUIDs.`,
+  },
+  {
+    name: 'build_page_from_html',
+    title: 'Build a page from HTML',
+    description: 'Create a web route and build its content from HTML in one html_to_elements call.',
+    arguments: [
+      { name: 'name', description: 'Page name (e.g. "About")', required: true },
+      { name: 'path', description: 'URL path (e.g. "/about")', required: true },
+      { name: 'html', description: 'The page HTML; leave empty to have it written from the page name' },
+      { name: 'module', description: 'Module name to group the page with related code' },
+    ],
+    tools: ['create_route', 'html_to_elements'],
+    render: (args) => `Build a page named "${args.name}" at ${args.path} in my Stellify project.
+
+Follow these steps:
+
+1. Call search_routes with { "search": "${args.name}", "type": "web" }. If a route with this path already exists, use its UUID and skip step 2.
+
+2. Call create_route:
+${json({ name: args.name, path: args.path, method: 'GET', type: 'web', ...given(args, 'module') })}
+Keep the route UUID from the response.
+
+3. Call html_to_elements ONCE with the whole page, attached to the route:
+{ "elements": "<html>", "page": "<route uuid>" }
+${args.html
+    ? `Use this HTML:\n\n${args.html}`
+    : 'Write semantic HTML with Tailwind classes for the page content (no <html>, <head> or <body> tags).'}
+
+4. Text like {{ count }} becomes a statement on its element. If the page uses bindings, create the data behind them with create_statement + add_statement_code.
+
+5. Call get_route with { "uuid": "<route uuid>" } and confirm the root element UUIDs are attached.`,
+  },
+  {
+    name: 'add_event_handler',
+    title: 'Add an event handler',
+    description: 'Wire an element event (click, submit, ...) to a method, creating the method if it does not exist.',
+    arguments: [
+      { name: 'element', description: 'UUID of the element to wire', required: true },
+      { name: 'event', description: `Event name: ${ELEMENT_EVENTS.join(', ')}`, required: true },
+      { name: 'method', description: 'Name of the handler method (e.g. "increment")', required: true },
+      { name: 'file', description: 'UUID of the Vue file the handler belongs to' },
+      { name: 'behaviour', description: 'What the handler should do, if it has to be written' },
+    ],
+    tools: ['get_element', 'search_methods', 'update_element'],
+    render: (args) => `Make the "${args.event}" event of element ${args.element} call the method "${args.method}".
+
+Follow these steps:
+
+1. Call get_element with { "uuid": "${args.element}" } and check the element exists. Note any handler already set on "${args.event}"; it will be replaced.
+
+2. Call search_methods with ${json({ name: args.method, ...(args.file && { file_uuid: args.file }) })}${args.file ? '' : '\nIf several files have a method with this name, ask me which file the element belongs to.'}
+
+3. If the method does not exist, create it in the component file:
+- create_method with { "file": "${args.file || '<file uuid>'}", "name": "${args.method}" }
+- add_method_body with { "file": "${args.file || '<file uuid>'}", "method": "<method uuid>", "code": "<function body>" }
+${args.behaviour ? `The handler should: ${args.behaviour}` : 'Ask me what the handler should do if it is not clear.'}
+- then call get_file on the component file and save_file with the new method UUID added to its "data" array.
+
+4. Wire the event with update_element, setting the event field to the method UUID:
+${json({ uuid: args.element, data: { [args.event!]: '<method uuid>' } })}
+
+5. Call render_file on the component file and check the template shows @${args.event}="${args.method}".`,
+  },
+  {
+    name: 'diagnose_quality',
+    title: 'Diagnose code quality',
+    description: 'Run the quality and performance analyses and turn the findings into a prioritised list of fixes.',
+    arguments: [
+      { name: 'focus', description: `Analysis type: ${ANALYSIS_TYPES.join(', ')} (default: full)` },
+      { name: 'days', description: 'Days of execution logs to analyse for performance (default: 7)' },
+    ],
+    tools: ['analyze_quality', 'analyze_performance'],
+    render: (args) => `Diagnose the quality of my Stellify project and tell me what to fix.
+
+Follow these steps:
+
+1. Call analyze_quality with { "type": "${args.focus || 'full'}" }.
+
+2. Call analyze_performance with ${json({ type: 'full', days: args.days ? Number(args.days) : 7 })}
+If it reports N+1 patterns, follow up with { "type": "high_query_methods", "limit": 10 }.
+
+3. For each finding, look up the code involved (search_methods, get_file) so the fix refers to real files and methods.
+
+4. Report the findings grouped by severity, each with the file or method, the problem and the exact change: for example "Add 'published_at' to $fillable in Post" or "Eager load user in PostController@index".
+
+Do not change any code yet. Ask me which fixes to apply; then apply them with add_method_body, save_method or create_statement + add_statement_code.`,
+  },
+];
+
+function invalid(prompt: string, message: string): never {
+  throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for prompt ${prompt}: ${message}`);
+}
+
+/**
+ * The prompts whose tools are all allowed.
+ */
+export function listPrompts(allowed: (tool: string) => boolean): Prompt[] {
+  return PROMPTS
+    .filter((prompt) => prompt.tools.every(allowed))
+    .map(({ tools, render, ...prompt }) => prompt);
+}
+
+/**
+ * Expand a prompt with its arguments into the messages the client sends.
+ */
+export function getPrompt(name: string, args: PromptArgs = {}, allowed: (tool: string) => boolean = () => true): GetPromptResult {
+  const prompt = PROMPTS.find((candidate) => candidate.name === name);
+  if (!prompt || !prompt.tools.every(allowed)) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const values: PromptArgs = {};
+  for (const argument of prompt.arguments || []) {
+    const value = args[argument.name]?.trim();
+    if (value) {
+      values[argument.name] = value;
+    } else if (argument.required) {
+      invalid(name, `"${argument.name}" is required`);
+    }
+  }
+  if (name === 'add_event_handler' && !ELEMENT_EVENTS.includes(values.event!)) {
+    invalid(name, `"event" must be one of ${ELEMENT_EVENTS.join(', ')}`);
+  }
+  if (name === 'diagnose_quality') {
+    if (values.focus && !ANALYSIS_TYPES.includes(values.focus)) {
+      invalid(name, `"focus" must be one of ${ANALYSIS_TYPES.join(', ')}`);
+    }
+    if (values.days && !(Number.isInteger(Number(values.days)) && Number(values.days) > 0)) {
+      invalid(name, '"days" must be a positive integer');
+    }
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text: prompt.render(values) },
+      },
+    ],
+  };
+}
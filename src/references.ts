@@ -0,0 +1,374 @@
+import type { StellifyClient } from './stellify-client.js';
+import { ELEMENT_EVENTS } from './renderer.js';
+
+// =============================================================================
+// REFERENCE CHECKING FOR DELETES
+// =============================================================================
+// Before an entity is deleted, the project is walked for anything still
+// pointing at its UUID: file data/statements/includes/template arrays, method
+// bodies, element event handlers and statement bindings, routes, and parent
+// directories. Deletes are refused while such references exist unless the
+// caller passes `cascade` (detach them first) or `force` (leave them dangling).
+//
+// The check fails closed: if any part of the project cannot be read, nothing
+// is deleted. The project is read once per delete; a cascade reuses it and
+// keeps it up to date as it detaches and deletes.
+
+export type DeletableKind = 'file' | 'method' | 'statement' | 'route' | 'directory';
+
+export interface Reference {
+  kind: 'directory' | 'file' | 'method' | 'element' | 'route';
+  uuid: string;
+  name?: string;
+  field: string;
+  detachable: boolean; // Whether cascade can remove this reference
+}
+
+export interface DeleteOptions {
+  force?: boolean;
+  cascade?: boolean;
+}
+
+export interface DeleteReport {
+  kind: DeletableKind;
+  uuid: string;
+  deleted: boolean;
+  refused?: string;
+  references: Reference[];
+  detached: Reference[];
+  cascaded: Array<{ kind: DeletableKind; uuid: string }>;
+  result?: any;
+}
+
+function uuidOf(entry: any): string | null {
+  if (typeof entry === 'string') return entry;
+  return entry && typeof entry.uuid === 'string' ? entry.uuid : null;
+}
+
+// Top-level fields of an entity whose value is, or contains, the target UUID
+function referencingFields(entity: any, target: string): string[] {
+  if (!entity || typeof entity !== 'object') return [];
+  return Object.entries(entity)
+    .filter(([key, value]) => {
+      if (key === 'uuid') return false;
+      if (value === target) return true;
+      return Array.isArray(value) && value.some((entry) => uuidOf(entry) === target);
+    })
+    .map(([key]) => key);
+}
+
+export interface ProjectIndex {
+  directories: Array<{ uuid: string; entity: any }>;
+  files: Array<{ uuid: string; entity: any; directory: string }>; // directory: UUID of the listing directory
+}
+
+// The project as one delete sees it: the index plus every route
+interface ReferenceScan {
+  index: ProjectIndex;
+  routes: any[];
+}
+
+async function read<T>(what: string, load: () => Promise<T>): Promise<T> {
+  try {
+    return await load();
+  } catch (error: any) {
+    throw new Error(`Could not read ${what}: ${error.response?.data?.message || error.message}`);
+  }
+}
+
+/**
+ * Every directory and file reachable from the project, fetched once.
+ */
+export async function indexProject(client: StellifyClient): Promise<ProjectIndex> {
+  const index: ProjectIndex = { directories: [], files: [] };
+  const seenDirectories = new Set<string>();
+  const seenFiles = new Set<string>();
+
+  const visitDirectory = async (uuid: string) => {
+    if (seenDirectories.has(uuid)) return;
+    seenDirectories.add(uuid);
+    const directory = await read(`directory ${uuid}`, () => client.getDirectory(uuid));
+    index.directories.push({ uuid, entity: directory });
+
+    const files: any[] = [...(directory.files || []), ...(Array.isArray(directory.data) ? directory.data : [])];
+    for (const entry of files) {
+      const fileUuid = uuidOf(entry);
+      if (!fileUuid || seenFiles.has(fileUuid)) continue;
+      seenFiles.add(fileUuid);
+      const file = await read(`file ${fileUuid}`, () => client.getFile(fileUuid));
+      index.files.push({ uuid: fileUuid, entity: file, directory: uuid });
+    }
+    for (const entry of directory.directories || directory.subdirectories || []) {
+      const directoryUuid = uuidOf(entry);
+      if (directoryUuid) await visitDirectory(directoryUuid);
+    }
+  };
+
+  const project = await client.getProject();
+  for (const entry of project.directories || []) {
+    await visitDirectory(entry.uuid);
+  }
+  return index;
+}
+
+async function scanProject(client: StellifyClient): Promise<ReferenceScan> {
+  const index = await indexProject(client);
+  const { items, pagination } = await read('routes', () => client.search('routes', { all: true }));
+  if (pagination.truncated) {
+    throw new Error(`Could not read routes: more than ${items.length}`);
+  }
+  return { index, routes: items };
+}
+
+function collectElements(node: any, into: any[]) {
+  if (!node || typeof node !== 'object') return;
+  into.push(node);
+  (Array.isArray(node.children) ? node.children : []).forEach((child: any) => collectElements(child, into));
+}
+
+/**
+ * Find everything in the active project that still references the target.
+ * Ownership links that the delete itself removes (a directory listing its
+ * own files) are not reported for files.
+ */
+export async function findReferences(
+  client: StellifyClient,
+  kind: DeletableKind,
+  uuid: string,
+  scan?: ReferenceScan
+): Promise<Reference[]> {
+  const references: Reference[] = [];
+  const { index, routes } = scan ?? await scanProject(client);
+
+  // Parent directories only matter when a directory itself is deleted
+  if (kind === 'directory') {
+    for (const directory of index.directories) {
+      if (directory.uuid === uuid) continue;
+      for (const field of referencingFields(directory.entity, uuid)) {
+        references.push({ kind: 'directory', uuid: directory.uuid, name: directory.entity.name, field, detachable: true });
+      }
+    }
+  }
+
+  for (const file of index.files) {
+    if (file.uuid === uuid) continue;
+    for (const field of referencingFields(file.entity, uuid)) {
+      references.push({ kind: 'file', uuid: file.uuid, name: file.entity.name, field, detachable: true });
+    }
+  }
+
+  // Method bodies hold statement UUIDs in their data arrays
+  if (kind === 'statement') {
+    for (const file of index.files) {
+      for (const methodUuid of file.entity.data || []) {
+        const method = await read(`method ${methodUuid}`, () => client.getMethod(methodUuid));
+        for (const field of referencingFields(method, uuid)) {
+          references.push({ kind: 'method', uuid: methodUuid, name: method.name ?? undefined, field, detachable: true });
+        }
+      }
+    }
+  }
+
+  // Elements wire methods through event fields and statements through bindings,
+  // in file templates and on route pages
+  if (kind === 'method' || kind === 'statement') {
+    const elements: any[] = [];
+    const roots = [
+      ...index.files.flatMap((file) => file.entity.template || []),
+      ...routes.flatMap((route) => route.data || []),
+    ];
+    for (const root of new Set(roots.map(uuidOf).filter((entry): entry is string => !!entry))) {
+      collectElements(await read(`element ${root}`, () => client.getElementTree(root)), elements);
+    }
+    for (const element of elements) {
+      if (!element.uuid) continue;
+      for (const field of referencingFields(element, uuid)) {
+        references.push({ kind: 'element', uuid: element.uuid, name: element.name, field, detachable: true });
+      }
+    }
+  }
+
+  // Routes can point at controller files and methods; there is no route update endpoint
+  if (kind === 'file' || kind === 'method') {
+    for (const route of routes) {
+      for (const field of referencingFields(route, uuid)) {
+        references.push({ kind: 'route', uuid: route.uuid, name: route.name, field, detachable: false });
+      }
+    }
+  }
+
+  return references;
+}
+
+function without(value: any, target: string): any {
+  return Array.isArray(value) ? value.filter((entry) => uuidOf(entry) !== target) : null;
+}
+
+async function detach(client: StellifyClient, reference: Reference, target: string) {
+  switch (reference.kind) {
+    case 'file': {
+      const file = await client.getFile(reference.uuid);
+      await client.saveFile(reference.uuid, { ...file, uuid: reference.uuid, [reference.field]: without(file[reference.field], target) });
+      break;
+    }
+    case 'method': {
+      const method = await client.getMethod(reference.uuid);
+      await client.saveMethod(reference.uuid, { ...method, uuid: reference.uuid, [reference.field]: without(method[reference.field], target) });
+      break;
+    }
+    case 'element': {
+      const element = await client.getElement(reference.uuid);
+      const value = ELEMENT_EVENTS.includes(reference.field) ? null : without(element[reference.field], target);
+      await client.updateElement(reference.uuid, { [reference.field]: value });
+      break;
+    }
+    case 'directory': {
+      const directory = await client.getDirectory(reference.uuid);
+      await client.saveDirectory(reference.uuid, { ...directory, [reference.field]: without(directory[reference.field], target) });
+      break;
+    }
+    default:
+      throw new Error(`Cannot detach ${reference.kind} reference ${reference.uuid}`);
+  }
+}
+
+// Keep the scan in step with a detached reference or a deleted entity
+function detachInScan(scan: ReferenceScan, reference: Reference, target: string) {
+  const entries = reference.kind === 'file' ? scan.index.files : reference.kind === 'directory' ? scan.index.directories : [];
+  const entry = entries.find((candidate) => candidate.uuid === reference.uuid);
+  if (entry) entry.entity = { ...entry.entity, [reference.field]: without(entry.entity[reference.field], target) };
+}
+
+function deleteInScan(scan: ReferenceScan, kind: DeletableKind, uuid: string) {
+  if (kind === 'file') scan.index.files = scan.index.files.filter((file) => file.uuid !== uuid);
+  if (kind === 'directory') scan.index.directories = scan.index.directories.filter((directory) => directory.uuid !== uuid);
+  if (kind === 'route') scan.routes = scan.routes.filter((route) => route.uuid !== uuid);
+}
+
+async function rawDelete(client: StellifyClient, kind: DeletableKind, uuid: string) {
+  switch (kind) {
+    case 'file': return client.deleteFile(uuid);
+    case 'method': return client.deleteMethod(uuid);
+    case 'statement': return client.deleteStatement(uuid);
+    case 'route': return client.deleteRoute(uuid);
+    case 'directory': return client.deleteDirectory(uuid);
+  }
+}
+
+// A directory's files and subdirectories, which a cascade deletes with it
+async function directoryContents(client: StellifyClient, uuid: string): Promise<Array<{ kind: DeletableKind; uuid: string }>> {
+  const directory = await client.getDirectory(uuid);
+  const files: any[] = [...(directory.files || []), ...(Array.isArray(directory.data) ? directory.data : [])];
+  return [
+    ...files.map(uuidOf).filter((entry): entry is string => !!entry).map((entry) => ({ kind: 'file' as const, uuid: entry })),
+    ...(directory.directories || directory.subdirectories || [])
+      .map(uuidOf)
+      .filter((entry: string | null): entry is string => !!entry)
+      .map((entry: string) => ({ kind: 'directory' as const, uuid: entry })),
+  ];
+}
+
+// Why the delete would be refused without force, if it would.
+// Directory contents are checked separately: they would be orphaned, not dangling
+function refusal(references: Reference[], contents: unknown[], options: DeleteOptions): string | undefined {
+  if (references.length > 0 && !options.cascade) {
+    return `${references.length} reference(s) would be left dangling. Pass cascade to detach them or force to delete anyway.`;
+  }
+  const blocking = references.filter((reference) => !reference.detachable);
+  if (blocking.length > 0) {
+    return `${blocking.length} reference(s) cannot be detached automatically (${blocking.map((r) => `${r.kind} ${r.uuid}`).join(', ')}). Remove them first or pass force.`;
+  }
+  if (contents.length > 0 && !options.cascade) {
+    return `Directory is not empty (${contents.length} item(s)). Pass cascade to delete its contents or force to delete anyway.`;
+  }
+  return undefined;
+}
+
+// Check everything a cascade would delete, however deep, before anything is detached or deleted
+async function cascadeRefusal(
+  client: StellifyClient,
+  contents: Array<{ kind: DeletableKind; uuid: string }>,
+  options: DeleteOptions,
+  scan: ReferenceScan
+): Promise<string | undefined> {
+  for (const item of contents) {
+    const references = await findReferences(client, item.kind, item.uuid, scan);
+    const nested = item.kind === 'directory' ? await directoryContents(client, item.uuid) : [];
+    const refused = refusal(references, nested, options) ?? await cascadeRefusal(client, nested, options, scan);
+    if (refused) {
+      return `Could not delete ${item.kind} ${item.uuid}: ${refused}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Delete an entity after checking for references. With `cascade`, detachable
+ * references are removed first and a directory's contents are deleted too;
+ * every nested entity is checked before anything changes.
+ */
+export async function deleteWithReferences(
+  client: StellifyClient,
+  kind: DeletableKind,
+  uuid: string,
+  options: DeleteOptions = {},
+  scan?: ReferenceScan
+): Promise<DeleteReport> {
+  let references: Reference[];
+  try {
+    scan ??= await scanProject(client);
+    references = await findReferences(client, kind, uuid, scan);
+  } catch (error: any) {
+    error.message = `Could not check references to ${kind} ${uuid}, so nothing was deleted. ${error.message}`;
+    throw error;
+  }
+  const report: DeleteReport = { kind, uuid, deleted: false, references, detached: [], cascaded: [] };
+  const contents = kind === 'directory' ? await directoryContents(client, uuid) : [];
+
+  if (!options.force) {
+    let refused = refusal(references, contents, options);
+    if (!refused && options.cascade) {
+      try {
+        refused = await cascadeRefusal(client, contents, options, scan);
+      } catch (error: any) {
+        error.message = `Could not check the contents of ${kind} ${uuid}, so nothing was deleted. ${error.message}`;
+        throw error;
+      }
+    }
+    if (refused) {
+      report.refused = refused;
+      return report;
+    }
+  }
+
+  return remove(client, report, contents, options, scan);
+}
+
+// Detach, delete the contents and then the entity itself, once all of it has been checked.
+// References are found again for each nested entity, as deleting its siblings removes some.
+async function remove(
+  client: StellifyClient,
+  report: DeleteReport,
+  contents: Array<{ kind: DeletableKind; uuid: string }>,
+  options: DeleteOptions,
+  scan: ReferenceScan
+): Promise<DeleteReport> {
+  if (options.cascade) {
+    for (const reference of report.references.filter((entry) => entry.detachable)) {
+      await detach(client, reference, report.uuid);
+      detachInScan(scan, reference, report.uuid);
+      report.detached.push(reference);
+    }
+    for (const item of contents) {
+      const references = await findReferences(client, item.kind, item.uuid, scan);
+      const nestedContents = item.kind === 'directory' ? await directoryContents(client, item.uuid) : [];
+      const nested = await remove(client, { ...item, deleted: false, references, detached: [], cascaded: [] }, nestedContents, options, scan);
+      report.cascaded.push({ kind: item.kind, uuid: item.uuid }, ...nested.cascaded);
+    }
+  }
+
+  report.result = await rawDelete(client, report.kind, report.uuid);
+  deleteInScan(scan, report.kind, report.uuid);
+  report.deleted = true;
+  return report;
+}
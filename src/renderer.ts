@@ -0,0 +1,373 @@
+import path from 'path';
+import type { StellifyClient } from './stellify-client.js';
+import type { Statement } from './models.js';
+import { exportPath } from './exporter.js';
+
+// =============================================================================
+// FILE RENDERER
+// =============================================================================
+// Assembles readable source text (PHP classes, Vue SFCs, plain JS) from the
+// structured JSON Stellify stores. Anything that cannot be fetched or rendered
+// is replaced with a `stellify:unrendered` marker and listed in the result, so
+// gaps are visible instead of silently dropped.
+
+export interface UnrenderedNode {
+  kind: 'file' | 'method' | 'statement' | 'clause' | 'element' | 'include' | 'event';
+  uuid: string;
+  reason: string;
+}
+
+export interface RenderedFile {
+  uuid: string;
+  name: string;
+  type: string | null;
+  namespace: string | null;
+  extension: string | null;
+  filename: string;
+  language: 'php' | 'vue' | 'js';
+  source: string;
+  unrendered: UnrenderedNode[];
+}
+
+// Element fields that are Stellify metadata rather than HTML attributes
+const ELEMENT_INTERNAL_KEYS = new Set([
+  'uuid', 'name', 'type', 'locked', 'tag', 'classes', 'text', 'data', 'children',
+  'statements', 'parent', 'page', 'route', 'project', 'project_id', 'user_id',
+  'created_at', 'updated_at', 'deleted_at', 'order', 'position',
+]);
+
+// Element fields whose value is a method UUID wired as a Vue event handler
+export const ELEMENT_EVENTS = [
+  'click', 'submit', 'change', 'input', 'focus', 'blur',
+  'keydown', 'keyup', 'mouseenter', 'mouseleave',
+];
+
+const VOID_TAGS = new Set(['area', 'br', 'col', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+const INDENT = '    ';
+
+function indent(text: string, depth: number): string {
+  const prefix = INDENT.repeat(depth);
+  return text
+    .split('\n')
+    .map((line) => (line.length > 0 ? prefix + line : line))
+    .join('\n');
+}
+
+// Directory names from the project root down to each directory, fetched once per render
+async function directoryChains(client: StellifyClient): Promise<Map<string, string[]>> {
+  const chains = new Map<string, string[]>();
+  const visit = async (uuid: string, chain: string[]) => {
+    if (chains.has(uuid)) return;
+    const directory = await client.getDirectory(uuid);
+    const here = [...chain, directory.name || uuid];
+    chains.set(uuid, here);
+    const children: any[] = directory.directories || directory.subdirectories || [];
+    for (const child of children) {
+      const childUuid = typeof child === 'string' ? child : child?.uuid;
+      if (childUuid) await visit(childUuid, here);
+    }
+  };
+  const { directories } = await client.getProject();
+  for (const entry of directories || []) {
+    await visit(entry.uuid, []);
+  }
+  return chains;
+}
+
+class FileRenderer {
+  private unrendered: UnrenderedNode[] = [];
+  private methodNames = new Map<string, string>();
+  private chains?: Promise<Map<string, string[]>>;
+
+  constructor(
+    private client: StellifyClient,
+    private language: 'php' | 'vue' | 'js',
+    private directory: string | null
+  ) {}
+
+  get gaps(): UnrenderedNode[] {
+    return this.unrendered;
+  }
+
+  marker(kind: UnrenderedNode['kind'], uuid: string, reason: string, html = false): string {
+    this.unrendered.push({ kind, uuid, reason });
+    const note = `stellify:unrendered ${kind} ${uuid} (${reason})`;
+    return html ? `<!-- ${note} -->` : `/* ${note} */`;
+  }
+
+  async statement(uuid: string): Promise<string> {
+    let statement: Statement;
+    try {
+      statement = await this.client.getStatement(uuid);
+    } catch (error: any) {
+      return this.marker('statement', uuid, error.message);
+    }
+
+    if (typeof statement.code === 'string' && statement.code.trim()) {
+      return statement.code.trim();
+    }
+
+    const clauses = this.orderClauses(statement, statement.clauses);
+    if (clauses.length === 0) {
+      return this.marker('statement', uuid, 'no code or clauses');
+    }
+    return clauses.map((clause) => this.clause(clause)).join('').trim();
+  }
+
+  private orderClauses(statement: any, clauses: any): any[] {
+    if (Array.isArray(clauses)) {
+      return clauses;
+    }
+    if (clauses && typeof clauses === 'object') {
+      const order: string[] = Array.isArray(statement.data) ? statement.data : Object.keys(clauses);
+      return order.map((uuid) => clauses[uuid] || { uuid, missing: true });
+    }
+    return [];
+  }
+
+  clause(clause: any): string {
+    if (!clause || clause.missing) {
+      return this.marker('clause', clause?.uuid || 'unknown', 'clause not returned');
+    }
+    if (typeof clause.code === 'string') {
+      return clause.code;
+    }
+    const value = clause.value ?? clause.name;
+    if (value === undefined || value === null) {
+      return this.marker('clause', clause.uuid || 'unknown', 'clause has no value');
+    }
+    const text = String(value);
+    if (this.language === 'php' && clause.type === 'variable' && !text.startsWith('$')) {
+      return `$${text}`;
+    }
+    return text;
+  }
+
+  parameter(parameter: any, clauses: Record<string, any>): string {
+    const clause = typeof parameter === 'string' ? clauses[parameter] : parameter;
+    if (!clause) {
+      return this.marker('clause', String(parameter), 'parameter clause not returned');
+    }
+    const name = String(clause.name ?? clause.value ?? '');
+    if (!name) {
+      return this.marker('clause', clause.uuid || 'unknown', 'parameter has no name');
+    }
+    const datatype = clause.datatype || clause.type_hint;
+    if (this.language === 'php') {
+      const variable = name.startsWith('$') ? name : `$${name}`;
+      return datatype ? `${datatype} ${variable}` : variable;
+    }
+    return name;
+  }
+
+  async method(uuid: string): Promise<string> {
+    let method: any;
+    try {
+      method = await this.client.getMethod(uuid);
+    } catch (error: any) {
+      return this.marker('method', uuid, error.message);
+    }
+    if (!method || !method.name) {
+      return this.marker('method', uuid, 'method has no name');
+    }
+    this.methodNames.set(uuid, method.name);
+
+    const clauseMap: Record<string, any> = {};
+    if (Array.isArray(method.clauses)) {
+      method.clauses.forEach((clause: any) => { if (clause?.uuid) clauseMap[clause.uuid] = clause; });
+    } else if (method.clauses && typeof method.clauses === 'object') {
+      Object.assign(clauseMap, method.clauses);
+    }
+
+    const params = (method.parameters || []).map((p: any) => this.parameter(p, clauseMap)).join(', ');
+    const bodyUuids: string[] = Array.isArray(method.data) ? method.data : [];
+    const body = (await Promise.all(bodyUuids.map((statement) => this.statement(statement)))).join('\n');
+
+    if (this.language === 'php') {
+      const modifiers = [method.visibility || 'public', method.is_static ? 'static' : null].filter(Boolean).join(' ');
+      const returnType = method.returnType ? `: ${method.nullable ? '?' : ''}${method.returnType}` : '';
+      const lines = [`${modifiers} function ${method.name}(${params})${returnType}`, '{'];
+      if (body) lines.push(indent(body, 1));
+      lines.push('}');
+      return lines.join('\n');
+    }
+
+    const lines = [`function ${method.name}(${params}) {`];
+    if (body) lines.push(indent(body, 1));
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  async include(uuid: string): Promise<string> {
+    // Includes may already be namespace strings rather than file UUIDs
+    if (uuid.includes('\\')) {
+      return this.language === 'php' ? `use ${uuid.replace(/^\\+/, '')};` : this.marker('include', uuid, 'PHP namespace in JS file');
+    }
+
+    let file: any;
+    try {
+      file = await this.client.getFile(uuid);
+    } catch (error: any) {
+      return this.marker('include', uuid, error.message);
+    }
+    if (!file || !file.name) {
+      return this.marker('include', uuid, 'included file has no name');
+    }
+
+    if (this.language === 'php') {
+      const namespace = (file.namespace || '').replace(/\\+$/, '');
+      return `use ${namespace ? `${namespace}\\` : ''}${file.name};`;
+    }
+    const filename = `${file.name}.${file.extension || 'js'}`;
+    if (!file.directory || file.directory === this.directory) {
+      return `import ${file.name} from './${filename}';`;
+    }
+
+    // Another directory: the path between the two files as exportProject lays them out
+    let chains: Map<string, string[]>;
+    try {
+      chains = await (this.chains ??= directoryChains(this.client));
+    } catch (error: any) {
+      return this.marker('include', uuid, error.message);
+    }
+    const from = this.directory ? chains.get(this.directory) : undefined;
+    const to = chains.get(file.directory);
+    if (!from || !to) {
+      return this.marker('include', uuid, 'directory of the included file is not in the project');
+    }
+    const relative = path.posix.relative(
+      path.posix.dirname(exportPath({ type: 'js', extension: null }, filename, from)),
+      path.posix.dirname(exportPath({ type: 'js', extension: null }, filename, to))
+    );
+    const target = path.posix.join(relative, filename);
+    return `import ${file.name} from '${target.startsWith('../') ? target : `./${target}`}';`;
+  }
+
+  // Render an element tree node; children come embedded from getElementTree
+  element(node: any, depth: number): string {
+    if (!node || typeof node !== 'object') {
+      return indent(this.marker('element', String(node), 'element not returned', true), depth);
+    }
+    const tag = node.tag || 'div';
+    const attributes: string[] = [];
+
+    if (Array.isArray(node.classes) && node.classes.length > 0) {
+      attributes.push(`class="${node.classes.join(' ')}"`);
+    }
+    for (const [key, value] of Object.entries(node)) {
+      if (ELEMENT_INTERNAL_KEYS.has(key) || ELEMENT_EVENTS.includes(key)) continue;
+      if (value === null || value === undefined || value === false) continue;
+      if (typeof value === 'boolean') {
+        attributes.push(key);
+      } else if (typeof value === 'string' || typeof value === 'number') {
+        attributes.push(`${key}="${String(value).replace(/"/g, '&quot;')}"`);
+      }
+    }
+    // A handler that is not a method of this file has no name to render; a marker goes above the element
+    const notes: string[] = [];
+    for (const event of ELEMENT_EVENTS) {
+      const handler = node[event];
+      if (!handler) continue;
+      const methodName = this.methodNames.get(handler);
+      if (methodName) {
+        attributes.push(`@${event}="${methodName}"`);
+      } else {
+        notes.push(indent(this.marker('event', handler, `@${event} handler is not a method of this file`, true), depth));
+      }
+    }
+
+    const open = `<${tag}${attributes.length > 0 ? ' ' + attributes.join(' ') : ''}>`;
+    if (VOID_TAGS.has(tag)) {
+      return [...notes, indent(open.replace(/>$/, ' />'), depth)].join('\n');
+    }
+
+    const children: any[] = Array.isArray(node.children) ? node.children : [];
+    const text = typeof node.text === 'string' ? node.text : '';
+    if (children.length === 0) {
+      return [...notes, indent(`${open}${text}</${tag}>`, depth)].join('\n');
+    }
+
+    const lines = [...notes, indent(open, depth)];
+    if (text) lines.push(indent(text, depth + 1));
+    children.forEach((child) => lines.push(this.element(child, depth + 1)));
+    lines.push(indent(`</${tag}>`, depth));
+    return lines.join('\n');
+  }
+
+  async templateRoot(uuid: string, depth: number): Promise<string> {
+    try {
+      return this.element(await this.client.getElementTree(uuid), depth);
+    } catch (error: any) {
+      return indent(this.marker('element', uuid, error.message, true), depth);
+    }
+  }
+}
+
+function detectLanguage(file: any): 'php' | 'vue' | 'js' {
+  if (file.extension === 'vue') return 'vue';
+  if (file.type === 'js' || file.extension === 'js' || file.extension === 'ts') return 'js';
+  return 'php';
+}
+
+/**
+ * Render a Stellify file as source text by walking its includes, statements,
+ * methods (data) and template element trees.
+ */
+export async function renderFile(client: StellifyClient, uuid: string): Promise<RenderedFile> {
+  const file = await client.getFile(uuid);
+  if (!file.name) {
+    throw new Error(`File ${uuid} has no name`);
+  }
+  const language = detectLanguage(file);
+  const renderer = new FileRenderer(client, language, file.directory || null);
+
+  const includes: string[] = file.includes || [];
+  const statementUuids: string[] = file.statements || [];
+  const methodUuids: string[] = file.data || [];
+  const templateUuids: string[] = file.template || [];
+
+  // Methods first so template event handlers can resolve UUIDs to names
+  const methods = await Promise.all(methodUuids.map((method) => renderer.method(method)));
+  const statements = await Promise.all(statementUuids.map((statement) => renderer.statement(statement)));
+  const imports = await Promise.all(includes.map((include) => renderer.include(include)));
+
+  const sections: string[] = [];
+  let filename: string;
+
+  if (language === 'php') {
+    filename = `${file.name}.php`;
+    const namespace = (file.namespace || '').replace(/\\+$/, '');
+    sections.push('<?php');
+    if (namespace) sections.push(`namespace ${namespace};`);
+    if (imports.length > 0) sections.push(imports.join('\n'));
+
+    const members = [...statements, ...methods].filter(Boolean);
+    const body = members.length > 0 ? `\n${indent(members.join('\n\n'), 1)}\n` : '\n';
+    sections.push(`class ${file.name}\n{${body}}`);
+  } else {
+    const script = [imports.join('\n'), statements.join('\n'), methods.join('\n\n')].filter(Boolean).join('\n\n');
+
+    if (language === 'vue') {
+      filename = `${file.name}.vue`;
+      const roots = await Promise.all(templateUuids.map((root) => renderer.templateRoot(root, 1)));
+      sections.push(`<template>\n${roots.join('\n')}\n</template>`);
+      sections.push(`<script setup>\n${script}\n</script>`);
+    } else {
+      filename = `${file.name}.${file.extension || 'js'}`;
+      if (script) sections.push(script);
+    }
+  }
+
+  return {
+    uuid,
+    name: file.name,
+    type: file.type || null,
+    namespace: file.namespace || null,
+    extension: file.extension || null,
+    filename,
+    language,
+    source: sections.join('\n\n') + '\n',
+    unrendered: renderer.gaps,
+  };
+}
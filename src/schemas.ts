@@ -0,0 +1,420 @@
+// =============================================================================
+// TOOL INPUT SCHEMAS
+// =============================================================================
+// JSON Schemas shared by the MCP tool definitions and the StellifyClient param
+// types. Each schema is declared `as const` so FromSchema can derive its
+// TypeScript type; the tool list publishes the same object, and the validator
+// enforces it before any API call.
+
+export type SchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+
+export interface JsonSchema {
+  type?: SchemaType;
+  description?: string;
+  enum?: readonly (string | number | boolean)[];
+  properties?: { readonly [key: string]: JsonSchema };
+  required?: readonly string[];
+  items?: JsonSchema;
+  additionalProperties?: boolean; // Unknown properties are rejected unless this is true
+  nullable?: boolean; // null is accepted too (API responses)
+  default?: unknown;
+}
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type ObjectFromSchema<P, R> = Simplify<
+  { -readonly [K in keyof P as K extends R ? K : never]: FromSchema<P[K]> } &
+  { -readonly [K in keyof P as K extends R ? never : K]?: FromSchema<P[K]> }
+>;
+
+/**
+ * The TypeScript type of a value that satisfies the schema. Required
+ * properties become required keys; everything else is optional.
+ */
+export type FromSchema<S> = S extends { nullable: true } ? NonNullFromSchema<S> | null : NonNullFromSchema<S>;
+
+type NonNullFromSchema<S> =
+  S extends { enum: readonly (infer E)[] } ? E :
+  S extends { type: 'string' } ? string :
+  S extends { type: 'number' | 'integer' } ? number :
+  S extends { type: 'boolean' } ? boolean :
+  S extends { type: 'array'; items: infer I } ? Array<FromSchema<I>> :
+  S extends { type: 'array' } ? any[] :
+  S extends { type: 'object'; properties: infer P } ? ObjectFromSchema<P, S extends { required: readonly (infer R)[] } ? R : never> :
+  S extends { type: 'object' } ? Record<string, any> :
+  any;
+
+// -----------------------------------------------------------------------------
+// Search paging (every search tool)
+// -----------------------------------------------------------------------------
+
+export const paginationProperties = {
+  page: {
+    type: 'integer',
+    description: 'Page to return, from 1 (default: 1)',
+  },
+  per_page: {
+    type: 'integer',
+    description: 'Results per page, 1-100 (default: the API\'s, or 100 with all)',
+  },
+  cursor: {
+    type: 'string',
+    description: 'next_cursor from an earlier response; continues that search, so other filters are ignored',
+  },
+  all: {
+    type: 'boolean',
+    description: 'Follow pages and return every match, up to 1000 results',
+  },
+} as const satisfies { [key: string]: JsonSchema };
+
+// -----------------------------------------------------------------------------
+// Files
+// -----------------------------------------------------------------------------
+
+export const createFileSchema = {
+  type: 'object',
+  properties: {
+    directory: {
+      type: 'string',
+      description: 'The UUID of the directory to create the file in (get from get_project directories array)',
+    },
+    name: {
+      type: 'string',
+      description: 'File name without extension (e.g., "Counter", "UserController")',
+    },
+    type: {
+      type: 'string',
+      enum: ['class', 'model', 'controller', 'middleware', 'js'],
+      description: 'Type of file: "js" for JavaScript/Vue, others for PHP',
+    },
+    extension: {
+      type: 'string',
+      description: 'File extension. Use "vue" for Vue components, omit for PHP files.',
+    },
+    namespace: {
+      type: 'string',
+      description: 'PHP namespace (e.g., "App\\Services\\"). Only for PHP files.',
+    },
+    includes: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Array of namespace strings to include as dependencies (e.g., ["App\\Models\\User", "Illuminate\\Support\\Facades\\Hash"]). These are resolved to UUIDs automatically.',
+    },
+    code: {
+      type: 'string',
+      description: 'Complete PHP code to analyze for dependencies',
+    },
+    auto_create_dependencies: {
+      type: 'boolean',
+      description: 'Create missing dependencies found in code (default: false)',
+    },
+    module: {
+      type: 'string',
+      description: 'Optional module name to group this file with related code (e.g., "blog-posts", "user-auth"). Module is auto-created if it doesn\'t exist.',
+    },
+  },
+  required: ['directory', 'name', 'type'],
+} as const satisfies JsonSchema;
+
+export const searchFilesSchema = {
+  type: 'object',
+  properties: {
+    query: {
+      type: 'string',
+      description: 'File name pattern to search for',
+    },
+    type: {
+      type: 'string',
+      description: 'File type to filter by (class, model, controller, middleware)',
+    },
+    project: {
+      type: 'boolean',
+      description: 'Only search the active project',
+    },
+    includes: {
+      type: 'boolean',
+      description: 'Include each file\'s dependencies',
+    },
+    include_metadata: {
+      type: 'boolean',
+      description: 'Include additional metadata',
+    },
+    ...paginationProperties,
+    category: {
+      type: 'string',
+      description: 'Filter by library category',
+    },
+    min_rating: {
+      type: 'number',
+      description: 'Minimum rating',
+    },
+    tags: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Filter by tags',
+    },
+    user: {
+      type: 'string',
+      description: 'Filter by author',
+    },
+    sort: {
+      type: 'string',
+      enum: ['created_at', 'name', 'type', 'ai_rating', 'usage_rating', 'system_rating', 'user_name'],
+      description: 'Sort field',
+    },
+    direction: {
+      type: 'string',
+      enum: ['asc', 'desc'],
+      description: 'Sort direction',
+    },
+  },
+} as const satisfies JsonSchema;
+
+export const searchLibrarySchema = {
+  type: 'object',
+  properties: {
+    query: searchFilesSchema.properties.query,
+    type: searchFilesSchema.properties.type,
+    category: searchFilesSchema.properties.category,
+    tags: searchFilesSchema.properties.tags,
+    min_rating: searchFilesSchema.properties.min_rating,
+    user: searchFilesSchema.properties.user,
+    sort: searchFilesSchema.properties.sort,
+    direction: searchFilesSchema.properties.direction,
+    includes: searchFilesSchema.properties.includes,
+    include_metadata: searchFilesSchema.properties.include_metadata,
+    ...paginationProperties,
+  },
+} as const satisfies JsonSchema;
+
+export const cloneLibraryFileSchema = {
+  type: 'object',
+  properties: {
+    file: {
+      type: 'string',
+      description: 'UUID of the library file to clone (from search_library)',
+    },
+    directory: {
+      type: 'string',
+      description: 'UUID of the project directory to clone it into (get from get_project directories array)',
+    },
+    name: {
+      type: 'string',
+      description: 'Name for the copy (class or component name); defaults to the original name',
+    },
+  },
+  required: ['file', 'directory'],
+} as const satisfies JsonSchema;
+
+// -----------------------------------------------------------------------------
+// Methods
+// -----------------------------------------------------------------------------
+
+export const createMethodSchema = {
+  type: 'object',
+  properties: {
+    file: {
+      type: 'string',
+      description: 'UUID of the file to add the method to',
+    },
+    name: {
+      type: 'string',
+      description: 'Method name (e.g., "increment", "store", "handleClick")',
+    },
+    visibility: {
+      type: 'string',
+      enum: ['public', 'protected', 'private'],
+      description: 'Method visibility (PHP only)',
+    },
+    is_static: {
+      type: 'boolean',
+      description: 'Whether the method is static (PHP only)',
+    },
+    returnType: {
+      type: 'string',
+      description: 'Return type (e.g., "int", "string", "void", "object")',
+    },
+    nullable: {
+      type: 'boolean',
+      description: 'Whether the return type is nullable (e.g., ?object)',
+    },
+    parameters: {
+      type: 'array',
+      description: 'Array of method parameters. Each parameter is created as a clause.',
+      items: {
+        type: 'object',
+        properties: {
+          name: {
+            type: 'string',
+            description: 'Parameter name (e.g., "credentials", "id")',
+          },
+          datatype: {
+            type: 'string',
+            description: 'Parameter data type (e.g., "array", "int", "string", "Request")',
+          },
+          type: {
+            type: 'string',
+            description: 'Clause type, defaults to "variable"',
+          },
+          value: {
+            type: 'string',
+            description: 'Parameter value, defaults to the name',
+          },
+        },
+        required: ['name'],
+      },
+    },
+  },
+  required: ['file', 'name'],
+} as const satisfies JsonSchema;
+
+export const addMethodBodySchema = {
+  type: 'object',
+  properties: {
+    file: {
+      type: 'string',
+      description: 'UUID of the file containing the method',
+    },
+    method: {
+      type: 'string',
+      description: 'UUID of the method to add code to',
+    },
+    code: {
+      type: 'string',
+      description: 'PHP code for the method body (just the statements, no function declaration). Example: "return $a + $b;"',
+    },
+  },
+  required: ['file', 'method', 'code'],
+} as const satisfies JsonSchema;
+
+export const searchMethodsSchema = {
+  type: 'object',
+  properties: {
+    name: {
+      type: 'string',
+      description: 'Method name to search for (supports wildcards)',
+    },
+    file_uuid: {
+      type: 'string',
+      description: 'Optional: filter results to a specific file',
+    },
+    ...paginationProperties,
+  },
+} as const satisfies JsonSchema;
+
+// -----------------------------------------------------------------------------
+// Routes & elements
+// -----------------------------------------------------------------------------
+
+export const createRouteSchema = {
+  type: 'object',
+  properties: {
+    project_id: {
+      type: 'string',
+      description: 'The UUID of the Stellify project (default: the project selected with use_project, or the active project)',
+    },
+    name: {
+      type: 'string',
+      description: 'Route/page name (e.g., "Home", "Counter", "About")',
+    },
+    path: {
+      type: 'string',
+      description: 'URL path (e.g., "/", "/counter", "/about")',
+    },
+    method: {
+      type: 'string',
+      enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
+      description: 'HTTP method',
+      default: 'GET',
+    },
+    type: {
+      type: 'string',
+      enum: ['web', 'api'],
+      description: 'Route type: "web" for pages, "api" for API endpoints',
+      default: 'web',
+    },
+    data: {
+      type: 'object',
+      description: 'Additional route data (title, description, element UUIDs)',
+    },
+    module: {
+      type: 'string',
+      description: 'Optional module name to group this route with related code (e.g., "blog-posts", "user-auth"). Module is auto-created if it doesn\'t exist.',
+    },
+  },
+  required: ['name', 'path', 'method'],
+} as const satisfies JsonSchema;
+
+export const createElementSchema = {
+  type: 'object',
+  properties: {
+    type: {
+      type: 'string',
+      enum: [
+        's-wrapper', 's-input', 's-form', 's-svg', 's-shape', 's-media', 's-iframe',
+        's-loop', 's-transition', 's-freestyle', 's-motion',
+        's-directive',
+        's-chart', 's-table', 's-combobox', 's-accordion', 's-calendar', 's-contiguous'
+      ],
+      description: 'Element type - must be one of the valid Stellify element types',
+    },
+    page: {
+      type: 'string',
+      description: 'UUID of the page/route to add the element to (for root elements)',
+    },
+    parent: {
+      type: 'string',
+      description: 'UUID of the parent element (for child elements)',
+    },
+  },
+  required: ['type'],
+} as const satisfies JsonSchema;
+
+// -----------------------------------------------------------------------------
+// File patches
+// -----------------------------------------------------------------------------
+
+export const patchOperationSchema = {
+  type: 'object',
+  properties: {
+    op: {
+      type: 'string',
+      enum: [
+        'add_method', 'remove_method',
+        'insert_statement_at', 'remove_statement', 'move_statement',
+        'add_include', 'remove_include',
+        'set_template', 'set_field',
+      ],
+      description: 'Operation to apply',
+    },
+    method: {
+      type: 'string',
+      description: 'Method UUID (add_method, remove_method)',
+    },
+    statement: {
+      type: 'string',
+      description: 'Statement UUID (insert_statement_at, remove_statement, move_statement)',
+    },
+    include: {
+      type: 'string',
+      description: 'File UUID to import (add_include, remove_include)',
+    },
+    position: {
+      type: 'integer',
+      description: 'Zero-based index to insert or move to (default: the end)',
+    },
+    template: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Root element UUIDs (set_template)',
+    },
+    field: {
+      type: 'string',
+      description: 'Name of a non-reference field such as name, namespace or extension (set_field)',
+    },
+    value: {
+      description: 'New value for the field (set_field)',
+    },
+  },
+  required: ['op'],
+} as const satisfies JsonSchema;
@@ -0,0 +1,451 @@
+import path from 'path';
+import { ELEMENT_EVENTS } from './renderer.js';
+
+// =============================================================================
+// SOURCE PARSER
+// =============================================================================
+// A small brace-aware splitter for PHP classes and Vue SFCs. It is not a full
+// parser: it separates a class or <script setup> block into top-level
+// statements and methods, skipping over strings and comments, which is all the
+// structured create_* endpoints need since the API parses each piece itself.
+
+export type PlannedFileType = 'class' | 'model' | 'controller' | 'middleware' | 'js';
+
+export interface PlannedMethod {
+  name: string;
+  visibility?: 'public' | 'protected' | 'private';
+  is_static?: boolean;
+  returnType?: string;
+  nullable?: boolean;
+  parameters: Array<{ name: string; datatype?: string }>;
+  body: string;
+}
+
+export interface PlannedFile {
+  path: string;
+  name: string;
+  type: PlannedFileType;
+  extension?: string;
+  namespace?: string;
+  includes: string[];
+  statements: string[];
+  methods: PlannedMethod[];
+  template?: string;
+  warnings: string[];
+}
+
+// -----------------------------------------------------------------------------
+// Source scanning
+// -----------------------------------------------------------------------------
+
+// Skip a string literal or comment starting at i; returns the index after it, or i if none
+function skipLiteral(source: string, i: number, php: boolean): number {
+  const ch = source[i];
+  const next = source[i + 1];
+
+  if (ch === '/' && next === '/') {
+    const end = source.indexOf('\n', i);
+    return end === -1 ? source.length : end;
+  }
+  if (php && ch === '#' && next !== '[') {
+    const end = source.indexOf('\n', i);
+    return end === -1 ? source.length : end;
+  }
+  if (ch === '/' && next === '*') {
+    const end = source.indexOf('*/', i + 2);
+    return end === -1 ? source.length : end + 2;
+  }
+  if (ch === '"' || ch === "'" || (!php && ch === '`')) {
+    let j = i + 1;
+    while (j < source.length && source[j] !== ch) {
+      if (source[j] === '\\') j++;
+      j++;
+    }
+    return j + 1;
+  }
+  return i;
+}
+
+// Index of the bracket matching the one at openIndex
+export function findMatching(source: string, openIndex: number, php: boolean): number {
+  const open = source[openIndex];
+  const close = open === '{' ? '}' : open === '(' ? ')' : ']';
+  let depth = 0;
+  let i = openIndex;
+
+  while (i < source.length) {
+    const skipped = skipLiteral(source, i, php);
+    if (skipped !== i) {
+      i = skipped;
+      continue;
+    }
+    if (source[i] === open) depth++;
+    if (source[i] === close) {
+      depth--;
+      if (depth === 0) return i;
+    }
+    i++;
+  }
+  return -1;
+}
+
+// Split at top-level ';' or at a '}' that closes a top-level block. Comments
+// between members are dropped, and collected into `dropped` if given.
+export function splitMembers(source: string, php: boolean, dropped?: string[]): string[] {
+  const members: string[] = [];
+  let depth = 0;
+  let start = 0;
+  let i = 0;
+
+  const push = (end: number) => {
+    const text = source.slice(start, end).trim();
+    if (text) members.push(text);
+    start = end;
+  };
+
+  while (i < source.length) {
+    const skipped = skipLiteral(source, i, php);
+    if (skipped !== i) {
+      // Comments between members are dropped; literals stay part of the member
+      const isComment = source[i] === '/' || (php && source[i] === '#');
+      if (isComment && depth === 0 && !source.slice(start, i).trim()) {
+        dropped?.push(source.slice(i, skipped));
+        start = skipped;
+      }
+      i = skipped;
+      continue;
+    }
+
+    const ch = source[i];
+    if (ch === '{' || ch === '(' || ch === '[') depth++;
+    if (ch === '}' || ch === ')' || ch === ']') {
+      depth--;
+      if (ch === '}' && depth === 0) {
+        // Function and control blocks end here; `const x = {...}` or `import { a } from` continue
+        const head = source.slice(start, i).split('{')[0].trim();
+        if (/\bfunction\b/.test(head.split('=')[0]) || /^(if|for|foreach|while|switch|try|do|class)\b/.test(head)) {
+          push(i + 1);
+        }
+      }
+    }
+    if (ch === ';' && depth === 0) {
+      push(i + 1);
+    }
+    // JS statements may omit semicolons: a newline at depth 0 ends a complete statement
+    if (!php && ch === '\n' && depth === 0) {
+      const pending = source.slice(start, i).trim();
+      const rest = source.slice(i + 1).trimStart();
+      if (pending && !/[=,+\-*/(&|?:.[{]$/.test(pending) && !/^[.?:)\]}+\-*/&|]/.test(rest)) {
+        push(i);
+      }
+    }
+    i++;
+  }
+  push(source.length);
+  return members;
+}
+
+function dedent(text: string): string {
+  const lines = text.replace(/^\s*\n/, '').replace(/\s+$/, '').split('\n');
+  const widths = lines.filter((line) => line.trim()).map((line) => line.match(/^\s*/)![0].length);
+  const common = widths.length > 0 ? Math.min(...widths) : 0;
+  return lines.map((line) => line.slice(common)).join('\n');
+}
+
+function splitParameters(list: string): Array<{ name: string; datatype?: string }> {
+  const params: Array<{ name: string; datatype?: string }> = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of list) {
+    if (ch === '(' || ch === '[' || ch === '{') depth++;
+    if (ch === ')' || ch === ']' || ch === '}') depth--;
+    if (ch === ',' && depth === 0) {
+      if (current.trim()) params.push(parseParameter(current));
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) params.push(parseParameter(current));
+  return params;
+}
+
+function parseParameter(text: string): { name: string; datatype?: string } {
+  const declaration = text.split('=')[0].trim().replace(/\b(public|protected|private|readonly)\s+/g, '');
+  const match = declaration.match(/^(.*?)\s*[&.]*\$?([A-Za-z_][A-Za-z0-9_]*)$/);
+  if (!match) return { name: declaration };
+  const datatype = match[1].trim();
+  return datatype ? { name: match[2], datatype } : { name: match[2] };
+}
+
+// -----------------------------------------------------------------------------
+// File planning
+// -----------------------------------------------------------------------------
+
+// Comments and docblocks a file loses on import: those outside members, and any before the class
+function commentWarnings(dropped: string[]): string[] {
+  const docblocks = dropped.filter((comment) => comment.startsWith('/**')).length;
+  const comments = dropped.length - docblocks;
+  return [
+    ...(docblocks > 0 ? [`${docblocks} docblock(s) outside method bodies are not imported`] : []),
+    ...(comments > 0 ? [`${comments} comment(s) outside method bodies are not imported`] : []),
+  ];
+}
+
+// Comments in source that is otherwise not imported (a PHP preamble)
+function commentsIn(source: string, php: boolean): string[] {
+  const comments: string[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const skipped = skipLiteral(source, i, php);
+    if (skipped !== i && (source[i] === '/' || (php && source[i] === '#'))) {
+      comments.push(source.slice(i, skipped));
+    }
+    i = skipped === i ? i + 1 : skipped;
+  }
+  return comments;
+}
+
+function inferPhpType(relativePath: string, namespace: string, name: string): PlannedFileType {
+  const location = `${namespace}\\${relativePath}`.replace(/\//g, '\\');
+  if (/\\Http\\Controllers\\?/.test(location) || name.endsWith('Controller')) return 'controller';
+  if (/\\Http\\Middleware\\?/.test(location)) return 'middleware';
+  if (/\\Models\\?/.test(location)) return 'model';
+  return 'class';
+}
+
+function planMethod(member: string, php: boolean): PlannedMethod | null {
+  const open = member.indexOf('(');
+  const head = member.slice(0, open);
+  const nameMatch = head.match(/function\s+&?([A-Za-z_][A-Za-z0-9_]*)\s*$/);
+  if (open === -1 || !nameMatch) return null;
+
+  const closeParen = findMatching(member, open, php);
+  const bodyOpen = member.indexOf('{', closeParen);
+  const signatureTail = member.slice(closeParen + 1, bodyOpen === -1 ? undefined : bodyOpen);
+  const returnMatch = signatureTail.match(/:\s*(\?)?\s*([^\s{;]+)/);
+  const body = bodyOpen === -1 ? '' : dedent(member.slice(bodyOpen + 1, findMatching(member, bodyOpen, php)));
+
+  const method: PlannedMethod = {
+    name: nameMatch[1],
+    parameters: splitParameters(member.slice(open + 1, closeParen)),
+    body,
+  };
+  if (php) {
+    const visibility = head.match(/\b(public|protected|private)\b/);
+    method.visibility = (visibility ? visibility[1] : 'public') as PlannedMethod['visibility'];
+    if (/\bstatic\b/.test(head)) method.is_static = true;
+  }
+  if (returnMatch) {
+    method.returnType = returnMatch[2];
+    if (returnMatch[1]) method.nullable = true;
+  }
+  return method;
+}
+
+// The first method name declared twice; methods are looked up by name, so a second one would replace the first
+function duplicateMethod(methods: PlannedMethod[]): string | undefined {
+  return methods.find((method, index) => methods.findIndex((other) => other.name === method.name) !== index)?.name;
+}
+
+export function planPhpFile(relativePath: string, source: string): PlannedFile | string {
+  const namespaceMatch = source.match(/^\s*namespace\s+([^;]+);/m);
+  const namespace = namespaceMatch ? namespaceMatch[1].trim() : '';
+  const classMatch = source.match(/^\s*(?:final\s+|abstract\s+|readonly\s+)*class\s+([A-Za-z_][A-Za-z0-9_]*)([^{]*)\{/m);
+  if (!classMatch || classMatch.index === undefined) {
+    return 'no named class declaration';
+  }
+
+  const name = classMatch[1];
+  const preamble = source.slice(0, classMatch.index);
+  const includes = Array.from(preamble.matchAll(/^\s*use\s+([^;]+);/gm)).map((match) => match[1].trim());
+  const open = classMatch.index + classMatch[0].length - 1;
+  const close = findMatching(source, open, true);
+  const body = source.slice(open + 1, close === -1 ? undefined : close);
+
+  const warnings: string[] = [];
+  if (classMatch[2].trim()) {
+    warnings.push(`Class header "${classMatch[2].trim()}" (extends/implements) is not imported`);
+  }
+
+  const statements: string[] = [];
+  const methods: PlannedMethod[] = [];
+  const dropped = commentsIn(preamble, true);
+  for (const member of splitMembers(body, true, dropped)) {
+    const method = /\bfunction\b/.test(member.split(/[{;=]/)[0]) ? planMethod(member, true) : null;
+    if (method) {
+      methods.push(method);
+    } else {
+      statements.push(member);
+    }
+  }
+  warnings.push(...commentWarnings(dropped));
+  const duplicate = duplicateMethod(methods);
+  if (duplicate) {
+    return `method ${duplicate}() is declared more than once`;
+  }
+
+  return {
+    path: relativePath,
+    name,
+    type: inferPhpType(relativePath, namespace, name),
+    namespace: namespace ? `${namespace}\\` : undefined,
+    includes,
+    statements,
+    methods,
+    warnings,
+  };
+}
+
+export function planVueFile(relativePath: string, source: string): PlannedFile | string {
+  const templateMatch = source.match(/<template>([\s\S]*)<\/template>/);
+  const scriptMatch = source.match(/<script\b[^>]*>([\s\S]*?)<\/script>/);
+  if (!templateMatch && !scriptMatch) {
+    return 'no <template> or <script> block';
+  }
+
+  const warnings: string[] = [];
+  if (scriptMatch && !/<script\b[^>]*\bsetup\b/.test(scriptMatch[0])) {
+    warnings.push('Only <script setup> is supported; the script block is imported as top-level statements');
+  }
+  if (/<style\b/.test(source)) {
+    warnings.push('<style> blocks are not imported');
+  }
+
+  const statements: string[] = [];
+  const methods: PlannedMethod[] = [];
+  const dropped: string[] = [];
+  for (const member of splitMembers(scriptMatch ? scriptMatch[1] : '', false, dropped)) {
+    const method = /^(async\s+)?function\b/.test(member) ? planMethod(member, false) : null;
+    if (method && member.startsWith('async')) {
+      // Stellify methods have no async modifier, and an await without it is invalid code
+      return `async function ${method.name}() is not supported; Stellify methods cannot be async`;
+    } else if (method) {
+      methods.push(method);
+    } else {
+      statements.push(member);
+    }
+  }
+  warnings.push(...commentWarnings(dropped));
+  const duplicate = duplicateMethod(methods);
+  if (duplicate) {
+    return `function ${duplicate}() is declared more than once`;
+  }
+
+  if (templateMatch) {
+    const prepared = prepareTemplate(templateMatch[1]);
+    const unwired = [...prepared.errors, ...unresolvedHandlers(prepared.bindings, methods, statements)];
+    if (unwired.length > 0) {
+      return `${unwired.join('; ')}. Event handlers must name a function declared in <script setup>`;
+    }
+    warnings.push(...prepared.warnings);
+    if (/<!--/.test(templateMatch[1])) {
+      warnings.push('HTML comments in the <template> are not imported');
+    }
+  }
+
+  return {
+    path: relativePath,
+    name: path.basename(relativePath, '.vue'),
+    type: 'js',
+    extension: 'vue',
+    includes: [],
+    statements,
+    methods,
+    template: templateMatch ? templateMatch[1].trim() : undefined,
+    warnings,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Template events
+// -----------------------------------------------------------------------------
+// html_to_elements stores elements, not Vue directives, so @click="increment"
+// has to become an element field holding the method UUID. Event attributes are
+// replaced with a marker attribute that survives conversion; the marker is then
+// used to find the created element and wire its handler.
+
+export const EVENT_MARKER = 'data-stellify-event';
+
+export interface TemplateBinding {
+  marker: string;
+  event: string;
+  method: string;
+}
+
+export interface PreparedTemplate {
+  html: string;
+  bindings: TemplateBinding[];
+  warnings: string[];
+  errors: string[]; // Handlers that cannot be wired to a method
+}
+
+const EVENT_ATTRIBUTE = /\s(?:@|v-on:)([A-Za-z]+)((?:\.[A-Za-z]+)*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+export function prepareTemplate(template: string): PreparedTemplate {
+  const bindings: TemplateBinding[] = [];
+  const warnings: string[] = [];
+  const errors: string[] = [];
+  let html = '';
+  let i = 0;
+
+  while (i < template.length) {
+    const open = template.indexOf('<', i);
+    if (open === -1 || template[open + 1] === '/' || template[open + 1] === '!') {
+      const next = open === -1 ? template.length : template.indexOf('>', open) + 1 || template.length;
+      html += template.slice(i, next);
+      i = next;
+      continue;
+    }
+
+    html += template.slice(i, open);
+
+    // Find the end of the opening tag, skipping quoted attribute values
+    let end = open + 1;
+    let quote: string | null = null;
+    while (end < template.length && (quote || template[end] !== '>')) {
+      if (quote && template[end] === quote) quote = null;
+      else if (!quote && (template[end] === '"' || template[end] === "'")) quote = template[end];
+      end++;
+    }
+
+    const marker = String(bindings.length === 0 ? 0 : Number(bindings[bindings.length - 1].marker) + 1);
+    let wired = false;
+    const tag = template.slice(open, end).replace(EVENT_ATTRIBUTE, (attribute, event, modifiers, double, single) => {
+      const expression = (double ?? single ?? '').trim();
+      const method = expression.match(/^([A-Za-z_$][\w$]*)\s*(?:\(\s*\))?$/);
+      if (!ELEMENT_EVENTS.includes(event)) {
+        warnings.push(`@${event} is not a supported element event; left in the template`);
+        return attribute;
+      }
+      if (!method) {
+        errors.push(`@${event}="${expression}" is inline code, not a method name`);
+        return attribute;
+      }
+      if (modifiers) {
+        warnings.push(`Modifiers "${modifiers}" on @${event}="${expression}" are dropped`);
+      }
+      bindings.push({ marker, event, method: method[1] });
+      wired = true;
+      return '';
+    });
+
+    html += (wired ? tag.replace(/\s*\/?$/, (close) => ` ${EVENT_MARKER}="${marker}"${close}`) : tag) + '>';
+    i = end + 1;
+  }
+
+  return { html, bindings, warnings, errors };
+}
+
+// Bindings whose name is not a planned method: arrow functions and other consts, or nothing at all
+function unresolvedHandlers(bindings: TemplateBinding[], methods: PlannedMethod[], statements: string[]): string[] {
+  const names = new Set(methods.map((method) => method.name));
+  return bindings
+    .filter((binding) => !names.has(binding.method))
+    .map((binding) => {
+      const declared = statements.some((statement) => statement.match(/^(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*=/)?.[1] === binding.method);
+      return declared
+        ? `@${binding.event}="${binding.method}" is a const, not a function declaration`
+        : `@${binding.event}="${binding.method}" does not match a function in the script`;
+    });
+}
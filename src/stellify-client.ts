@@ -1,77 +1,100 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { CircuitBreaker, DEFAULT_HTTP_OPTIONS, HttpOptions, installResilience } from './http.js';
+import { renderFile, RenderedFile } from './renderer.js';
+import { exportProject, ExportOptions, ExportReport } from './exporter.js';
+import { importDirectory, ImportOptions, ImportReport } from './importer.js';
+import { deleteWithReferences, DeletableKind, DeleteOptions, DeleteReport } from './references.js';
+import { buildVueComponent, VueComponentOptions, VueComponentResult } from './vue-builder.js';
+import { runBatch, BatchOperation, BatchOptions, BatchReport, ToolExecutor } from './batch.js';
+import { diffBranches, BranchDiff } from './branches.js';
+import { diffEntity, DiffKind, EntityDiff } from './file-diff.js';
+import { patchFile, PatchOperation, PatchOptions, PatchReport } from './file-patch.js';
+import { DryRunPlan, installDryRun } from './dry-run.js';
+import { installRequestLog } from './audit.js';
+import { installMemoryBackend, isMemoryUrl, memoryBackend } from './memory-backend.js';
+import { Cassette, installCassette } from './cassette.js';
+import { SearchArgs, SearchKind, SearchPage, searchPages } from './pagination.js';
+import { cloneLibraryFile, CloneOptions, CloneResult } from './library.js';
+import {
+  Analysis,
+  Branch,
+  branchSchema,
+  CapabilityRequest,
+  capabilityRequestSchema,
+  codeExecutionSchema,
+  CodeExecution,
+  decode,
+  decodeAnalysis,
+  decodeBranches,
+  decodeList,
+  decodeMethod,
+  decodeProject,
+  decodeSearch,
+  decodeStatement,
+  decodeStatements,
+  Directory,
+  directorySchema,
+  Element,
+  elementSchema,
+  fileSchema,
+  methodSchema,
+  Project,
+  ProjectInfo,
+  projectInfoSchema,
+  resourceScaffoldSchema,
+  ResourceScaffold,
+  Route,
+  routeSchema,
+  SearchResults,
+  Statement,
+  StellifyFile,
+  StellifyMethod,
+} from './models.js';
+import {
+  addMethodBodySchema,
+  createElementSchema,
+  createFileSchema,
+  createMethodSchema,
+  createRouteSchema,
+  FromSchema,
+  searchFilesSchema,
+  searchMethodsSchema,
+} from './schemas.js';
 
 export interface StellifyConfig {
   apiUrl: string;
   apiToken: string;
+  http?: Partial<HttpOptions>; // Timeout, retry and circuit breaker settings
+  breaker?: CircuitBreaker; // Share one breaker between clients of the same API
+  cassette?: Cassette; // Record HTTP traffic into it, or replay it instead of the API
 }
 
-export interface CreateFileParams {
-  directory?: string; // UUID of directory, or omit to auto-detect from type
-  name: string;
-  type: 'class' | 'model' | 'controller' | 'middleware' | 'js';
-  namespace?: string;
-  extension?: string;
-  code?: string; // Complete PHP code to analyze for dependencies
-  auto_create_dependencies?: boolean; // If true, create missing dependencies from code
+// Param types are derived from the tool input schemas so the two stay in sync
+export type CreateFileParams = FromSchema<typeof createFileSchema>;
+export type CreateMethodParams = FromSchema<typeof createMethodSchema>;
+export type AddMethodBodyParams = FromSchema<typeof addMethodBodySchema>;
+export type SearchMethodsParams = FromSchema<typeof searchMethodsSchema>;
+export type SearchFilesParams = FromSchema<typeof searchFilesSchema>;
+export type CreateRouteParams = FromSchema<typeof createRouteSchema>;
+export type CreateElementParams = FromSchema<typeof createElementSchema>;
+
+// "GET /file/<uuid>", for response decoding errors
+function requestOf(response: AxiosResponse): string {
+  return `${(response.config.method || 'get').toUpperCase()} ${response.config.url}`;
 }
 
-export interface CreateMethodParams {
-  file: string; // File UUID
-  name: string;
-  visibility?: 'public' | 'protected' | 'private';
-  is_static?: boolean;
-  returnType?: string;
-  parameters?: Array<{
-    name: string;
-    type: string;
-  }>;
-}
-
-export interface AddMethodBodyParams {
-  file: string;
-  method: string;
-  code: string;
-}
-
-export interface SearchMethodsParams {
-  name?: string;
-  file?: string;
-}
-
-export interface SearchFilesParams {
-  query: string;
-  type?: string;
-  project?: boolean;
-  includes?: boolean;
-  include_metadata?: boolean;
-  per_page?: number;
-  category?: string;
-  min_rating?: number;
-  tags?: string[];
-  user?: string;
-  sort?: 'created_at' | 'name' | 'type' | 'ai_rating' | 'usage_rating' | 'system_rating' | 'user_name';
-  direction?: 'asc' | 'desc';
-}
-
-export interface CreateRouteParams {
-  project_id: string;
-  name: string;
-  path: string;
-  method: string;
-  type?: string;
-  data?: any;
-}
-
-export interface CreateElementParams {
-  type: string;
-  page?: string;
-  parent?: string;
-}
+// Headers that scope a request to one project / branch instead of the active ones
+export const PROJECT_HEADER = 'X-Stellify-Project';
+export const BRANCH_HEADER = 'X-Stellify-Branch';
 
 export class StellifyClient {
   public client: AxiosInstance;
+  public breaker: CircuitBreaker;
+  private project: string | null = null; // Selected with useProject(); null means the active project
+  private branch: string | null = null; // Selected with useBranch(); null means the project's current branch
+  private plan: DryRunPlan | null = null; // Set on dry-run copies, and carried into their forks
 
-  constructor(config: StellifyConfig) {
+  constructor(private config: StellifyConfig) {
     this.client = axios.create({
       baseURL: config.apiUrl,
       headers: {
@@ -80,66 +103,153 @@ export class StellifyClient {
         'Accept': 'application/json',
       },
     });
+    // STELLIFY_API_URL=memory:// answers from an in-process fake instead of the network
+    if (isMemoryUrl(config.apiUrl)) {
+      installMemoryBackend(this.client, memoryBackend(config.apiUrl));
+    }
+    if (config.cassette) {
+      installCassette(this.client, config.cassette, config.apiToken);
+    }
+    // Before resilience, so every retry attempt is audited
+    installRequestLog(this.client);
+    this.breaker = installResilience(this.client, { ...DEFAULT_HTTP_OPTIONS, ...config.http }, config.breaker);
+    this.client.interceptors.request.use((request) => {
+      if (this.project) request.headers.set(PROJECT_HEADER, this.project);
+      if (this.branch) request.headers.set(BRANCH_HEADER, this.branch);
+      return request;
+    });
+  }
+
+  /**
+   * A client for one MCP session: same token, HTTP settings and circuit
+   * breaker, but its own project and branch selection (starting from this
+   * client's).
+   */
+  forSession(): StellifyClient {
+    return this.fork(this.plan);
+  }
+
+  // A copy scoped to another project and branch (null for the active ones), still in this client's dry run if any
+  forScope(project: string | null, branch: string | null): StellifyClient {
+    const scoped = this.forSession();
+    scoped.useProject(project);
+    scoped.useBranch(branch);
+    return scoped;
+  }
+
+  /**
+   * A copy of this client that records writes in the plan instead of sending
+   * them; reads still reach the API.
+   */
+  forDryRun(plan: DryRunPlan): StellifyClient {
+    return this.fork(plan);
   }
 
-  async createFile(params: CreateFileParams) {
+  private fork(plan: DryRunPlan | null): StellifyClient {
+    const copy = new StellifyClient({ ...this.config, breaker: this.breaker });
+    copy.useProject(this.project);
+    copy.useBranch(this.branch);
+    if (plan) {
+      copy.plan = plan;
+      installDryRun(copy.client, plan);
+    }
+    return copy;
+  }
+
+  get selectedProject(): string | null {
+    return this.project;
+  }
+
+  // Scope every following request to this project (null returns to the active project)
+  useProject(uuid: string | null) {
+    this.project = uuid;
+    this.branch = null;
+  }
+
+  get selectedBranch(): string | null {
+    return this.branch;
+  }
+
+  // Scope every following request to this branch of the project
+  useBranch(name: string | null) {
+    this.branch = name;
+  }
+
+  async createFile(params: CreateFileParams): Promise<StellifyFile> {
     const response = await this.client.post('/file', params);
-    return response.data;
+    return decode(fileSchema, 'file', response.data, requestOf(response));
   }
 
-  async createMethod(params: CreateMethodParams) {
+  async createMethod(params: CreateMethodParams): Promise<StellifyMethod> {
     const response = await this.client.post('/method', params);
-    return response.data;
+    return decodeMethod(response.data, requestOf(response));
   }
 
-  async addMethodBody(params: AddMethodBodyParams) {
+  async addMethodBody(params: AddMethodBodyParams): Promise<Statement[]> {
     const response = await this.client.post('/code', params);
-    return response.data;
+    return decodeStatements(response.data, requestOf(response));
   }
 
-  async addStatementCode(params: { file: string; statement: string; code: string }) {
+  async addStatementCode(params: { file: string; statement: string; code: string }): Promise<Statement> {
     const response = await this.client.post('/code', params);
-    return response.data;
+    return decodeStatement(response.data, requestOf(response));
   }
 
-  async searchMethods(params: SearchMethodsParams) {
+  async searchMethods(params: SearchMethodsParams): Promise<SearchResults<StellifyMethod>> {
     const response = await this.client.get('/method/search', { params });
-    return response.data;
+    return decodeSearch(methodSchema, 'methods', response.data, requestOf(response));
   }
 
-  async searchFiles(params: SearchFilesParams) {
+  async searchFiles(params: SearchFilesParams): Promise<SearchResults<StellifyFile>> {
     const response = await this.client.get('/file/search', { params });
-    return response.data;
+    return decodeSearch(fileSchema, 'files', response.data, requestOf(response));
   }
 
-  async getFile(file: string) {
+  async getFile(file: string): Promise<StellifyFile> {
     const response = await this.client.get(`/file/${file}`);
-    return response.data;
+    return decode(fileSchema, 'file', response.data, requestOf(response));
+  }
+
+  async saveFile(file: string, data: any, ifMatch?: string): Promise<StellifyFile> {
+    const response = await this.client.put(`/file/${file}`, data, ifMatch ? { headers: { 'If-Match': ifMatch } } : undefined);
+    return decode(fileSchema, 'file', response.data, requestOf(response));
+  }
+
+  // The file and its ETag, when the API sends one, for optimistic concurrency checks
+  async getFileWithETag(file: string): Promise<{ file: StellifyFile; etag: string | null }> {
+    const response = await this.client.get(`/file/${file}`);
+    const etag = response.headers['etag'];
+    return { file: decode(fileSchema, 'file', response.data, requestOf(response)), etag: typeof etag === 'string' ? etag : null };
   }
 
-  async saveFile(file: string, data: any) {
-    const response = await this.client.put(`/file/${file}`, data);
+  async deleteFile(file: string) {
+    const response = await this.client.delete(`/file/${file}`);
     return response.data;
   }
 
-  async getMethod(method: string) {
+  async getMethod(method: string): Promise<StellifyMethod> {
     const response = await this.client.get(`/method/${method}`);
-    return response.data;
+    return decodeMethod(response.data, requestOf(response));
   }
 
-  async saveMethod(method: string, data: any) {
+  async saveMethod(method: string, data: any): Promise<StellifyMethod> {
     const response = await this.client.put(`/method/${method}`, data);
+    return decodeMethod(response.data, requestOf(response));
+  }
+
+  async deleteMethod(method: string) {
+    const response = await this.client.delete(`/method/${method}`);
     return response.data;
   }
 
-  async createStatement(params: { file?: string; method?: string }) {
+  async createStatement(params: { file?: string; method?: string }): Promise<Statement> {
     const response = await this.client.post('/statement', params);
-    return response.data;
+    return decodeStatement(response.data, requestOf(response));
   }
 
-  async getStatement(statement: string) {
+  async getStatement(statement: string): Promise<Statement> {
     const response = await this.client.get(`/statement/${statement}`);
-    return response.data;
+    return decodeStatement(response.data, requestOf(response));
   }
 
   async saveStatement(statement: string, data: any) {
@@ -147,39 +257,50 @@ export class StellifyClient {
     return response.data;
   }
 
-  async createRoute(params: CreateRouteParams) {
-    const response = await this.client.post('/route', params);
+  async deleteStatement(statement: string) {
+    const response = await this.client.delete(`/statement/${statement}`);
     return response.data;
   }
 
-  async getRoute(route: string) {
+  async createRoute(params: CreateRouteParams): Promise<Route> {
+    const project_id = params.project_id || this.project || await this.activeProjectUuid();
+    const response = await this.client.post('/route', { ...params, project_id });
+    return decode(routeSchema, 'route', response.data, requestOf(response));
+  }
+
+  async getRoute(route: string): Promise<Route> {
     const response = await this.client.get(`/route/${route}`);
-    return response.data;
+    return decode(routeSchema, 'route', response.data, requestOf(response));
   }
 
-  async searchRoutes(params: { search?: string; type?: string }) {
+  async searchRoutes(params: { search?: string; type?: string; page?: number; per_page?: number; cursor?: string }): Promise<SearchResults<Route>> {
     const response = await this.client.get('/route/search', { params });
+    return decodeSearch(routeSchema, 'routes', response.data, requestOf(response));
+  }
+
+  async deleteRoute(route: string) {
+    const response = await this.client.delete(`/route/${route}`);
     return response.data;
   }
 
-  async createElement(params: CreateElementParams) {
+  async createElement(params: CreateElementParams): Promise<Element> {
     const response = await this.client.post('/element', params);
-    return response.data;
+    return decode(elementSchema, 'element', response.data, requestOf(response));
   }
 
-  async updateElement(element: string, data: any) {
+  async updateElement(element: string, data: any): Promise<Element> {
     const response = await this.client.put(`/element/${element}`, data);
-    return response.data;
+    return decode(elementSchema, 'element', response.data, requestOf(response));
   }
 
-  async getElement(element: string) {
+  async getElement(element: string): Promise<Element> {
     const response = await this.client.get(`/element/${element}`);
-    return response.data;
+    return decode(elementSchema, 'element', response.data, requestOf(response));
   }
 
-  async getElementTree(element: string) {
+  async getElementTree(element: string): Promise<Element> {
     const response = await this.client.get(`/element/${element}/tree`);
-    return response.data;
+    return decode(elementSchema, 'element', response.data, requestOf(response));
   }
 
   async deleteElement(uuid: string) {
@@ -191,10 +312,12 @@ export class StellifyClient {
     search?: string;
     type?: string;
     include_metadata?: boolean;
+    page?: number;
     per_page?: number;
-  }) {
+    cursor?: string;
+  }): Promise<SearchResults<Element>> {
     const response = await this.client.get('/element/search', { params });
-    return response.data;
+    return decodeSearch(elementSchema, 'elements', response.data, requestOf(response));
   }
 
   async htmlToElements(params: {
@@ -208,14 +331,15 @@ export class StellifyClient {
   }
 
   // Directory methods
-  async getDirectory(uuid: string) {
+  async getDirectory(uuid: string): Promise<Directory> {
     const response = await this.client.get(`/directory/${uuid}`);
-    return response.data;
+    return decode(directorySchema, 'directory', response.data, requestOf(response));
   }
 
-  async createDirectory(params: { name: string }) {
+  // `existing` is true when a directory with that name was already there
+  async createDirectory(params: { name: string }): Promise<Directory & { existing: boolean }> {
     const response = await this.client.post('/directory', params);
-    return response.data;
+    return { ...decode(directorySchema, 'directory', response.data, requestOf(response)), existing: response.data?.existing === true };
   }
 
   async saveDirectory(uuid: string, data: any) {
@@ -223,10 +347,40 @@ export class StellifyClient {
     return response.data;
   }
 
+  async deleteDirectory(uuid: string) {
+    const response = await this.client.delete(`/directory/${uuid}`);
+    return response.data;
+  }
+
   // Project methods
-  async getProject() {
+  async getProject(): Promise<Project> {
     const response = await this.client.get('/getProject');
-    return response.data;
+    return decodeProject(response.data, requestOf(response));
+  }
+
+  async listProjects(): Promise<ProjectInfo[]> {
+    const response = await this.client.get('/projects');
+    return decodeList(projectInfoSchema, 'projects', response.data, requestOf(response));
+  }
+
+  // Branch methods
+  async listBranches(): Promise<Branch[]> {
+    const response = await this.client.get('/branches');
+    return decodeBranches(response.data, requestOf(response));
+  }
+
+  async createBranch(params: { name: string; from?: string }): Promise<Branch> {
+    const response = await this.client.post('/branch', params);
+    return decode(branchSchema, 'branch', response.data, requestOf(response));
+  }
+
+  // Structured diff between two branches - see branches.ts
+  async diffBranches(base: string, head: string): Promise<BranchDiff> {
+    return diffBranches(this, base, head);
+  }
+
+  private async activeProjectUuid(): Promise<string> {
+    return (await this.getProject()).project.uuid;
   }
 
   // Element command broadcast (real-time UI updates via WebSocket)
@@ -263,9 +417,9 @@ export class StellifyClient {
     routes?: boolean;
     soft_deletes?: boolean;
     api?: boolean;
-  }) {
+  }): Promise<ResourceScaffold> {
     const response = await this.client.post('/resources', params);
-    return response.data;
+    return decode(resourceScaffoldSchema, 'resources', response.data, requestOf(response));
   }
 
   // Code execution - runs a specific method by file and method UUID
@@ -275,13 +429,13 @@ export class StellifyClient {
     args?: any[];
     timeout?: number;
     benchmark?: boolean;
-  }) {
+  }): Promise<CodeExecution> {
     const { file, method, ...body } = params;
     if (!file || !method) {
       throw new Error('Both file and method UUIDs are required to run code');
     }
     const response = await this.client.put(`/code/${file}/${method}`, body);
-    return response.data;
+    return decode(codeExecutionSchema, 'execution', response.data, requestOf(response));
   }
 
   // Framework capabilities - list what's available
@@ -297,9 +451,9 @@ export class StellifyClient {
     use_case: string;
     workaround?: string;
     priority?: 'low' | 'medium' | 'high' | 'critical';
-  }) {
+  }): Promise<CapabilityRequest> {
     const response = await this.client.post('/capabilities/request', params);
-    return response.data;
+    return decode(capabilityRequestSchema, 'request', response.data, requestOf(response));
   }
 
   // Performance analysis - analyze execution logs for optimization opportunities
@@ -307,7 +461,7 @@ export class StellifyClient {
     type?: 'full' | 'slow_methods' | 'high_query_methods' | 'high_memory_methods' | 'failure_rates' | 'trend';
     days?: number;
     limit?: number;
-  }) {
+  }): Promise<Analysis> {
     const type = params.type || 'full';
     const queryParams: Record<string, any> = {};
 
@@ -324,13 +478,13 @@ export class StellifyClient {
                      '/performance/analyze';
 
     const response = await this.client.get(endpoint, { params: queryParams });
-    return response.data;
+    return decodeAnalysis(response.data, requestOf(response));
   }
 
   // Code quality analysis - analyze Laravel structure for issues
   async analyzeQuality(params: {
     type?: 'full' | 'relationships' | 'fillables' | 'casts' | 'routes';
-  }) {
+  }): Promise<Analysis> {
     const type = params.type || 'full';
 
     // Map type to endpoint
@@ -342,7 +496,57 @@ export class StellifyClient {
                      '/quality/analyze';
 
     const response = await this.client.get(endpoint);
-    return response.data;
+    return decodeAnalysis(response.data, requestOf(response));
+  }
+
+  // Source rendering - assemble readable PHP/Vue/JS text from a file's structured JSON
+  async renderFile(file: string): Promise<RenderedFile> {
+    return renderFile(this, file);
+  }
+
+  // Project export - write every file to a local Laravel/Vue directory tree
+  async exportProject(options: ExportOptions): Promise<ExportReport> {
+    return exportProject(this, options);
+  }
+
+  // Search results a page at a time, with a cursor to continue, or every page up to a cap with `all`
+  async search(kind: SearchKind, args: SearchArgs = {}): Promise<SearchPage> {
+    return searchPages(this, kind, args);
+  }
+
+  // Copy a shared library file, with its methods, statements and includes, into a project directory
+  async cloneLibraryFile(options: CloneOptions): Promise<CloneResult> {
+    return cloneLibraryFile(this, options);
+  }
+
+  // Project import - replay a local Laravel/Vue folder through the create/save endpoints
+  async importDirectory(options: ImportOptions): Promise<ImportReport> {
+    return importDirectory(this, options);
+  }
+
+  // Version diff - stored file/method against a proposed payload, or a snapshot against what is stored
+  async diffEntity(kind: DiffKind, uuid: string, versions: { proposed?: any; snapshot?: any }): Promise<EntityDiff> {
+    return diffEntity(this, kind, uuid, versions);
+  }
+
+  // Partial file update - apply operations to the stored file with an optimistic version check
+  async patchFile(file: string, operations: PatchOperation[], options: PatchOptions = {}): Promise<PatchReport> {
+    return patchFile(this, file, operations, options);
+  }
+
+  // Reference-checked delete - refuses while other entities still point at the target
+  async deleteWithReferences(kind: DeletableKind, uuid: string, options: DeleteOptions = {}): Promise<DeleteReport> {
+    return deleteWithReferences(this, kind, uuid, options);
+  }
+
+  // Vue component builder - the full SFC workflow in one call
+  async createVueComponent(options: VueComponentOptions): Promise<VueComponentResult> {
+    return buildVueComponent(this, options);
+  }
+
+  // Batch operations - run tool calls in order, rolling back created entities on failure
+  async runBatch(execute: ToolExecutor, operations: BatchOperation[], options: BatchOptions = {}): Promise<BatchReport> {
+    return runBatch(this, execute, operations, options);
   }
 
 }
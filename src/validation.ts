@@ -0,0 +1,108 @@
+import type { JsonSchema } from './schemas.js';
+
+// =============================================================================
+// TOOL INPUT VALIDATION
+// =============================================================================
+// Checks tool arguments against the tool's inputSchema before anything reaches
+// the API, so a missing UUID or a bad enum value comes back as a field-level
+// issue instead of an opaque HTTP error.
+
+export interface ValidationIssue {
+  path: string; // e.g. "parameters[0].name"
+  expected: string;
+  received: string;
+  message: string;
+}
+
+export class ToolInputError extends Error {
+  constructor(public tool: string, public issues: ValidationIssue[]) {
+    super(`Invalid arguments for ${tool}: ${issues.map((issue) => `${issue.path} ${issue.message}`).join('; ')}`);
+    this.name = 'ToolInputError';
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function preview(value: unknown): string {
+  const text = JSON.stringify(value) ?? 'undefined';
+  return text.length > 60 ? `${text.slice(0, 60)}...` : text;
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'object': return !!value && typeof value === 'object' && !Array.isArray(value);
+    case 'array': return Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    default: return typeof value === type;
+  }
+}
+
+/**
+ * Collect every place the value breaks the schema. Supports the subset of
+ * JSON Schema the tool definitions and response models use: type, enum,
+ * properties, required, items, additionalProperties and nullable.
+ */
+export function validate(schema: JsonSchema, value: unknown, path = 'arguments'): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (value === null && schema.nullable) {
+    return issues;
+  }
+
+  if (schema.type && !matchesType(schema.type, value)) {
+    issues.push({ path, expected: schema.type, received: typeOf(value), message: `must be ${/^[aeiou]/.test(schema.type) ? 'an' : 'a'} ${schema.type}` });
+    return issues;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as any)) {
+    const expected = schema.enum.map((entry) => JSON.stringify(entry)).join(' | ');
+    issues.push({ path, expected, received: preview(value), message: `must be one of ${expected}` });
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((entry, index) => issues.push(...validate(schema.items!, entry, `${path}[${index}]`)));
+  }
+
+  if (schema.type === 'object' && schema.properties) {
+    const object = value as Record<string, unknown>;
+    const prefix = path === 'arguments' ? '' : `${path}.`;
+
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) {
+        const expected = schema.properties[key]?.type || 'value';
+        issues.push({ path: `${prefix}${key}`, expected, received: 'undefined', message: 'is required' });
+      }
+    }
+    for (const [key, entry] of Object.entries(object)) {
+      const property = schema.properties[key];
+      if (!property) {
+        if (schema.additionalProperties !== true) {
+          const known = Object.keys(schema.properties).join(', ') || 'none';
+          issues.push({ path: `${prefix}${key}`, expected: `one of: ${known}`, received: 'unknown property', message: 'is not a known property' });
+        }
+        continue;
+      }
+      if (entry !== undefined) {
+        issues.push(...validate(property, entry, `${prefix}${key}`));
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Throw a ToolInputError listing every issue if the arguments do not match.
+ */
+export function assertValidArguments(tool: string, schema: JsonSchema, args: unknown): void {
+  const issues = validate(schema, args);
+  if (issues.length > 0) {
+    throw new ToolInputError(tool, issues);
+  }
+}
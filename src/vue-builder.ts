@@ -0,0 +1,115 @@
+import { createPlannedFile, WiredEvent } from './importer.js';
+import type { StellifyClient } from './stellify-client.js';
+import { planVueFile } from './source-parser.js';
+
+// =============================================================================
+// VUE COMPONENT BUILDER
+// =============================================================================
+// Runs the whole VUE COMPONENT WORKFLOW from a single SFC source:
+// create_file → statements → methods → html_to_elements → event wiring →
+// save_file, through the importer's createPlannedFile. It also adds the
+// `import { ... } from 'vue'` line when the script uses ref/computed/etc.
+// without importing them, the most common missed step.
+
+// Vue APIs that <script setup> code commonly uses without importing
+const VUE_API = [
+  'ref', 'reactive', 'computed', 'watch', 'watchEffect', 'readonly', 'toRef', 'toRefs', 'nextTick',
+  'onMounted', 'onBeforeMount', 'onUpdated', 'onBeforeUpdate', 'onUnmounted', 'onBeforeUnmount',
+];
+
+const VUE_IMPORT = /^import\s*\{([^}]*)\}\s*from\s*['"]vue['"]\s*;?$/;
+
+export interface VueComponentOptions {
+  name: string;
+  directory?: string; // Defaults to the project's "js" directory
+  source?: string; // A complete SFC
+  template?: string; // Or the <template> contents...
+  script?: string; // ...and the <script setup> contents
+  module?: string;
+}
+
+export interface VueComponentResult {
+  file: string;
+  name: string;
+  directory: string;
+  statements: Array<{ uuid: string; code: string }>;
+  methods: Record<string, string>;
+  template: string[];
+  elements: string[];
+  events: WiredEvent[];
+  added_imports: string[];
+  warnings: string[];
+}
+
+/**
+ * Add any Vue APIs the code calls but does not import, either by extending an
+ * existing `import { ... } from 'vue'` statement or by prepending one.
+ */
+export function ensureVueImports(statements: string[], code: string): { statements: string[]; added: string[] } {
+  const importIndex = statements.findIndex((statement) => VUE_IMPORT.test(statement.trim()));
+  const imported = importIndex === -1
+    ? []
+    : statements[importIndex].trim().match(VUE_IMPORT)![1].split(',').map((name) => name.trim()).filter(Boolean);
+
+  const added = VUE_API
+    .filter((api) => new RegExp(`(^|[^.\\w$])${api}\\s*\\(`).test(code))
+    .filter((api) => !imported.includes(api));
+  if (added.length === 0) {
+    return { statements, added };
+  }
+
+  const line = `import { ${[...imported, ...added].join(', ')} } from 'vue';`;
+  const next = [...statements];
+  if (importIndex === -1) {
+    next.unshift(line);
+  } else {
+    next[importIndex] = line;
+  }
+  return { statements: next, added };
+}
+
+async function resolveJsDirectory(client: StellifyClient): Promise<string> {
+  const project = await client.getProject();
+  const existing = (project.directories || []).find((directory) => directory.name === 'js');
+  if (existing) return existing.uuid;
+  return (await client.createDirectory({ name: 'js' })).uuid;
+}
+
+/**
+ * Create a complete Vue SFC in one call and return every UUID created.
+ */
+export async function buildVueComponent(client: StellifyClient, options: VueComponentOptions): Promise<VueComponentResult> {
+  const source = options.source ?? [
+    options.template !== undefined ? `<template>\n${options.template}\n</template>` : '',
+    options.script !== undefined ? `<script setup>\n${options.script}\n</script>` : '',
+  ].join('\n');
+
+  const plan = planVueFile(`${options.name}.vue`, source);
+  if (typeof plan === 'string') {
+    throw new Error(`Cannot build component "${options.name}": ${plan}`);
+  }
+
+  const scriptCode = [...plan.statements, ...plan.methods.map((method) => method.body)].join('\n');
+  const { statements, added } = ensureVueImports(plan.statements, scriptCode);
+
+  let directory = options.directory || '';
+  try {
+    directory ||= await resolveJsDirectory(client);
+    const created = await createPlannedFile(client, { ...plan, statements }, directory, options.module);
+    return {
+      file: created.file,
+      name: options.name,
+      directory,
+      statements: created.statements.map((uuid, index) => ({ uuid, code: statements[index] })),
+      methods: Object.fromEntries(plan.methods.map((method, index) => [method.name, created.methods[index]])),
+      template: created.template,
+      elements: created.elements,
+      events: created.events,
+      added_imports: added,
+      warnings: [...plan.warnings, ...created.warnings],
+    };
+  } catch (error: any) {
+    error.message = `create_vue_component failed: ${error.message}`;
+    throw error;
+  }
+}
@@ -32,7 +32,7 @@ async function test() {
     // Test 3: Create a method
     console.log('3. Creating add() method...');
     const method = await client.createMethod({
-      file: file.data.uuid,
+      file: file.uuid,
       name: 'add',
       visibility: 'public',
       returnType: 'int',
@@ -47,8 +47,8 @@ async function test() {
     // Test 4: Add method body
     console.log('4. Adding method implementation...');
     const body = await client.addMethodBody({
-      file_uuid: file.data.uuid,
-      method_uuid: method.data.uuid,
+      file: file.uuid,
+      method: method.uuid,
       code: 'return $a + $b;',
     });
     console.log('✅ Method body parsed:', JSON.stringify(body, null, 2));
@@ -0,0 +1,62 @@
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AuditLog } from './dist/audit.js';
+import { ToolPolicyError } from './dist/policy.js';
+import { check, memoryClient } from './test-helpers.js';
+
+// Audits tool calls on the in-memory backend - no network or Stellify account needed.
+const client = memoryClient('test-audit');
+const root = mkdtempSync(path.join(os.tmpdir(), 'stellify-audit-'));
+const file = path.join(root, 'audit.jsonl');
+
+async function testAudit() {
+  console.log('Testing the audit log\n');
+
+  try {
+    const log = new AuditLog({ file, maxBytes: 4096, maxFiles: 2 });
+    const audit = log.forSession('test-token');
+    const { directories } = await client.getProject();
+    const services = directories.find((directory) => directory.name === 'Services');
+
+    console.log('1. Recording tool calls...');
+    const args = { directory: services.uuid, name: 'PriceService', type: 'class', api_token: 'secret' };
+    const created = await audit.record('create_file', args, false, () => client.createFile(args));
+    await audit.record('save_file', { uuid: created.uuid }, false, async () => client.saveFile(created.uuid, { ...(await client.getFile(created.uuid)), name: 'Prices' }));
+    const [saved, create] = audit.query();
+    check(create.tool === 'create_file' && create.outcome === 'ok' && create.created.includes(created.uuid), 'Created UUID recorded');
+    check(create.arguments.api_token === '[redacted]', 'Secret argument redacted');
+    check(create.requests.some((request) => request.method === 'POST' && request.url === '/file'), 'API request recorded');
+    check(saved.modified.includes(created.uuid) && saved.requests.length === 2, 'Modified UUID and both requests recorded');
+
+    console.log('\n2. Failures...');
+    await audit.record('delete_file', {}, false, async () => {
+      throw new ToolPolicyError('delete_file', 'denied by policy ("delete_*")');
+    }).catch(() => {});
+    await audit.record('get_file', { uuid: 'missing' }, false, () => client.getFile('missing')).catch(() => {});
+    check(audit.query({ outcome: 'refused' })[0]?.tool === 'delete_file', 'Policy refusal recorded as refused');
+    check(audit.query({ tool: 'get_file' })[0]?.outcome === 'error', 'API error recorded as error');
+
+    console.log('\n3. Queries...');
+    check(audit.query({ uuid: created.uuid }).length === 2, 'Entries found by entity');
+    const other = log.forSession('other-token');
+    check(other.query({ session: 'all' }).length === 0, 'Other tokens see none of them');
+    check(log.forSession('test-token').query({ session: 'all' }).length === 4 && log.forSession('test-token').query().length === 0, 'A new session of the same token sees them with session: all');
+
+    console.log('\n4. Rotation...');
+    for (let index = 0; index < 20; index++) {
+      await audit.record('get_project', { note: 'x'.repeat(500) }, false, () => client.getProject());
+    }
+    check(existsSync(`${file}.1`) && !existsSync(`${file}.3`), 'Rotated, keeping two old files');
+    check(audit.query({ limit: 100, tool: 'get_project' }).length > 0, 'Entries still readable');
+
+    console.log('\n🎉 Audit log working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+}
+
+testAudit();
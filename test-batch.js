@@ -0,0 +1,57 @@
+import { check, exists, memoryClient } from './test-helpers.js';
+
+// Runs batches on the in-memory backend - no network or Stellify account needed.
+const client = memoryClient('test-batch');
+
+// A stand-in for the server's tool handlers: MCP results with a JSON text block
+const handlers = {
+  create_file: async (args) => ({ success: true, file: await client.createFile(args) }),
+  create_method: async (args) => ({ success: true, method: await client.createMethod(args) }),
+  add_method_body: async (args) => ({ success: true, data: await client.addMethodBody(args) }),
+};
+const calls = [];
+async function execute(tool, args) {
+  calls.push({ tool, args });
+  const result = await handlers[tool](args);
+  return { content: [{ type: 'text', text: JSON.stringify(result) }] };
+}
+
+async function testBatch() {
+  console.log('Testing batch placeholders and rollback\n');
+
+  try {
+    const { directories } = await client.getProject();
+    const services = directories.find((directory) => directory.name === 'Services');
+
+    console.log('1. Placeholders...');
+    const code = 'return preg_replace(\'/(\\d+)/\', \'$1\', "$1.50");';
+    const report = await client.runBatch(execute, [
+      { tool: 'create_file', arguments: { directory: services.uuid, name: 'PriceService', type: 'class' } },
+      { tool: 'create_method', arguments: { file: '$0.uuid', name: 'price' } },
+      { tool: 'add_method_body', arguments: { file: '$0.uuid', method: '$1.uuid', code } },
+    ]);
+    check(report.success, 'Batch succeeded');
+    check(calls[1].args.file === report.steps[0].result.file.uuid, '"$0.uuid" replaced by the file UUID');
+    check(calls[2].args.code === code, 'Code containing "$1" passed through untouched');
+
+    console.log('\n2. Rollback...');
+    const rollback = await client.runBatch(execute, [
+      { tool: 'create_file', arguments: { directory: services.uuid, name: 'BrokenService', type: 'class' } },
+      { tool: 'create_method', arguments: { file: '$0.uuid', name: 'broken' } },
+      { tool: 'add_method_body', arguments: { file: '$0.uuid', method: '$5.uuid', code: 'return 1;' } },
+      { tool: 'create_method', arguments: { file: '$0.uuid', name: 'never' } },
+    ]);
+    check(!rollback.success && rollback.steps[2].error.includes('$5.uuid refers to a step that has not run yet'), 'Unresolvable placeholder fails its step');
+    check(rollback.steps[3].status === 'skipped', 'Later steps skipped');
+    check(rollback.rolled_back.map((entity) => entity.kind).join(',') === 'method,file', 'Method then file deleted');
+    const [file, method] = [rollback.steps[0].result.file.uuid, rollback.steps[1].result.method.uuid];
+    check(!(await exists(() => client.getFile(file))) && !(await exists(() => client.getMethod(method))), 'Nothing left behind');
+
+    console.log('\n🎉 Batch placeholders and rollback working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  }
+}
+
+testBatch();
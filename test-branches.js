@@ -0,0 +1,46 @@
+import { check, memoryClient } from './test-helpers.js';
+
+// Works on a branch of the in-memory backend - no network or Stellify account needed.
+const client = memoryClient('test-branches');
+
+async function testBranches() {
+  console.log('Testing branches\n');
+
+  try {
+    const { directories } = await client.getProject();
+    const services = directories.find((directory) => directory.name === 'Services');
+    const file = await client.createFile({ directory: services.uuid, name: 'PriceService', type: 'class' });
+    const price = await client.createMethod({ file: file.uuid, name: 'price' });
+
+    console.log('1. Creating a branch...');
+    const branch = await client.createBranch({ name: 'feature' });
+    check(branch.name === 'feature', 'Branch created');
+    const names = (await client.listBranches()).map((entry) => entry.name);
+    check(names.includes('main') && names.includes('feature'), `Branches listed: ${names.join(', ')}`);
+
+    console.log('\n2. Changing the branch...');
+    const feature = client.forSession();
+    feature.useBranch('feature');
+    const method = await feature.createMethod({ file: file.uuid, name: 'discount' });
+    await feature.addMethodBody({ file: file.uuid, method: price.uuid, code: 'return 10;' });
+    await feature.createFile({ directory: services.uuid, name: 'TaxService', type: 'class' });
+    check(!(await client.getFile(file.uuid)).data.includes(method.uuid), 'Main left as it was');
+
+    console.log('\n3. Diffing...');
+    const diff = await client.diffBranches('main', 'feature');
+    check(diff.errors.length === 0, 'Both branches read');
+    check(diff.files.added.length === 1 && diff.files.added[0].path.endsWith('TaxService'), 'New file reported as added');
+    const [modified] = diff.files.modified;
+    check(diff.files.modified.length === 1 && modified.uuid === file.uuid, 'Changed file reported as modified');
+    check(modified.methods.added.join() === 'discount' && modified.methods.modified.join() === 'price', 'Methods summarised by name');
+    check(modified.method_statements.price?.added.length === 1, 'Statement added to price reported');
+    check(client.selectedBranch === null, 'Diff leaves the client on its own branch');
+
+    console.log('\n🎉 Branches working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  }
+}
+
+testBranches();
@@ -0,0 +1,62 @@
+import { readFileSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { StellifyClient } from './dist/stellify-client.js';
+import { Cassette } from './dist/cassette.js';
+import { check } from './test-helpers.js';
+
+// Records a session against the in-memory backend, then replays it with no API at all.
+const file = path.join(os.tmpdir(), `stellify-cassette-${process.pid}.jsonl`);
+const token = 'test-token-0123456789abcdef';
+
+async function session(client) {
+  const { directories } = await client.getProject();
+  const js = directories.find((directory) => directory.name === 'js');
+  const file = await client.createFile({ directory: js.uuid, name: `Widget ${token}`, type: 'js', extension: 'vue' });
+  const method = await client.createMethod({ file: file.uuid, name: 'render' });
+  let missing = null;
+  try {
+    await client.getFile('no-such-file');
+  } catch (error) {
+    missing = error.response?.status;
+  }
+  return { file: file.uuid, method: method.uuid, methods: (await client.getFile(file.uuid)).data, missing };
+}
+
+async function testCassette() {
+  console.log('Testing record / replay\n');
+
+  try {
+    console.log('1. Recording...');
+    const recording = Cassette.record(file);
+    const recorded = await session(new StellifyClient({ apiUrl: 'memory://test-cassette', apiToken: token, cassette: recording }));
+    const lines = readFileSync(file, 'utf8').trim().split('\n');
+    check(lines.length === 5, 'One entry per request, errors included');
+    check(!readFileSync(file, 'utf8').includes(token), 'Token redacted from headers and bodies');
+    check(JSON.parse(lines[0]).request.headers.authorization === '[redacted]', 'Authorization header redacted');
+
+    console.log('\n2. Replaying...');
+    const cassette = Cassette.replay(file);
+    const client = new StellifyClient({ apiUrl: 'http://127.0.0.1:9', apiToken: 'replay', cassette, http: { retries: 0 } });
+    const replayed = await session(client);
+    check(JSON.stringify(replayed) === JSON.stringify(recorded), 'Replay returns the recorded results, 404 included');
+    check(cassette.remaining === 0, 'Every entry replayed');
+
+    console.log('\n3. Requests not in the cassette...');
+    try {
+      await client.getFile(recorded.file);
+      throw new Error('Unrecorded request was answered');
+    } catch (error) {
+      check(error.name === 'CassetteMismatchError', 'Unrecorded request fails without reaching the network');
+    }
+
+    console.log('\n🎉 Record / replay working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    rmSync(file, { force: true });
+  }
+}
+
+testCassette();
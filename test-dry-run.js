@@ -0,0 +1,49 @@
+import { DryRunPlan, PLACEHOLDER_PREFIX } from './dist/dry-run.js';
+import { check, memoryClient } from './test-helpers.js';
+
+// Plans writes on the in-memory backend - no network or Stellify account needed.
+const client = memoryClient('test-dry-run');
+
+async function fileCount() {
+  return (await client.search('files', { all: true })).items.length;
+}
+
+async function testDryRun() {
+  console.log('Testing dry runs\n');
+
+  try {
+    const before = await fileCount();
+
+    console.log('1. Chained writes...');
+    const plan = new DryRunPlan();
+    const dry = client.forDryRun(plan);
+    const built = await dry.createVueComponent({
+      name: 'Counter',
+      source: '<template><button @click="increment">+</button></template>\n<script setup>\nfunction increment() {\n  return 1;\n}\n</script>',
+    });
+    check(built.file.startsWith(PLACEHOLDER_PREFIX), `File given a placeholder UUID (${built.file})`);
+    check(plan.requests.length > 0 && plan.requests.every((request) => request.method !== 'GET'), `${plan.requests.length} writes recorded`);
+    check(plan.effects.some((effect) => effect === 'Create file "Counter"'), 'Effects described in words');
+    check((await dry.getFile(built.file)).name === 'Counter', 'Placeholder read back as the plan would create it');
+
+    console.log('\n2. Nothing sent...');
+    check(await fileCount() === before, 'No file created');
+    const { project } = await client.getProject();
+    const { deleted_count } = await dry.deleteFile(project.uuid);
+    check(deleted_count === 0 && plan.requests.at(-1).effect.startsWith('Delete file'), 'Delete recorded, not sent');
+
+    console.log('\n3. Sessions forked from a dry run...');
+    const forked = dry.forSession();
+    await forked.createDirectory({ name: 'planned' });
+    const { directories } = await client.getProject();
+    check(!directories.some((directory) => directory.name === 'planned'), 'Fork still records instead of sending');
+    check(plan.effects.at(-1) === 'Create directory "planned"', 'Fork writes into the same plan');
+
+    console.log('\n🎉 Dry runs working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  }
+}
+
+testDryRun();
@@ -24,34 +24,32 @@ async function testElements() {
       method: 'GET',
       type: 'web',
     });
-    console.log('✅ Route created:', route.data.uuid);
+    console.log('✅ Route created:', route.uuid);
     console.log('');
 
     // Test 2: Create an element on that route
     console.log('2. Creating element (s-wrapper)...');
     const element = await client.createElement({
-      page: route.data.uuid,
+      page: route.uuid,
       type: 's-wrapper',
     });
     console.log('✅ Element created:', JSON.stringify(element, null, 2));
     console.log('');
 
-    // Test 3: Verify UUID is in the element data
-    console.log('3. Verifying UUID in element data...');
-    if (element.data && element.data.uuid) {
-      console.log('✅ UUID found at root level:', element.data.uuid);
-      console.log('   Matches element UUID:', element.uuid === element.data.uuid ? '✅ YES' : '❌ NO');
+    // Test 3: Verify the element came back with its UUID
+    console.log('3. Verifying element UUID...');
+    if (element.uuid) {
+      console.log('✅ UUID found:', element.uuid);
     } else {
-      console.log('❌ UUID NOT found in element.data');
-      console.log('   Element data structure:', JSON.stringify(element.data, null, 2));
+      console.log('❌ UUID NOT found on element');
+      console.log('   Element structure:', JSON.stringify(element, null, 2));
     }
     console.log('');
 
     // Test 3b: Verify route's data array contains the element UUID
     console.log('3b. Verifying route contains element UUID...');
-    const routeCheck = await client.client.get(`/route/${route.data.uuid}`);
-    const routeData = routeCheck.data.data;
-    if (routeData.data && Array.isArray(routeData.data) && routeData.data.includes(element.data.uuid)) {
+    const routeData = await client.getRoute(route.uuid);
+    if (Array.isArray(routeData.data) && routeData.data.includes(element.uuid)) {
       console.log('✅ Route data array contains element UUID');
       console.log('   Route data array:', routeData.data);
     } else {
@@ -64,24 +62,24 @@ async function testElements() {
     console.log('4. Creating child element (s-input)...');
     const childElement = await client.createElement({
       type: 's-input',
-      parent: element.data.uuid,
+      parent: element.uuid,
     });
-    console.log('✅ Child element created:', childElement.data.uuid);
+    console.log('✅ Child element created:', childElement.uuid);
 
     // Verify child UUID
-    if (childElement.data && childElement.data.uuid) {
-      console.log('✅ UUID found in child element.data:', childElement.data.uuid);
-      console.log('   Has parent reference:', childElement.data.parent ? '✅ YES (' + childElement.data.parent + ')' : '❌ NO');
+    if (childElement.uuid) {
+      console.log('✅ UUID found on child element:', childElement.uuid);
+      console.log('   Has parent reference:', childElement.parent ? '✅ YES (' + childElement.parent + ')' : '❌ NO');
     } else {
-      console.log('❌ UUID NOT found in child element.data');
+      console.log('❌ UUID NOT found on child element');
     }
     console.log('');
 
     console.log('🎉 Element creation test complete!');
     console.log('\nCreated Resources:');
-    console.log(`  Route: ${route.data.uuid} (${route.data.path})`);
-    console.log(`  Parent Element: ${element.data.uuid}`);
-    console.log(`  Child Element: ${childElement.data.uuid}`);
+    console.log(`  Route: ${route.uuid} (${route.path})`);
+    console.log(`  Parent Element: ${element.uuid}`);
+    console.log(`  Child Element: ${childElement.uuid}`);
 
   } catch (error) {
     console.error('❌ Test failed:', error.message);
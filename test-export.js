@@ -0,0 +1,42 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { check, memoryClient } from './test-helpers.js';
+
+// Exports a project from the in-memory backend - no network or Stellify account needed.
+const client = memoryClient('test-export');
+const root = mkdtempSync(path.join(os.tmpdir(), 'stellify-export-'));
+const outputDir = path.join(root, 'app');
+
+async function testExport() {
+  console.log('Testing project export\n');
+
+  try {
+    const { directories } = await client.getProject();
+    const services = directories.find((directory) => directory.name === 'Services');
+    await client.createFile({ directory: services.uuid, name: 'PriceService', type: 'class', namespace: 'App\\Services\\' });
+
+    console.log('1. Exporting...');
+    const first = await client.exportProject({ outputDir });
+    check(first.written.includes('app/Services/PriceService.php'), 'Class written to its namespace path');
+    check(readFileSync(path.join(outputDir, 'app/Services/PriceService.php'), 'utf8').includes('class PriceService'), 'Source rendered');
+    const again = await client.exportProject({ outputDir });
+    check(again.written.length === 0 && again.unchanged.includes('app/Services/PriceService.php'), 'Unchanged files skipped on re-export');
+
+    console.log('\n2. Names that leave the export directory...');
+    const escape = await client.createFile({ directory: services.uuid, name: 'Escape', type: 'class', namespace: '..\\..\\outside\\' });
+    const report = await client.exportProject({ outputDir });
+    const error = report.errors.find((entry) => entry.uuid === escape.uuid);
+    check(error && error.error.includes('Refusing to write'), `Refused: ${error?.error}`);
+    check(!existsSync(path.join(root, 'outside')) && !existsSync(path.join(root, '..', 'outside')), 'Nothing written outside');
+
+    console.log('\n🎉 Project export working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+}
+
+testExport();
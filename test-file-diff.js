@@ -0,0 +1,50 @@
+import { check, memoryClient } from './test-helpers.js';
+
+// Diffs files and methods on the in-memory backend - no network or Stellify account needed.
+const client = memoryClient('test-file-diff');
+
+async function testFileDiff() {
+  console.log('Testing file and method diffs\n');
+
+  try {
+    const { directories } = await client.getProject();
+    const services = directories.find((directory) => directory.name === 'Services');
+    const file = await client.createFile({ directory: services.uuid, name: 'PriceService', type: 'class' });
+    const methods = [];
+    for (const name of ['one', 'two', 'three']) {
+      methods.push((await client.createMethod({ file: file.uuid, name })).uuid);
+    }
+
+    console.log('1. A proposed payload...');
+    const current = await client.getFile(file.uuid);
+    const proposed = { ...current, name: 'Prices', data: [methods[2], methods[0]] };
+    const diff = await client.diffEntity('file', file.uuid, { proposed });
+    check(diff.changed && diff.compared === 'proposed', 'Change detected');
+    check(diff.references.data.removed.join() === methods[1], 'Dropped method reported as removed');
+    check(diff.references.data.reordered.length === 1, 'Moved method reported as reordered');
+    check(diff.dropped.length === 1 && diff.dropped[0].field === 'data' && diff.dropped[0].uuid === methods[1], 'Dropped reference listed');
+    check(diff.fields.some((field) => field.field === 'name' && field.before === 'PriceService' && field.after === 'Prices'), 'Renamed field reported');
+    check(!(await client.diffEntity('file', file.uuid, { proposed: current })).changed, 'Unchanged payload reports no change');
+
+    console.log('\n2. A snapshot...');
+    const snapshot = await client.getMethod(methods[0]);
+    await client.addMethodBody({ file: file.uuid, method: methods[0], code: 'return 1;' });
+    const since = await client.diffEntity('method', methods[0], { snapshot });
+    check(since.compared === 'snapshot' && since.references.data.added.length === 1, 'Statement added since the snapshot');
+
+    console.log('\n3. Bad arguments...');
+    try {
+      await client.diffEntity('file', file.uuid, { proposed, snapshot: current });
+      throw new Error('Both versions were accepted');
+    } catch (error) {
+      check(error.message.includes('exactly one'), `Refused: ${error.message}`);
+    }
+
+    console.log('\n🎉 File and method diffs working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  }
+}
+
+testFileDiff();
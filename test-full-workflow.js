@@ -24,21 +24,21 @@ async function testFullWorkflow() {
       method: 'GET',
       type: 'web',
     });
-    console.log('✅ Route created:', route.data.uuid);
+    console.log('✅ Route created:', route.uuid);
     console.log('');
 
     // Step 2: Create form wrapper
     console.log('2. Creating form wrapper (s-form)...');
     const form = await client.createElement({
-      page: route.data.uuid,
+      page: route.uuid,
       type: 's-form',
     });
-    console.log('✅ Form created:', form.data.uuid);
+    console.log('✅ Form created:', form.uuid);
     console.log('');
 
     // Step 3: Update form with attributes
     console.log('3. Updating form with HTML attributes...');
-    const updatedForm = await client.updateElement(form.data.uuid, {
+    const updatedForm = await client.updateElement(form.uuid, {
       name: 'Contact Form',
       tag: 'form',
       method: 'POST',
@@ -52,15 +52,15 @@ async function testFullWorkflow() {
     // Step 4: Create email input
     console.log('4. Creating email input (s-input)...');
     const emailInput = await client.createElement({
-      parent: form.data.uuid,
+      parent: form.uuid,
       type: 's-input',
     });
-    console.log('✅ Email input created:', emailInput.data.uuid);
+    console.log('✅ Email input created:', emailInput.uuid);
     console.log('');
 
     // Step 5: Update email input with full attributes
     console.log('5. Configuring email input with HTML attributes...');
-    const updatedEmail = await client.updateElement(emailInput.data.uuid, {
+    const updatedEmail = await client.updateElement(emailInput.uuid, {
       name: 'Email Field',
       tag: 'input',
       type: 'email',
@@ -75,15 +75,15 @@ async function testFullWorkflow() {
     // Step 6: Create submit button
     console.log('6. Creating submit button (s-wrapper)...');
     const button = await client.createElement({
-      parent: form.data.uuid,
+      parent: form.uuid,
       type: 's-wrapper',
     });
-    console.log('✅ Button created:', button.data.uuid);
+    console.log('✅ Button created:', button.uuid);
     console.log('');
 
     // Step 7: Update button with attributes
     console.log('7. Configuring button with HTML attributes...');
-    const updatedButton = await client.updateElement(button.data.uuid, {
+    const updatedButton = await client.updateElement(button.uuid, {
       name: 'Submit Button',
       tag: 'button',
       type: 'submit',
@@ -96,10 +96,10 @@ async function testFullWorkflow() {
 
     console.log('🎉 Full workflow test complete!');
     console.log('\n📋 Summary:');
-    console.log(`  Route: ${route.data.uuid} (${route.data.path})`);
-    console.log(`  Form: ${form.data.uuid}`);
-    console.log(`  Email Input: ${emailInput.data.uuid}`);
-    console.log(`  Submit Button: ${button.data.uuid}`);
+    console.log(`  Route: ${route.uuid} (${route.path})`);
+    console.log(`  Form: ${form.uuid}`);
+    console.log(`  Email Input: ${emailInput.uuid}`);
+    console.log(`  Submit Button: ${button.uuid}`);
     console.log('\n✨ Successfully built a complete contact form with:');
     console.log('   - Form wrapper with POST action');
     console.log('   - Email input with validation');
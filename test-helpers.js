@@ -0,0 +1,38 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StellifyClient } from './dist/stellify-client.js';
+
+// Shared by the test-*.js scripts. Run `npm run build` first; the scripts import ./dist/.
+
+export function check(condition, message) {
+  if (!condition) throw new Error(message);
+  console.log(`✅ ${message}`);
+}
+
+// A client on its own in-memory workspace - no network or Stellify account needed
+export function memoryClient(workspace, apiToken = 'test-token') {
+  return new StellifyClient({ apiUrl: `memory://${workspace}`, apiToken });
+}
+
+// Whether the entity can still be read; other errors than 404 are rethrown
+export async function exists(get) {
+  try {
+    await get();
+    return true;
+  } catch (error) {
+    if (error.response?.status === 404) return false;
+    throw error;
+  }
+}
+
+// An MCP client connected to the stdio server on the in-memory backend, without history or audit files
+export async function connectServer(name, env = {}) {
+  const client = new Client({ name, version: '1.0.0' });
+  await client.connect(new StdioClientTransport({
+    command: process.execPath,
+    args: ['dist/index.js'],
+    env: { ...process.env, STELLIFY_API_URL: 'memory://', STELLIFY_HISTORY_FILE: 'off', STELLIFY_AUDIT_FILE: 'off', ...env },
+    stderr: 'ignore',
+  }));
+  return client;
+}
@@ -0,0 +1,74 @@
+import { readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { HistoryJournal, SessionHistory } from './dist/history.js';
+import { check, memoryClient } from './test-helpers.js';
+
+// Records and undoes changes on the in-memory backend - no network or Stellify account needed.
+const client = memoryClient('test-history');
+const file = path.join(os.tmpdir(), `stellify-history-${process.pid}.jsonl`);
+
+async function testHistory() {
+  console.log('Testing undo history\n');
+
+  try {
+    const history = new SessionHistory(new HistoryJournal(file), 'test-owner');
+    const { directories } = await client.getProject();
+    const js = directories.find((directory) => directory.name === 'js');
+    const widget = await client.createFile({ directory: js.uuid, name: 'Widget', type: 'js', extension: 'vue' });
+
+    console.log('1. Undo after switching branch...');
+    const original = await client.getFile(widget.uuid);
+    await client.createBranch({ name: 'feature' });
+    client.useBranch('feature');
+    await client.saveFile(widget.uuid, { ...original, name: 'FeatureWidget' });
+    client.useBranch('main');
+    await history.record(client, 'save_file', { uuid: widget.uuid }, () => client.saveFile(widget.uuid, { ...original, name: 'Renamed' }));
+    client.useBranch('feature');
+    const [step] = await history.undoLast(client);
+    check(step.restored, 'Undo succeeded from the feature branch');
+    check((await client.getFile(widget.uuid)).name === 'FeatureWidget', 'Feature branch left as it was');
+    client.useBranch('main');
+    check((await client.getFile(widget.uuid)).name === 'Widget', 'Main restored where the change was made');
+
+    console.log('\n2. Undoing add_statement_code...');
+    const statement = await client.createStatement({ file: widget.uuid });
+    await client.addStatementCode({ file: widget.uuid, statement: statement.uuid, code: 'const count = ref(0);' });
+    await history.record(client, 'add_statement_code', { statement: statement.uuid }, () =>
+      client.addStatementCode({ file: widget.uuid, statement: statement.uuid, code: 'const count = ref(1);' }));
+    await history.undoLast(client);
+    check((await client.getStatement(statement.uuid)).code === 'const count = ref(0);', 'Statement code restored');
+
+    console.log('\n3. Two processes sharing the journal...');
+    const other = new SessionHistory(new HistoryJournal(file), 'test-owner');
+    await other.record(client, 'save_file', { uuid: widget.uuid }, () => client.saveFile(widget.uuid, { ...original }));
+    await history.record(client, 'save_file', { uuid: widget.uuid }, () => client.saveFile(widget.uuid, { ...original }));
+    const ids = readFileSync(file, 'utf8').trim().split('\n').map((line) => JSON.parse(line).id).filter((id) => id !== undefined);
+    check(new Set(ids).size === ids.length && ids.length === 4, `Checkpoint ids stay unique: ${ids.join(', ')}`);
+
+    console.log('\n4. Waiting for another process\'s lock...');
+    writeFileSync(`${file}.lock`, '');
+    let ticks = 0;
+    const ticker = setInterval(() => ticks++, 10);
+    const waiting = history.record(client, 'save_file', { uuid: widget.uuid }, () => client.saveFile(widget.uuid, { ...original, name: 'Locked' }));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    rmSync(`${file}.lock`);
+    await waiting;
+    clearInterval(ticker);
+    check(ticks >= 5, `Event loop kept running while waiting (${ticks} ticks)`);
+    await Promise.all(['First', 'Second'].map((name) => history.record(client, 'save_file', { uuid: widget.uuid }, () => client.saveFile(widget.uuid, { ...original, name }))));
+    const recorded = history.entries().slice(-3).map((entry) => entry.id);
+    const journalled = readFileSync(file, 'utf8').trim().split('\n').map((line) => JSON.parse(line).id).filter((id) => id !== undefined).slice(-3);
+    check(journalled.join() === recorded.join() && recorded[0] < recorded[1] && recorded[1] < recorded[2], `Appended in order: ${journalled.join(', ')}`);
+
+    console.log('\n🎉 Undo history working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    rmSync(file, { force: true });
+    rmSync(`${file}.lock`, { force: true });
+  }
+}
+
+testHistory();
@@ -24,7 +24,7 @@ async function testHtmlConversion() {
       method: 'GET',
       type: 'web',
     });
-    console.log('✅ Route created:', route.data.uuid);
+    console.log('✅ Route created:', route.uuid);
     console.log('');
 
     // Step 2: Test preview mode first
@@ -50,7 +50,7 @@ async function testHtmlConversion() {
 
     const preview = await client.htmlToElements({
       elements: html,
-      page: route.data.uuid,
+      page: route.uuid,
       test: true,
     });
     console.log('✅ Preview generated:');
@@ -62,7 +62,7 @@ async function testHtmlConversion() {
     console.log('3. Converting HTML to real elements...');
     const result = await client.htmlToElements({
       elements: html,
-      page: route.data.uuid,
+      page: route.uuid,
       test: false,
     });
     console.log('✅ Result:', JSON.stringify(result, null, 2));
@@ -92,7 +92,7 @@ async function testHtmlConversion() {
     }
 
     console.log('✅ Element hierarchy:');
-    printTree(tree.data);
+    printTree(tree);
     console.log('');
 
     console.log('🎉 HTML conversion working perfectly!');
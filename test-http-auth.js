@@ -0,0 +1,108 @@
+import { spawn } from 'child_process';
+import http from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { check } from './test-helpers.js';
+
+// Runs the server in HTTP mode against a local mock API that records each request's
+// token - no Stellify account needed.
+const seen = [];
+const api = http.createServer((req, res) => {
+  seen.push({ url: req.url.split('?')[0], authorization: req.headers.authorization });
+  res.writeHead(404, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ message: 'Not found' }));
+});
+
+async function freePort() {
+  const probe = http.createServer();
+  await new Promise((resolve) => probe.listen(0, '127.0.0.1', resolve));
+  const { port } = probe.address();
+  await new Promise((resolve) => probe.close(resolve));
+  return port;
+}
+
+async function waitForHealth(base) {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    try {
+      if ((await fetch(`${base}/health`)).ok) return;
+    } catch {
+      // Not listening yet
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  throw new Error('The HTTP server did not start');
+}
+
+async function connect(base, token) {
+  const transport = new StreamableHTTPClientTransport(new URL(`${base}/mcp`), {
+    requestInit: { headers: { Authorization: `Bearer ${token}` } },
+  });
+  const client = new Client({ name: 'test-http-auth', version: '1.0.0' });
+  await client.connect(transport);
+  return { client, transport };
+}
+
+async function testHttpAuth() {
+  console.log('Testing HTTP authentication\n');
+  await new Promise((resolve) => api.listen(0, '127.0.0.1', resolve));
+  const port = await freePort();
+  const base = `http://127.0.0.1:${port}`;
+  const server = spawn(process.execPath, ['dist/index.js', '--transport', 'http', '--port', String(port)], {
+    env: {
+      ...process.env,
+      STELLIFY_API_URL: `http://127.0.0.1:${api.address().port}`,
+      STELLIFY_API_TOKEN: '',
+      STELLIFY_HISTORY_FILE: 'off',
+      STELLIFY_AUDIT_FILE: 'off',
+    },
+    stdio: 'ignore',
+  });
+  const sessions = [];
+
+  try {
+    await waitForHealth(base);
+
+    console.log('1. Missing token...');
+    const anonymous = await fetch(`${base}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    check(anonymous.status === 401 && anonymous.headers.get('www-authenticate')?.startsWith('Bearer'), 'Refused with 401 and a Bearer challenge');
+
+    console.log('\n2. Tokens per session...');
+    const alpha = await connect(base, 'alpha');
+    const beta = await connect(base, 'beta');
+    sessions.push(alpha, beta);
+    await alpha.client.callTool({ name: 'get_file', arguments: { uuid: 'alpha-file' } });
+    await beta.client.callTool({ name: 'get_file', arguments: { uuid: 'beta-file' } });
+    const sentFor = (uuid) => seen.filter((request) => request.url.endsWith(`/file/${uuid}`)).map((request) => request.authorization);
+    check(sentFor('alpha-file').length > 0 && sentFor('alpha-file').every((header) => header === 'Bearer alpha'), 'First session sent its own token to the API');
+    check(sentFor('beta-file').length > 0 && sentFor('beta-file').every((header) => header === 'Bearer beta'), 'Second session sent its own token to the API');
+
+    console.log('\n3. Sessions bound to their token...');
+    const hijack = await fetch(`${base}/mcp`, {
+      method: 'POST',
+      headers: {
+        Authorization: 'Bearer beta',
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'Mcp-Session-Id': alpha.transport.sessionId,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+    check(hijack.status === 404, 'Session opened with one token refused with another');
+    check((await alpha.client.listTools()).tools.length > 0, 'Session still usable with its own token');
+
+    console.log('\n🎉 HTTP authentication working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await Promise.all(sessions.map(({ client }) => client.close()));
+    server.kill();
+    api.close();
+  }
+}
+
+testHttpAuth();
@@ -0,0 +1,109 @@
+import http from 'http';
+import { StellifyClient } from './dist/stellify-client.js';
+import { parseRetryAfter } from './dist/http.js';
+import { check } from './test-helpers.js';
+
+// Runs the client against a local mock API - no Stellify account needed.
+// Each handler gets the request count for its path and returns [status, body, headers].
+const routes = {};
+let hits = {};
+
+const server = http.createServer((req, res) => {
+  const path = req.url.split('?')[0];
+  hits[path] = (hits[path] || 0) + 1;
+  const handler = routes[`${req.method} ${path}`];
+  if (!handler) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ message: 'Not found' }));
+    return;
+  }
+  const [status, body, headers = {}] = handler(hits[path]);
+  if (status === 'hang') return; // Never respond, to trigger the timeout
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+});
+
+function makeClient(http = {}) {
+  return new StellifyClient({
+    apiUrl: `http://127.0.0.1:${server.address().port}`,
+    apiToken: 'test-token',
+    http: { retryBaseDelay: 10, retryMaxDelay: 2000, ...http },
+  });
+}
+
+async function expectFailure(promise) {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected the request to fail');
+}
+
+async function testResilience() {
+  console.log('Testing timeouts, retries, Retry-After and the circuit breaker\n');
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  try {
+    console.log('1. GET retried after 503s...');
+    hits = {};
+    routes['GET /file/a'] = (n) => (n < 3 ? [503, { message: 'Unavailable' }] : [200, { data: { uuid: 'a' } }]);
+    const file = await makeClient().getFile('a');
+    check(file.uuid === 'a' && hits['/file/a'] === 3, 'GET succeeded on the third attempt');
+
+    console.log('\n2. POST not retried after a 500...');
+    hits = {};
+    routes['POST /file'] = () => [500, { message: 'Boom' }];
+    const postError = await expectFailure(makeClient().createFile({ directory: 'd', name: 'X', type: 'class' }));
+    check(postError.response.status === 500 && hits['/file'] === 1, 'POST failed after one attempt');
+
+    console.log('\n3. 429 honours Retry-After, even for POST...');
+    hits = {};
+    routes['POST /method'] = (n) => (n === 1 ? [429, { message: 'Slow down' }, { 'Retry-After': '1' }] : [200, { data: { uuid: 'm' } }]);
+    const started = Date.now();
+    await makeClient().createMethod({ file: 'f', name: 'run' });
+    check(hits['/method'] === 2 && Date.now() - started >= 950, 'POST retried once, about 1s later');
+    check(parseRetryAfter(new Date(Date.now() + 5000).toUTCString()) > 3000, 'Retry-After HTTP dates are parsed');
+
+    console.log('\n4. Retry-After above the limit is not waited for...');
+    hits = {};
+    routes['GET /file/slow'] = () => [429, { message: 'Slow down' }, { 'Retry-After': '120' }];
+    const limitError = await expectFailure(makeClient().getFile('slow'));
+    check(hits['/file/slow'] === 1 && /exceeds/.test(limitError.message), 'Failed immediately with the wait in the message');
+
+    console.log('\n5. Requests time out...');
+    hits = {};
+    routes['GET /file/hang'] = () => ['hang'];
+    const timeoutError = await expectFailure(makeClient({ timeout: 200, retries: 1 }).getFile('hang'));
+    check(timeoutError.code === 'ECONNABORTED' && hits['/file/hang'] === 2, 'Timed out on both attempts');
+
+    console.log('\n6. 4xx responses are not retried...');
+    hits = {};
+    routes['GET /file/missing'] = () => [404, { message: 'Missing' }];
+    await expectFailure(makeClient().getFile('missing'));
+    check(hits['/file/missing'] === 1, '404 failed after one attempt');
+
+    console.log('\n7. Circuit breaker opens, then recovers...');
+    hits = {};
+    let healthy = false;
+    routes['GET /file/flaky'] = () => (healthy ? [200, { data: { uuid: 'flaky' } }] : [502, { message: 'Bad gateway' }]);
+    const client = makeClient({ retries: 0, breakerThreshold: 3, breakerCooldown: 300 });
+    for (let i = 0; i < 3; i++) await expectFailure(client.getFile('flaky'));
+    check(client.breaker.state === 'open', 'Circuit opened after 3 failures');
+    const openError = await expectFailure(client.getFile('flaky'));
+    check(openError.name === 'CircuitOpenError' && hits['/file/flaky'] === 3, 'Open circuit failed fast without a request');
+    await new Promise((resolve) => setTimeout(resolve, 350));
+    healthy = true;
+    await client.getFile('flaky');
+    check(client.breaker.state === 'closed', 'Trial request after the cooldown closed the circuit');
+
+    console.log('\n🎉 HTTP resilience working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    server.close();
+  }
+}
+
+testResilience();
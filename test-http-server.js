@@ -0,0 +1,95 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { bearerToken, startHttpServer } from './dist/http-server.js';
+import { check } from './test-helpers.js';
+
+// Serves a one-tool MCP server over HTTP on an ephemeral port - no network or Stellify account needed.
+const IDLE_MS = 300;
+
+function createServer(credential) {
+  const server = new Server({ name: 'test-http-server', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: `echo_${credential}`, inputSchema: { type: 'object' } }],
+  }));
+  return server;
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'raw', version: '1.0.0' } },
+};
+
+async function post(url, token, body, sessionId) {
+  return fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...(sessionId && { 'Mcp-Session-Id': sessionId }),
+    },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+async function testHttpServer() {
+  console.log('Testing the HTTP transport\n');
+
+  const { server, close } = await startHttpServer(createServer, {
+    host: '127.0.0.1',
+    port: 0,
+    sessionIdleTimeout: IDLE_MS,
+    authenticate: bearerToken,
+  });
+  const base = `http://127.0.0.1:${server.address().port}`;
+  const clients = [];
+  const requestInit = { headers: { Authorization: 'Bearer alpha' } };
+
+  try {
+    console.log('1. Health...');
+    const health = await (await fetch(`${base}/health`)).json();
+    check(health.status === 'ok' && health.sessions.streamable === 0, 'Health endpoint answers');
+
+    console.log('\n2. Streamable HTTP...');
+    const streamable = new Client({ name: 'test-http-server', version: '1.0.0' });
+    clients.push(streamable);
+    await streamable.connect(new StreamableHTTPClientTransport(new URL(`${base}/mcp`), { requestInit }));
+    const { tools } = await streamable.listTools();
+    check(tools.length === 1 && tools[0].name === 'echo_alpha', 'initialize then tools/list');
+    check((await (await fetch(`${base}/health`)).json()).sessions.streamable === 1, 'Session counted');
+
+    console.log('\n3. Oversized bodies...');
+    const large = await post(`${base}/mcp`, 'alpha', JSON.stringify({ padding: 'x'.repeat(5 * 1024 * 1024) }));
+    check(large.status === 413, `Refused with ${large.status}`);
+
+    console.log('\n4. Idle sessions...');
+    const sse = new Client({ name: 'test-http-server', version: '1.0.0' });
+    clients.push(sse);
+    await sse.connect(new SSEClientTransport(new URL(`${base}/sse`), { requestInit }));
+    const opened = await post(`${base}/mcp`, 'alpha', initialize);
+    const idleId = opened.headers.get('mcp-session-id');
+    await opened.text();
+    await sleep(IDLE_MS * 3);
+    check((await sse.listTools()).tools[0].name === 'echo_alpha', 'Quiet SSE stream kept open');
+    check((await streamable.listTools()).tools.length === 1, 'Streamable session with an open stream kept');
+    const swept = await post(`${base}/mcp`, 'alpha', { jsonrpc: '2.0', id: 2, method: 'tools/list' }, idleId);
+    check(swept.status === 404, 'Session without a stream closed once idle');
+
+    console.log('\n🎉 HTTP transport working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await Promise.all(clients.map((client) => client.close()));
+    await close();
+  }
+}
+
+testHttpServer();
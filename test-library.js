@@ -0,0 +1,48 @@
+import { check, memoryClient } from './test-helpers.js';
+
+// Clones files on the in-memory backend - no network or Stellify account needed.
+const client = memoryClient('test-library');
+
+// Source without the lines that name the file
+const body = (source, name) => source.split(name).join('NAME');
+
+async function testLibrary() {
+  console.log('Testing library search and clone\n');
+
+  try {
+    const { directories } = await client.getProject();
+    const js = directories.find((directory) => directory.name === 'js');
+    const services = directories.find((directory) => directory.name === 'Services');
+
+    console.log('1. Searching the library...');
+    const found = await client.search('library', { query: 'Nothing*', sort: 'name', direction: 'asc' });
+    check(Array.isArray(found.items) && found.pagination.has_more === false, 'search_library returns a page');
+
+    console.log('\n2. Cloning a Vue component...');
+    const counter = await client.createVueComponent({
+      name: 'Counter',
+      source: '<template><button @click="increment">{{ count }}</button></template>\n<script setup>\nconst count = ref(0);\nfunction increment() {\n  count.value++;\n}\n</script>',
+    });
+    const copy = await client.cloneLibraryFile({ file: counter.file, directory: js.uuid, name: 'CounterCopy' });
+    check(copy.file !== counter.file && copy.methods.increment && copy.methods.increment !== counter.methods.increment, 'Copy has its own file and methods');
+    const [original, cloned] = await Promise.all([client.renderFile(counter.file), client.renderFile(copy.file)]);
+    check(body(cloned.source, 'CounterCopy') === body(original.source, 'Counter'), 'Copy renders like the original, click handler included');
+
+    console.log('\n3. Cloning a PHP class with includes...');
+    const service = await client.createFile({ directory: services.uuid, name: 'PriceService', type: 'class', namespace: 'App\\Services\\', includes: ['Illuminate\\Support\\Str'] });
+    const method = await client.createMethod({ file: service.uuid, name: 'slug', returnType: 'string' });
+    await client.addMethodBody({ file: service.uuid, method: method.uuid, code: '$name = "Price";\nreturn Str::slug($name);' });
+    const php = await client.cloneLibraryFile({ file: service.uuid, directory: services.uuid, name: 'PriceServiceCopy' });
+    const clonedPhp = await client.renderFile(php.file);
+    check(clonedPhp.source.includes('class PriceServiceCopy') && clonedPhp.source.includes('return Str::slug($name);'), 'Class renamed and body copied');
+    check((await client.getFile(php.file)).includes.length === 1, 'Includes copied');
+    check(php.statements.length === 0 && Object.keys(php.methods).length === 1, 'One method, no loose statements');
+
+    console.log('\n🎉 Library search and clone working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  }
+}
+
+testLibrary();
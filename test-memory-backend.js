@@ -0,0 +1,71 @@
+import { check, memoryClient } from './test-helpers.js';
+
+// Runs the client against the in-memory backend - no network or Stellify account needed.
+// memory://<name> gives each run its own store.
+const client = memoryClient('test-memory-backend');
+
+async function expectStatus(promise, status) {
+  try {
+    await promise;
+  } catch (error) {
+    return error.response?.status === status;
+  }
+  return false;
+}
+
+async function testMemoryBackend() {
+  console.log('Testing the in-memory Stellify backend\n');
+
+  try {
+    console.log('1. Project and directories...');
+    const { project, directories } = await client.getProject();
+    const js = directories.find((directory) => directory.name === 'js');
+    check(project.uuid && project.branch === 'main' && js, 'Active project has a js directory on main');
+
+    console.log('\n2. Files, methods and statements reference each other...');
+    const file = await client.createFile({ directory: js.uuid, name: 'Counter', type: 'js', extension: 'vue' });
+    const method = await client.createMethod({ file: file.uuid, name: 'increment' });
+    await client.addMethodBody({ file: file.uuid, method: method.uuid, code: 'count.value++; emit("changed");' });
+    const stored = await client.getMethod(method.uuid);
+    check((await client.getFile(file.uuid)).data.includes(method.uuid), 'Method added to its file');
+    check(stored.data.length === 2, 'Method body split into two statements');
+    check((await client.getDirectory(js.uuid)).data.includes(file.uuid), 'File listed in its directory');
+
+    console.log('\n3. HTML becomes an element tree attached to the route...');
+    const route = await client.createRoute({ name: 'Home', path: '/', method: 'GET' });
+    const html = await client.htmlToElements({ elements: '<div class="p-4"><h1>{{ title }}</h1><img src="/a.png"><p>Hi</p></div>', page: route.uuid });
+    const root = Object.keys(html.data)[0];
+    const tree = await client.getElementTree(root);
+    check(tree.children.length === 3 && tree.children[1].tag === 'img', 'Nested and void elements parsed');
+    check(tree.children[0].statements.length === 1, '{{ binding }} created a statement');
+    check((await client.getRoute(route.uuid)).data.includes(root), 'Root element attached to the route');
+
+    console.log('\n4. Deletes cascade...');
+    const deleted = await client.deleteElement(root);
+    check(deleted.deleted_count === 4, 'Element deleted with its three children');
+    await client.deleteMethod(method.uuid);
+    check(await expectStatus(client.getStatement(stored.data[0]), 404), "Method's statements deleted with it");
+
+    console.log('\n5. ETags and If-Match...');
+    const { file: current, etag } = await client.getFileWithETag(file.uuid);
+    await client.saveFile(file.uuid, { ...current, name: 'Counter2' }, etag);
+    check(await expectStatus(client.saveFile(file.uuid, current, etag), 412), 'Stale If-Match rejected with 412');
+
+    console.log('\n6. Branches are separate copies...');
+    await client.createBranch({ name: 'feature' });
+    const feature = client.forSession();
+    feature.useBranch('feature');
+    await feature.saveFile(file.uuid, { ...(await feature.getFile(file.uuid)), name: 'OnFeature' });
+    check((await client.getFile(file.uuid)).name === 'Counter2', 'Change on feature not visible on main');
+
+    console.log('\n7. Validation errors...');
+    check(await expectStatus(client.createFile({ directory: js.uuid, type: 'js' }), 422), 'Missing name rejected with 422');
+
+    console.log('\n🎉 In-memory backend working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  }
+}
+
+testMemoryBackend();
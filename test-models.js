@@ -0,0 +1,63 @@
+import http from 'http';
+import { ResponseShapeError } from './dist/models.js';
+import { StellifyClient } from './dist/stellify-client.js';
+import { check } from './test-helpers.js';
+
+// Decodes responses from a local mock API whose bodies drift from the models - no Stellify account needed.
+const routes = {};
+
+const server = http.createServer((req, res) => {
+  const body = routes[`${req.method} ${req.url.split('?')[0]}`];
+  res.writeHead(body ? 200 : 404, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body ?? { message: 'Not found' }));
+});
+
+async function shapeError(promise) {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof ResponseShapeError) return error;
+    throw error;
+  }
+  throw new Error('Expected a ResponseShapeError');
+}
+
+async function testModels() {
+  console.log('Testing response models\n');
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const client = new StellifyClient({ apiUrl: `http://127.0.0.1:${server.address().port}`, apiToken: 'test-token' });
+
+  try {
+    console.log('1. Entities...');
+    routes['GET /file/a'] = { success: true, data: { uuid: 'a', name: 'Cart', data: ['m1'] } };
+    const file = await client.getFile('a');
+    check(file.uuid === 'a' && file.data[0] === 'm1', 'Envelope unwrapped');
+
+    console.log('\n2. Lists...');
+    routes['GET /projects'] = { data: [{ uuid: 'p1', name: 'Shop', data: { theme: 'dark' } }, { uuid: 'p2', name: null }] };
+    const projects = await client.listProjects();
+    check(projects.length === 2 && projects[0].uuid === 'p1' && projects[0].data.theme === 'dark', 'Entry with its own data object kept whole');
+    routes['GET /projects'] = { data: { data: [{ uuid: 'p1' }], current_page: 1 } };
+    check((await client.listProjects())[0].uuid === 'p1', 'Paginated list read');
+
+    console.log('\n3. Schema drift...');
+    routes['GET /file/b'] = { success: true, data: { uuid: 42, name: 'Cart' } };
+    const drifted = await shapeError(client.getFile('b'));
+    check(drifted.request === 'GET /file/b' && drifted.message.includes('GET /file/b'), `Request named: ${drifted.request}`);
+    check(drifted.issues[0].path === 'file.uuid' && drifted.issues[0].received === 'integer' && drifted.message.includes('file.uuid must be a string'), 'Field named');
+    routes['GET /projects'] = { data: [{ uuid: 'p1' }, { name: 'No uuid' }] };
+    const missing = await shapeError(client.listProjects());
+    check(missing.issues.length === 1 && missing.issues[0].path === 'projects[1].uuid', 'List entry named by its index');
+    routes['GET /projects'] = { data: 'maintenance' };
+    check((await shapeError(client.listProjects())).issues[0].path === 'projects', 'Non-list refused');
+
+    console.log('\n🎉 Response models working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    server.close();
+  }
+}
+
+testModels();
@@ -0,0 +1,60 @@
+import { decodeSearch, fileSchema } from './dist/models.js';
+import { check, memoryClient } from './test-helpers.js';
+
+// Pages through searches on the in-memory backend - no network or Stellify account needed.
+const client = memoryClient('test-pagination');
+
+async function testPagination() {
+  console.log('Testing search pagination\n');
+
+  try {
+    const { directories } = await client.getProject();
+    const js = directories.find((directory) => directory.name === 'js');
+    for (let index = 1; index <= 25; index++) {
+      await client.createFile({ directory: js.uuid, name: `Widget${index}`, type: 'js', extension: 'vue' });
+    }
+
+    console.log('1. One page at a time...');
+    const first = await client.search('files', { query: 'Widget*', per_page: 10 });
+    check(first.items.length === 10 && first.pagination.has_more && first.pagination.total === 25, 'First page has 10 of 25 and more to come');
+    const second = await client.search('files', { cursor: first.pagination.next_cursor });
+    check(second.pagination.page === 2 && second.items[0].name === 'Widget11', 'Cursor continues the same search on page 2');
+    const third = await client.search('files', { cursor: second.pagination.next_cursor });
+    check(third.items.length === 5 && !third.pagination.has_more && third.pagination.next_cursor === null, 'Last page has no cursor');
+
+    console.log('\n2. Every page with all...');
+    const all = await client.search('files', { query: 'Widget*', per_page: 10, all: true });
+    check(all.items.length === 25 && all.pagination.pages === 3 && !all.pagination.truncated, 'all collected 3 pages');
+    check(new Set(all.items.map((file) => file.uuid)).size === 25, 'No result repeated');
+
+    console.log('\n3. Bad paging arguments...');
+    for (const [args, expected] of [
+      [{ cursor: first.pagination.next_cursor }, 'comes from search_files'],
+      [{ cursor: 'not-a-cursor' }, 'is not a next_cursor'],
+      [{ per_page: 500 }, 'per_page must be'],
+    ]) {
+      try {
+        await client.search('routes', args);
+        throw new Error(`${JSON.stringify(args)} was accepted`);
+      } catch (error) {
+        check(error.name === 'ToolInputError' && error.message.includes(expected), `Rejected: ${error.message}`);
+      }
+    }
+
+    console.log('\n4. Other response shapes...');
+    const file = { uuid: 'f1', name: 'Widget' };
+    const keyed = decodeSearch(fileSchema, 'files', { success: true, files: [file] }, 'GET /file/search');
+    check(keyed.items[0].uuid === 'f1' && keyed.has_more === null, '{ success, files } read as one complete page');
+    const nested = decodeSearch(fileSchema, 'files', { success: true, data: { results: [file], current_page: 1, last_page: 2 } }, 'GET /file/search');
+    check(nested.items.length === 1 && nested.has_more === true, 'results list keeps its paging details');
+    const other = decodeSearch(fileSchema, 'files', { success: true, matches: [file] }, 'GET /file/search');
+    check(other.items.length === 1, 'Unknown key falls back to the first list');
+
+    console.log('\n🎉 Search pagination working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  }
+}
+
+testPagination();
@@ -0,0 +1,70 @@
+import { check, memoryClient } from './test-helpers.js';
+
+// Patches files on the in-memory backend - no network or Stellify account needed.
+const client = memoryClient('test-patch');
+
+async function testPatch() {
+  console.log('Testing file patches\n');
+
+  try {
+    const { directories } = await client.getProject();
+    const services = directories.find((directory) => directory.name === 'Services');
+    const file = await client.createFile({ directory: services.uuid, name: 'PriceService', type: 'class' });
+    const helper = await client.createFile({ directory: services.uuid, name: 'TaxService', type: 'class' });
+    const [first, second] = [await client.createMethod({ file: file.uuid, name: 'first' }), await client.createMethod({ file: file.uuid, name: 'second' })];
+
+    console.log('1. Operations...');
+    const report = await client.patchFile(file.uuid, [
+      { op: 'remove_method', method: first.uuid },
+      { op: 'add_method', method: first.uuid, position: 1 },
+      { op: 'add_include', include: helper.uuid },
+      { op: 'set_field', field: 'namespace', value: 'App\\Services\\' },
+    ]);
+    const patched = await client.getFile(file.uuid);
+    check(report.applied === 4 && report.attempts === 1, 'Four operations applied in one attempt');
+    check(patched.data.join() === [second.uuid, first.uuid].join() && patched.includes.includes(helper.uuid), 'Methods reordered and include added');
+    check(patched.namespace === 'App\\Services\\', 'Field set');
+
+    console.log('\n2. Operations that do not apply...');
+    for (const [operation, expected] of [
+      [{ op: 'remove_method', method: 'missing' }, 'is not in data'],
+      [{ op: 'set_field', field: 'data', value: [] }, 'cannot be set directly'],
+      [{ op: 'add_method', method: 'new', position: 9 }, 'out of range'],
+    ]) {
+      try {
+        await client.patchFile(file.uuid, [operation]);
+        throw new Error(`${operation.op} was applied`);
+      } catch (error) {
+        check(error.message.includes('Operation 0') && error.message.includes(expected), `Refused: ${error.message}`);
+      }
+    }
+
+    console.log('\n3. Concurrent edits...');
+    const { file: before } = await client.getFileWithETag(file.uuid);
+    const { version } = await client.patchFile(file.uuid, [{ op: 'set_field', field: 'name', value: 'Prices' }]);
+    try {
+      await client.patchFile(file.uuid, [{ op: 'set_field', field: 'name', value: 'Stale' }], { expected_version: version });
+      throw new Error('A stale expected_version was accepted');
+    } catch (error) {
+      check(error.name === 'FileConflictError', `Stale version refused: ${error.message}`);
+    }
+    const getFileWithETag = client.getFileWithETag;
+    let reads = 0;
+    client.getFileWithETag = async (uuid) => {
+      const read = await getFileWithETag.call(client, uuid);
+      if (reads++ === 0) await client.saveFile(uuid, { ...before, uuid, name: 'Other' }); // Another agent saves in between
+      return read;
+    };
+    const retried = await client.patchFile(file.uuid, [{ op: 'set_field', field: 'extension', value: 'php' }]);
+    client.getFileWithETag = getFileWithETag;
+    const latest = await client.getFile(file.uuid);
+    check(retried.attempts === 2 && latest.name === 'Other' && latest.extension === 'php', 'Re-applied on top of the other save');
+
+    console.log('\n🎉 File patches working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  }
+}
+
+testPatch();
@@ -0,0 +1,81 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { decide, policyFromEnv } from './dist/policy.js';
+import { check, connectServer } from './test-helpers.js';
+
+// Checks the tool policy, then runs the stdio server on the in-memory backend
+// with tools denied and confirm-required - no network or Stellify account needed.
+const root = mkdtempSync(path.join(os.tmpdir(), 'stellify-policy-'));
+
+function parse(result) {
+  return JSON.parse(result.content[0].text);
+}
+
+async function testPolicy() {
+  console.log('Testing the tool policy\n');
+
+  let client;
+  let reader;
+  try {
+    console.log('1. Decisions...');
+    const policy = { read_only: false, allow: [], deny: ['delete_*'], confirm: ['write'] };
+    check(decide(policy, 'delete_file').action === 'deny', 'Glob denies delete_file');
+    check(decide(policy, 'create_file').action === 'confirm', 'Category "write" needs confirmation');
+    check(decide(policy, 'get_file').action === 'allow', 'Reads allowed');
+    const readOnly = decide({ ...policy, deny: [], read_only: true }, 'save_file');
+    check(readOnly.action === 'deny' && readOnly.reason.includes('read-only'), 'Read-only mode denies writes');
+    check(decide({ ...policy, allow: ['get_*'] }, 'search_files').action === 'deny', 'Tools outside allow denied');
+
+    console.log('\n2. Policy from the environment...');
+    const file = path.join(root, 'policy.json');
+    writeFileSync(file, JSON.stringify({ deny: ['run_code'], confirm: ['save_file'] }));
+    const loaded = policyFromEnv({ STELLIFY_POLICY_FILE: file, STELLIFY_DENY_TOOLS: 'delete_*, patch_file' });
+    check(loaded.deny.join(',') === 'run_code,delete_*,patch_file' && loaded.confirm.join(',') === 'save_file', 'File and variables combined');
+    writeFileSync(file, JSON.stringify({ deny: ['run_code'], reed_only: true }));
+    try {
+      policyFromEnv({ STELLIFY_POLICY_FILE: file });
+      throw new Error('A policy file with unknown keys was accepted');
+    } catch (error) {
+      check(error.message.includes('Unknown keys') && error.message.includes('reed_only'), `Broken policy refused: ${error.message}`);
+    }
+
+    console.log('\n3. The server...');
+    client = await connectServer('test-policy', { STELLIFY_DENY_TOOLS: 'delete_*', STELLIFY_CONFIRM_TOOLS: 'create_directory' });
+    const { tools } = await client.listTools();
+    check(!tools.some((tool) => tool.name.startsWith('delete_')) && tools.some((tool) => tool.name === 'get_file'), 'Denied tools left out of tools/list');
+
+    const denied = await client.callTool({ name: 'delete_file', arguments: { uuid: 'any' } });
+    check(denied.isError && parse(denied).refused.includes('denied by policy'), 'Denied tool refused when called');
+    const unconfirmed = await client.callTool({ name: 'create_directory', arguments: { name: 'reports' } });
+    check(unconfirmed.isError && parse(unconfirmed).refused.includes('confirm: true'), 'Confirm-required tool refused without confirmation');
+    const confirmed = await client.callTool({ name: 'create_directory', arguments: { name: 'reports', confirm: true } });
+    check(!confirmed.isError && parse(confirmed).success, 'Runs with confirm: true');
+    const batch = await client.callTool({ name: 'batch', arguments: { operations: [{ tool: 'delete_file', arguments: { uuid: 'any' } }] } });
+    check(JSON.stringify(parse(batch)).includes('denied by policy'), 'Denied tool refused inside a batch');
+
+    console.log('\n4. Resources...');
+    reader = await connectServer('test-policy', { STELLIFY_DENY_TOOLS: 'get_file,get_directory' });
+    const { resources } = await reader.listResources();
+    check(resources.length === 1 && resources[0].uri === 'stellify://project', 'Directories left out of resources/list');
+    const { resourceTemplates } = await reader.listResourceTemplates();
+    check(!resourceTemplates.some((template) => /file|directory/.test(template.uriTemplate)) && resourceTemplates.some((template) => template.uriTemplate === 'stellify://project'), 'Denied templates left out');
+    const refusal = await reader.readResource({ uri: 'stellify://file/any' }).then(() => undefined, (error) => error);
+    check(refusal?.message.includes('"get_file" was refused'), 'Reading a file refused like get_file');
+    check(JSON.parse((await reader.readResource({ uri: 'stellify://project' })).contents[0].text).project, 'Allowed resources still read');
+    await reader.close();
+    reader = await connectServer('test-policy', { STELLIFY_DENY_TOOLS: 'get_project' });
+    check((await reader.listResources()).resources.length === 0, 'Nothing listed when get_project is denied');
+
+    console.log('\n🎉 Tool policy working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await client?.close();
+    await reader?.close();
+    rmSync(root, { recursive: true, force: true });
+  }
+}
+
+testPolicy();
@@ -0,0 +1,80 @@
+import http from 'http';
+import { StellifyClient } from './dist/stellify-client.js';
+import { check, connectServer } from './test-helpers.js';
+
+// Switches projects through the stdio server against a local mock API that
+// records each request's project and branch headers - no Stellify account needed.
+const seen = [];
+
+const api = http.createServer((req, res) => {
+  const path = req.url.split('?')[0];
+  seen.push({ path, project: req.headers['x-stellify-project'], branch: req.headers['x-stellify-branch'] });
+  const bodies = {
+    '/projects': { data: [{ uuid: 'p-shop', name: 'Shop' }, { uuid: 'p-blog', name: 'Blog' }] },
+    '/branches': { data: ['main', 'feature'] },
+  };
+  const body = bodies[path] ?? (path.startsWith('/file/') ? { data: { uuid: path.slice('/file/'.length) } } : undefined);
+  res.writeHead(body ? 200 : 404, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body ?? { message: 'Not found' }));
+});
+
+function parse(result) {
+  return JSON.parse(result.content[0].text);
+}
+
+// The headers sent when reading this file
+function headersFor(uuid) {
+  return seen.filter((request) => request.path === `/file/${uuid}`).at(-1);
+}
+
+async function testProjects() {
+  console.log('Testing project switching\n');
+  await new Promise((resolve) => api.listen(0, '127.0.0.1', resolve));
+  const apiUrl = `http://127.0.0.1:${api.address().port}`;
+
+  let client;
+  try {
+    client = await connectServer('test-projects', { STELLIFY_API_URL: apiUrl, STELLIFY_API_TOKEN: 'test-token' });
+
+    console.log('1. Listing and selecting...');
+    const listed = parse(await client.callTool({ name: 'list_projects', arguments: {} }));
+    check(listed.projects.length === 2 && listed.selected === null, 'Projects listed, none selected');
+    await client.callTool({ name: 'get_file', arguments: { uuid: 'before' } });
+    check(headersFor('before').project === undefined, 'No project header before use_project');
+    const used = parse(await client.callTool({ name: 'use_project', arguments: { project: 'shop' } }));
+    check(used.project.uuid === 'p-shop', 'Project selected by name');
+    await client.callTool({ name: 'get_file', arguments: { uuid: 'after' } });
+    check(headersFor('after').project === 'p-shop', 'X-Stellify-Project sent after use_project');
+    const unknown = await client.callTool({ name: 'use_project', arguments: { project: 'Wiki' } });
+    check(unknown.isError && JSON.stringify(unknown.content).includes('Shop (p-shop)'), 'Unknown project refused with the available ones');
+
+    console.log('\n2. Branches...');
+    await client.callTool({ name: 'switch_branch', arguments: { branch: 'feature' } });
+    await client.callTool({ name: 'get_file', arguments: { uuid: 'on-feature' } });
+    check(headersFor('on-feature').branch === 'feature', 'Branch header sent');
+    await client.callTool({ name: 'use_project', arguments: { project: 'p-blog' } });
+    await client.callTool({ name: 'get_file', arguments: { uuid: 'switched' } });
+    check(headersFor('switched').project === 'p-blog' && headersFor('switched').branch === undefined, 'Switching project resets the branch');
+
+    console.log('\n3. Sessions...');
+    const parent = new StellifyClient({ apiUrl, apiToken: 'test-token' });
+    parent.useProject('p-shop');
+    const session = parent.forSession();
+    check(session.selectedProject === 'p-shop', 'Session starts from the parent\'s project');
+    session.useProject('p-blog');
+    await parent.getFile('parent');
+    await session.getFile('session');
+    check(parent.selectedProject === 'p-shop' && headersFor('parent').project === 'p-shop', 'Parent keeps its project');
+    check(headersFor('session').project === 'p-blog', 'Session sends its own project');
+
+    console.log('\n🎉 Project switching working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await client?.close();
+    api.close();
+  }
+}
+
+testProjects();
@@ -0,0 +1,46 @@
+import { getPrompt, listPrompts } from './dist/prompts.js';
+import { check } from './test-helpers.js';
+
+// Expands the workflow prompts - no server, network or Stellify account needed.
+
+function refused(run, expected) {
+  try {
+    run();
+  } catch (error) {
+    return error.code === -32602 && error.message.includes(expected);
+  }
+  return false;
+}
+
+function testPrompts() {
+  console.log('Testing workflow prompts\n');
+
+  try {
+    console.log('1. Listing...');
+    const names = listPrompts(() => true).map((prompt) => prompt.name);
+    check(['build_vue_component', 'build_crud_resource', 'build_page_from_html', 'add_event_handler', 'diagnose_quality'].every((name) => names.includes(name)), `${names.length} prompts listed`);
+    check(listPrompts(() => true).every((prompt) => !('tools' in prompt) && !('render' in prompt)), 'Only protocol fields listed');
+    const withoutAnalysis = listPrompts((tool) => !tool.startsWith('analyze_')).map((prompt) => prompt.name);
+    check(!withoutAnalysis.includes('diagnose_quality') && !withoutAnalysis.includes('build_crud_resource'), 'Prompts needing a denied tool hidden');
+
+    console.log('\n2. Expanding...');
+    const { messages } = getPrompt('build_vue_component', { name: ' TodoList ', description: 'A list of todos' });
+    const text = messages[0].content.text;
+    check(messages.length === 1 && messages[0].role === 'user', 'One user message');
+    check(text.includes('"name": "TodoList"') && text.includes('create_vue_component'), 'Argument trimmed and filled into the tool call');
+    check(!text.includes('"module"'), 'Optional argument left out when not given');
+
+    console.log('\n3. Bad requests...');
+    check(refused(() => getPrompt('build_vue_component', { name: 'TodoList' }), '"description" is required'), 'Missing required argument refused');
+    check(refused(() => getPrompt('add_event_handler', { element: 'e', method: 'm', event: 'hover' }), '"event" must be one of'), 'Unknown event refused');
+    check(refused(() => getPrompt('diagnose_quality', { days: '-1' }), '"days" must be a positive integer'), 'Bad days refused');
+    check(refused(() => getPrompt('diagnose_quality', {}, (tool) => tool !== 'analyze_quality'), 'Unknown prompt'), 'Hidden prompt refused');
+
+    console.log('\n🎉 Workflow prompts working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  }
+}
+
+testPrompts();
@@ -24,34 +24,34 @@ async function testReadDelete() {
       method: 'GET',
       type: 'web',
     });
-    console.log('✅ Route created:', route.data.uuid);
+    console.log('✅ Route created:', route.uuid);
 
     const container = await client.createElement({
-      page: route.data.uuid,
+      page: route.uuid,
       type: 's-wrapper',
     });
-    await client.updateElement(container.data.uuid, {
+    await client.updateElement(container.uuid, {
       name: 'Container',
       tag: 'div',
       classes: ['container', 'mx-auto'],
     });
-    console.log('✅ Container created:', container.data.uuid);
+    console.log('✅ Container created:', container.uuid);
 
     const button1 = await client.createElement({
-      parent: container.data.uuid,
+      parent: container.uuid,
       type: 's-wrapper',
     });
-    await client.updateElement(button1.data.uuid, {
+    await client.updateElement(button1.uuid, {
       name: 'Button 1',
       tag: 'button',
       text: 'Click Me',
     });
 
     const button2 = await client.createElement({
-      parent: container.data.uuid,
+      parent: container.uuid,
       type: 's-wrapper',
     });
-    await client.updateElement(button2.data.uuid, {
+    await client.updateElement(button2.uuid, {
       name: 'Button 2',
       tag: 'button',
       text: 'Cancel',
@@ -61,21 +61,21 @@ async function testReadDelete() {
 
     // Step 2: Get single element
     console.log('2. Testing get_element...');
-    const element = await client.getElement(container.data.uuid);
+    const element = await client.getElement(container.uuid);
     console.log('✅ Retrieved element:');
-    console.log('   Name:', element.data.name);
-    console.log('   Tag:', element.data.tag);
-    console.log('   Classes:', element.data.classes);
+    console.log('   Name:', element.name);
+    console.log('   Tag:', element.tag);
+    console.log('   Classes:', element.classes);
     console.log('');
 
     // Step 3: Get element tree
     console.log('3. Testing get_element_tree...');
-    const tree = await client.getElementTree(container.data.uuid);
+    const tree = await client.getElementTree(container.uuid);
     console.log('✅ Retrieved element tree:');
-    console.log('   Root:', tree.data.name);
-    console.log('   Children:', tree.data.children ? tree.data.children.length : 0);
-    if (tree.data.children) {
-      tree.data.children.forEach((child, i) => {
+    console.log('   Root:', tree.name);
+    console.log('   Children:', tree.children ? tree.children.length : 0);
+    if (tree.children) {
+      tree.children.forEach((child, i) => {
         console.log(`     ${i+1}. ${child.name} (${child.tag}): "${child.text}"`);
       });
     }
@@ -88,26 +88,26 @@ async function testReadDelete() {
       per_page: 10,
     });
     console.log('✅ Search results:');
-    console.log('   Found:', searchResults.data.length, 'elements');
-    console.log('   Total in project:', searchResults.pagination.total);
-    searchResults.data.slice(0, 3).forEach((el, i) => {
+    console.log('   Found:', searchResults.items.length, 'elements');
+    console.log('   Total in project:', searchResults.total);
+    searchResults.items.slice(0, 3).forEach((el, i) => {
       console.log(`     ${i+1}. ${el.name || 'Unnamed'} (${el.type})`);
     });
     console.log('');
 
     // Step 5: Delete element
     console.log('5. Testing delete_element (deleting button 2)...');
-    const deleteResult = await client.deleteElement(button2.data.uuid);
+    const deleteResult = await client.deleteElement(button2.uuid);
     console.log('✅ Deleted:', deleteResult.deleted_count, 'element(s)');
     console.log('');
 
     // Step 6: Verify deletion by getting tree again
     console.log('6. Verifying deletion...');
-    const updatedTree = await client.getElementTree(container.data.uuid);
+    const updatedTree = await client.getElementTree(container.uuid);
     console.log('✅ Updated tree:');
-    console.log('   Children remaining:', updatedTree.data.children ? updatedTree.data.children.length : 0);
-    if (updatedTree.data.children) {
-      updatedTree.data.children.forEach((child, i) => {
+    console.log('   Children remaining:', updatedTree.children ? updatedTree.children.length : 0);
+    if (updatedTree.children) {
+      updatedTree.children.forEach((child, i) => {
         console.log(`     ${i+1}. ${child.name}`);
       });
     }
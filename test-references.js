@@ -0,0 +1,79 @@
+import { check, exists, memoryClient } from './test-helpers.js';
+
+// Reference-checked deletes on the in-memory backend - no network or Stellify account needed.
+const client = memoryClient('test-references');
+
+async function testReferences() {
+  console.log('Testing reference-checked deletes\n');
+
+  try {
+    const { directories } = await client.getProject();
+    const js = directories.find((directory) => directory.name === 'js');
+    const file = await client.createFile({ directory: js.uuid, name: 'Actions', type: 'js', extension: 'vue' });
+    const method = await client.createMethod({ file: file.uuid, name: 'save' });
+
+    console.log('1. A route page element wired to the method...');
+    const route = await client.createRoute({ name: 'Home', path: '/', method: 'GET', type: 'web' });
+    const button = await client.createElement({ type: 's-wrapper', page: route.uuid });
+    await client.updateElement(button.uuid, { click: method.uuid });
+    const refused = await client.deleteWithReferences('method', method.uuid);
+    check(!refused.deleted && refused.references.some((reference) => reference.kind === 'element' && reference.uuid === button.uuid), 'Delete refused: the page element still references the method');
+
+    console.log('\n2. Cascade...');
+    const cascaded = await client.deleteWithReferences('method', method.uuid, { cascade: true });
+    check(cascaded.deleted && cascaded.detached.some((reference) => reference.uuid === button.uuid), 'Reference detached and method deleted');
+    check((await client.getElement(button.uuid)).click == null, 'Click handler cleared');
+
+    console.log('\n3. Unreadable project...');
+    const other = await client.createMethod({ file: file.uuid, name: 'load' });
+    const getFile = client.getFile;
+    client.getFile = async () => {
+      throw new Error('API unavailable');
+    };
+    try {
+      await client.deleteWithReferences('method', other.uuid, { force: true });
+      throw new Error('Delete went ahead without a reference check');
+    } catch (error) {
+      check(error.message.includes('nothing was deleted') && error.message.includes('API unavailable'), `Delete aborted: ${error.message}`);
+    } finally {
+      client.getFile = getFile;
+    }
+    check(await exists(() => client.getMethod(other.uuid)), 'Method still there');
+
+    console.log('\n4. Cascading a directory...');
+    const folder = await client.createDirectory({ name: 'widgets' });
+    for (const name of ['One', 'Two', 'Three']) {
+      await client.createFile({ directory: folder.uuid, name, type: 'js', extension: 'vue' });
+    }
+    const getProject = client.getProject;
+    let reads = 0;
+    client.getProject = (...args) => {
+      reads++;
+      return getProject.apply(client, args);
+    };
+    const removed = await client.deleteWithReferences('directory', folder.uuid, { cascade: true });
+    client.getProject = getProject;
+    check(removed.deleted && removed.cascaded.length === 3, 'Directory and its three files deleted');
+    check(reads === 1, 'Project indexed once for the whole cascade');
+
+    console.log('\n5. A blocked file deep in a cascade...');
+    const shop = await client.createDirectory({ name: 'shop' });
+    const first = await client.createFile({ directory: shop.uuid, name: 'Cart', type: 'class' });
+    const second = await client.createFile({ directory: shop.uuid, name: 'CartController', type: 'controller' });
+    const outside = await client.createFile({ directory: js.uuid, name: 'Checkout', type: 'js', extension: 'vue' });
+    await client.saveFile(outside.uuid, { ...(await client.getFile(outside.uuid)), includes: [first.uuid] });
+    const page = await client.createRoute({ name: 'Cart', path: '/cart', method: 'GET', type: 'web', controller: second.uuid });
+    const blocked = await client.deleteWithReferences('directory', shop.uuid, { cascade: true });
+    check(!blocked.deleted && blocked.refused.includes(`file ${second.uuid}`) && blocked.refused.includes(`route ${page.uuid}`), `Refused: ${blocked.refused}`);
+    check(blocked.detached.length === 0 && blocked.cascaded.length === 0, 'Nothing reported detached or deleted');
+    check(await exists(() => client.getFile(first.uuid)), 'Earlier file in the directory still there');
+    check((await client.getFile(outside.uuid)).includes.includes(first.uuid), 'Its reference from outside left in place');
+
+    console.log('\n🎉 Reference-checked deletes working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  }
+}
+
+testReferences();
@@ -0,0 +1,42 @@
+import { check, memoryClient } from './test-helpers.js';
+
+// Renders Vue components on the in-memory backend - no network or Stellify account needed.
+const client = memoryClient('test-renderer');
+
+async function testRenderer() {
+  console.log('Testing Vue component rendering\n');
+
+  try {
+    const widgets = await client.createDirectory({ name: 'widgets' });
+    const card = await client.createVueComponent({
+      name: 'Card',
+      directory: widgets.uuid,
+      source: '<template><div><button @click="open">Open</button></div></template>\n<script setup>\nfunction open() {\n  return 1;\n}\n</script>',
+    });
+    const page = await client.createVueComponent({ name: 'Page', source: '<template><div>Page</div></template>\n<script setup>\n</script>' });
+    const layout = await client.createVueComponent({ name: 'Layout', source: '<template><div>Layout</div></template>\n<script setup>\n</script>' });
+
+    console.log('1. Includes from other directories...');
+    const pageFile = await client.getFile(page.file);
+    await client.saveFile(page.file, { ...pageFile, includes: [card.file, layout.file] });
+    const cardFile = await client.getFile(card.file);
+    await client.saveFile(card.file, { ...cardFile, includes: [page.file] });
+    const rendered = await client.renderFile(page.file);
+    check(rendered.source.includes("import Card from './widgets/Card.vue';"), 'Include in a subdirectory resolved from the including file');
+    check(rendered.source.includes("import Layout from './Layout.vue';"), 'Include in the same directory stays ./');
+    check((await client.renderFile(card.file)).source.includes("import Page from '../Page.vue';"), 'Include in a parent directory resolved with ../');
+
+    console.log('\n2. Handlers from another file...');
+    await client.updateElement(page.template[0], { click: card.methods.open });
+    const { source, unrendered } = await client.renderFile(page.file);
+    check(!source.includes(card.methods.open + '"') && source.includes(`<!-- stellify:unrendered event ${card.methods.open}`), 'Marker instead of a UUID handler');
+    check(unrendered.some((node) => node.kind === 'event' && node.uuid === card.methods.open), 'Handler listed as unrendered');
+
+    console.log('\n🎉 Vue component rendering working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  }
+}
+
+testRenderer();
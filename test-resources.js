@@ -0,0 +1,58 @@
+import { check, connectServer } from './test-helpers.js';
+
+// Reads MCP resources from the stdio server on the in-memory backend - no network or Stellify account needed.
+
+async function call(client, name, args) {
+  const result = await client.callTool({ name, arguments: args });
+  return JSON.parse(result.content[0].text);
+}
+
+async function read(client, uri) {
+  const { contents } = await client.readResource({ uri });
+  return JSON.parse(contents[0].text);
+}
+
+async function testResources() {
+  console.log('Testing MCP resources\n');
+
+  let client;
+  try {
+    client = await connectServer('test-resources');
+
+    console.log('1. Listing...');
+    const { resources } = await client.listResources();
+    check(resources[0].uri === 'stellify://project', 'Project listed first');
+    const js = resources.find((resource) => resource.name === 'Directory: js');
+    check(js && js.uri.startsWith('stellify://directory/'), 'Directories listed');
+    const { resourceTemplates } = await client.listResourceTemplates();
+    const templates = resourceTemplates.map((template) => template.uriTemplate);
+    check(['stellify://file/{uuid}', 'stellify://method/{uuid}', 'stellify://element/{uuid}/tree', 'stellify://route/{uuid}'].every((template) => templates.includes(template)), 'URI templates listed');
+
+    console.log('\n2. Reading...');
+    const directory = await read(client, js.uri);
+    const { file } = await call(client, 'create_file', { directory: directory.uuid, name: 'Counter', type: 'js', extension: 'vue' });
+    const { method } = await call(client, 'create_method', { file: file.uuid, name: 'increment' });
+    check((await read(client, `stellify://file/${file.uuid}`)).data.includes(method.uuid), 'File read through its URI');
+    check((await read(client, `stellify://method/${method.uuid}`)).name === 'increment', 'Method read through its URI');
+    check((await read(client, 'stellify://project')).project.uuid, 'Project read');
+
+    console.log('\n3. Unknown URIs...');
+    for (const uri of ['stellify://file', 'stellify://widget/1', 'https://example.com/file']) {
+      try {
+        await client.readResource({ uri });
+        throw new Error(`${uri} was read`);
+      } catch (error) {
+        check(/Unknown resource|Unsupported resource URI/.test(error.message), `Refused: ${uri}`);
+      }
+    }
+
+    console.log('\n🎉 MCP resources working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await client?.close();
+  }
+}
+
+testResources();
@@ -0,0 +1,127 @@
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { check, memoryClient } from './test-helpers.js';
+
+// Imports a folder, renders and exports it, then imports the export into a second
+// project, all on the in-memory backend - no network or Stellify account needed.
+const first = memoryClient('test-round-trip-1');
+const second = memoryClient('test-round-trip-2');
+const root = mkdtempSync(path.join(os.tmpdir(), 'stellify-round-trip-'));
+const [sourceDir, exportDir, journalDir] = ['source', 'export', 'journals'].map((name) => path.join(root, name));
+
+const COUNTER = `<template>
+  <div>
+    <!-- The count -->
+    <button @click="increment">{{ count }}</button>
+  </div>
+</template>
+
+<script setup>
+import { ref } from 'vue';
+
+const count = ref(0);
+
+function increment() {
+  count.value++;
+}
+</script>
+`;
+
+const PRICE_SERVICE = `<?php
+
+namespace App\\Services;
+
+use Illuminate\\Support\\Str;
+
+/**
+ * Prices and slugs.
+ */
+class PriceService extends BaseService
+{
+    // Default currency
+    protected $currency = 'EUR';
+
+    /**
+     * The slug for a product name.
+     */
+    public function slug(string $name): string
+    {
+        return Str::slug($name);
+    }
+}
+`;
+
+async function sources(client) {
+  const { items } = await client.search('files', { all: true });
+  const rendered = {};
+  for (const file of items) {
+    const { filename, source } = await client.renderFile(file.uuid);
+    rendered[filename] = source;
+  }
+  return rendered;
+}
+
+async function testRoundTrip() {
+  console.log('Testing render / export / import round trip\n');
+
+  try {
+    mkdirSync(path.join(sourceDir, 'app/Services'), { recursive: true });
+    mkdirSync(path.join(sourceDir, 'resources/js'), { recursive: true });
+    writeFileSync(path.join(sourceDir, 'app/Services/PriceService.php'), PRICE_SERVICE);
+    writeFileSync(path.join(sourceDir, 'resources/js/Counter.vue'), COUNTER);
+
+    console.log('1. Importing a folder...');
+    const imported = await first.importDirectory({ sourceDir, journalDir });
+    check(imported.errors.length === 0 && imported.imported.length === 2, 'Both files imported');
+    check(readdirSync(sourceDir).length === 2 && imported.journal.startsWith(journalDir) && existsSync(imported.journal), 'Journal kept outside the source folder');
+    const warnings = imported.warnings.map((entry) => entry.warning).join('\n');
+    check(warnings.includes('extends BaseService') && warnings.includes('2 docblock(s)') && warnings.includes('1 comment(s)'), 'extends, docblocks and comments reported as warnings');
+    check(warnings.includes('HTML comments'), 'Template comment reported');
+
+    console.log('\n2. Rendering...');
+    const rendered = await sources(first);
+    check(rendered['Counter.vue'].includes('@click="increment"') && !rendered['Counter.vue'].includes('data-stellify-event'), 'Vue handler rendered, marker gone');
+    check(rendered['PriceService.php'].includes('return Str::slug($name);'), 'PHP method body rendered');
+
+    console.log('\n3. Exporting...');
+    const exported = await first.exportProject({ outputDir: exportDir });
+    check(exported.errors.length === 0 && exported.written.length === 2, 'Both files exported');
+    const vuePath = exported.written.find((file) => file.endsWith('Counter.vue'));
+    check(readFileSync(path.join(exportDir, vuePath), 'utf8') === rendered['Counter.vue'], 'Exported file matches the render');
+
+    console.log('\n4. Importing the export into another project...');
+    const again = await second.importDirectory({ sourceDir: exportDir, journalDir });
+    check(again.errors.length === 0 && again.imported.length === 2, 'Export imports cleanly');
+    const rerendered = await sources(second);
+    check(rerendered['Counter.vue'] === rendered['Counter.vue'], 'Vue component survives the round trip');
+    check(rerendered['PriceService.php'] === rendered['PriceService.php'], 'PHP class survives the round trip');
+
+    console.log('\n5. Re-importing a file changed after a partial import...');
+    const partialDir = path.join(root, 'partial');
+    mkdirSync(partialDir);
+    writeFileSync(path.join(partialDir, 'Timer.vue'), COUNTER);
+    const saveFile = second.saveFile;
+    second.saveFile = async () => {
+      throw new Error('API unavailable');
+    };
+    const failed = await second.importDirectory({ sourceDir: partialDir, journalDir });
+    second.saveFile = saveFile;
+    check(failed.errors.length === 1, 'Import stopped before saving');
+    const partial = (await second.search('files', { query: 'Timer' })).items;
+    writeFileSync(path.join(partialDir, 'Timer.vue'), COUNTER.replace('count.value++', 'count.value += 2'));
+    const resumed = await second.importDirectory({ sourceDir: partialDir, journalDir });
+    const timers = (await second.search('files', { query: 'Timer' })).items;
+    check(resumed.errors.length === 0 && timers.length === 1 && timers[0].uuid !== partial[0].uuid, 'Partial import replaced, not duplicated');
+    check((await sources(second))['Timer.vue'].includes('count.value += 2'), 'Changed source imported');
+
+    console.log('\n🎉 Round trip working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+}
+
+testRoundTrip();
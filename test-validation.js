@@ -0,0 +1,64 @@
+import { createFileSchema, createMethodSchema } from './dist/schemas.js';
+import { assertValidArguments, ToolInputError, validate } from './dist/validation.js';
+import { check, connectServer } from './test-helpers.js';
+
+// Checks tool arguments against their input schemas, then through the stdio
+// server on the in-memory backend - no network or Stellify account needed.
+
+function refusal(tool, schema, args) {
+  try {
+    assertValidArguments(tool, schema, args);
+  } catch (error) {
+    if (error instanceof ToolInputError) return error;
+    throw error;
+  }
+  throw new Error(`${tool} accepted ${JSON.stringify(args)}`);
+}
+
+function parse(result) {
+  return JSON.parse(result.content[0].text);
+}
+
+async function testValidation() {
+  console.log('Testing tool input validation\n');
+
+  let client;
+  try {
+    console.log('1. Valid arguments...');
+    check(validate(createMethodSchema, { file: 'f', name: 'store', visibility: 'public', parameters: [{ name: 'request' }] }).length === 0, 'Matching arguments pass');
+
+    console.log('\n2. Refusals...');
+    const unknown = refusal('create_file', createFileSchema, { directory: 'd', name: 'Cart', type: 'class', extention: 'vue' });
+    check(unknown.issues.length === 1 && unknown.issues[0].path === 'extention' && unknown.issues[0].message === 'is not a known property', 'Unknown property refused');
+    check(unknown.issues[0].expected.includes('extension'), 'Known properties listed');
+    const badEnum = refusal('create_file', createFileSchema, { directory: 'd', name: 'Cart', type: 'service' });
+    check(badEnum.issues[0].path === 'type' && badEnum.message.includes('must be one of "class" | "model"'), 'Wrong enum value refused');
+    const nested = refusal('create_method', createMethodSchema, { file: 'f', name: 'store', parameters: [{ name: 'id' }, { name: 'request', datatype: 5 }] });
+    check(nested.issues[0].path === 'parameters[1].datatype' && nested.message.includes('parameters[1].datatype must be a string'), 'Wrong nested type refused with its path');
+    const missing = refusal('create_method', createMethodSchema, { name: 'store', parameters: [{ datatype: 'int' }] });
+    const paths = missing.issues.map((issue) => issue.path);
+    check(paths.includes('file') && paths.includes('parameters[0].name') && missing.issues.every((issue) => issue.message === 'is required'), 'Missing required fields refused, nested ones too');
+    check(missing.message.startsWith('Invalid arguments for create_method:'), 'Error names the tool');
+
+    console.log('\n3. Open objects...');
+    const open = { type: 'object', properties: { uuid: { type: 'string' } }, required: ['uuid'], additionalProperties: true };
+    check(validate(open, { uuid: 'a', extra: { anything: [1] } }).length === 0, 'additionalProperties: true accepts unknown properties');
+    check(validate(open, { uuid: 1, extra: true })[0]?.path === 'uuid', 'Known properties still checked');
+    check(validate({ ...open, additionalProperties: false }, { uuid: 'a', extra: true })[0]?.path === 'extra', 'Closed objects refuse them');
+
+    console.log('\n4. The server...');
+    client = await connectServer('test-validation');
+    const result = await client.callTool({ name: 'create_file', arguments: { directory: 'd', name: 'Cart', type: 'service' } });
+    const body = parse(result);
+    check(result.isError && body.issues[0].path === 'type' && body.issues[0].received === '"service"', 'Issues returned before the API is called');
+
+    console.log('\n🎉 Tool input validation working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await client?.close();
+  }
+}
+
+testValidation();
@@ -0,0 +1,64 @@
+import { wireTemplateEvents } from './dist/importer.js';
+import { EVENT_MARKER, prepareTemplate } from './dist/source-parser.js';
+import { check, memoryClient } from './test-helpers.js';
+
+// Builds Vue components on the in-memory backend - no network or Stellify account needed.
+const client = memoryClient('test-vue-builder');
+
+const component = (template, script) => `<template>${template}</template>\n<script setup>\n${script}\n</script>`;
+
+async function testVueBuilder() {
+  console.log('Testing Vue component event wiring\n');
+
+  try {
+    console.log('1. Wiring handlers to methods...');
+    const built = await client.createVueComponent({
+      name: 'Counter',
+      source: component(
+        '<div><button @click="increment">+</button><button @click="reset()">0</button></div>',
+        'const count = ref(0);\nfunction increment() {\n  count.value++;\n}\nfunction reset() {\n  count.value = 0;\n}'
+      ),
+    });
+    check(built.events.length === 2 && built.warnings.length === 0, 'Both handlers wired without warnings');
+    for (const event of built.events) {
+      const element = await client.getElement(event.element);
+      check(element.click === built.methods[event.method], `@click="${event.method}" holds the method UUID`);
+      check(element[EVENT_MARKER] == null, 'Marker cleared');
+    }
+    const { source } = await client.renderFile(built.file);
+    check(source.includes('@click="increment"') && !source.includes(EVENT_MARKER), 'Rendered component has the handlers and no marker');
+
+    console.log('\n2. Markers cleared when a handler does not resolve...');
+    const prepared = prepareTemplate('<button @click="missing">?</button>');
+    const created = (await client.htmlToElements({ elements: prepared.html })).data;
+    const wiring = await wireTemplateEvents(client, created, prepared.bindings, {});
+    const [uuid] = Object.keys(created);
+    check(wiring.events.length === 0 && wiring.warnings.length === 1, 'Unresolved handler reported');
+    check((await client.getElement(uuid))[EVENT_MARKER] == null, 'Marker cleared anyway');
+
+    console.log('\n3. Handlers and functions that cannot be imported...');
+    for (const [template, script, expected] of [
+      ['<button @click="increment">+</button>', 'const count = ref(0);\nconst increment = () => {\n  count.value++;\n};', 'is a const'],
+      ['<button @click="count++">+</button>', 'const count = ref(0);', 'is inline code'],
+      ['<button @click="missing">+</button>', 'const count = ref(0);', 'does not match a function'],
+      ['<button @click="load">+</button>', 'async function load() {\n  await fetch("/api");\n}', 'cannot be async'],
+      ['<button @click="save">+</button>', 'function save() {\n  return 1;\n}\nfunction save() {\n  return 2;\n}', 'save() is declared more than once'],
+    ]) {
+      const before = (await client.search('files', { query: 'Refused*' })).items.length;
+      try {
+        await client.createVueComponent({ name: 'Refused', source: component(template, script) });
+        throw new Error(`${template} was accepted`);
+      } catch (error) {
+        check(error.message.includes(expected), `Refused: ${error.message}`);
+      }
+      check((await client.search('files', { query: 'Refused*' })).items.length === before, 'Nothing created');
+    }
+
+    console.log('\n🎉 Vue component event wiring working!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    process.exitCode = 1;
+  }
+}
+
+testVueBuilder();